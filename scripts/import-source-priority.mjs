@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+// Generates src/data/source-priority.generated.ts from the "Data Source - Priority" sheet export.
+//
+//   node scripts/import-source-priority.mjs          # regenerate the typed catalog rows
+//   node scripts/import-source-priority.mjs --check  # fail if the sheet and the generated file drift
+//
+// Every sheet row must map to a catalog id below and every free-text column must parse; anything
+// the importer does not recognize fails the run instead of silently falling through.
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const projectRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const CSV_PATH = path.join(projectRoot, 'docs/V2/Data Source - Priority - Sources Priority.csv');
+const OUTPUT_PATH = path.join(projectRoot, 'src/data/source-priority.generated.ts');
+
+// Sheet product name (trimmed) -> catalog id. New sheet rows need an entry here.
+const SOURCE_IDS = new Map([
+  ['AWS - CloudTrail', 'aws-cloudtrail'],
+  ['AWS - ALB logs', 'aws-alb-logs'],
+  ['AWS - VPC Flow Logs', 'aws-vpc-flow-logs'],
+  ['Crowdstrike Falcon', 'crowdstrike-falcon'],
+  ['Palo Alto Networks - PanOS', 'palo-alto-networks-ngfw'],
+  ['Fortinet - Fortigate', 'fortinet-fortigate'],
+  ['Cisco Umbrella', 'cisco-umbrella'],
+  ['InfoBlox', 'infoblox-bloxone-ddi'],
+  ['Zscaler - ZIA', 'zscaler-internet-access'],
+  ['CloudFlare - WAF', 'cloudflare-waf'],
+  ['Okta', 'okta'],
+  ['Cisco Secure Firewall (f.k.a. Firepower)', 'cisco-secure-firewall'],
+  ['SonicWall - SonicOS/X', 'sonicwall-capture-security'],
+  ['Check Point Quantum', 'check-point-quantum'],
+  ['Windows Event Logs', 'windows-event-logs'],
+  ['Azure Monitor', 'azure-monitor'],
+  ['Microsoft - Defender', 'microsoft-defender-endpoint'],
+  ['Microsoft - Entra ID', 'microsoft-entra-id'],
+  ['Google Cloud - Audit Logs', 'google-cloud-audit-logs'],
+  ['Akamai', 'akamai-security-events'],
+  ['Wiz', 'wiz'],
+  ['Radware WAF', 'radware-waf'],
+  ['Abnormal Email', 'abnormal-email'],
+  ['Fortinet - ZTNA', 'fortinet-ztna'],
+  ['AWS - WAF', 'aws-waf'],
+  ['SentinelOne', 'sentinelone'],
+  ['Cisco ASA Firewall', 'cisco-asa'],
+  ['Zscaler ZPA', 'zscaler-zpa'],
+  ['Palo Alto Networks - Threat Prevention', 'palo-alto-threat-prevention'],
+  ['Fortinet - FortiIPS', 'fortinet-fortiips'],
+  ['Cisco Firepower IPS', 'cisco-firepower-ips'],
+  ['Ping Identity', 'ping-identity'],
+  ['CyberArk - Privileged Access', 'cyberark-privileged-access'],
+  ['ForgeRock (Ping Identity)', 'forgerock-iam'],
+  ['Trend Micro - TippingPoint', 'trend-micro-tippingpoint'],
+  ['F5 - Big-IP ASM', 'f5-big-ip-asm'],
+  ['Palo Alto - Cortex XDR', 'palo-alto-cortex-xdr'],
+  ['Microsoft Office 365', 'microsoft-office-365'],
+  ['Symantec - Carbon Black', 'carbon-black'],
+  ['Juniper Networks - SRX', 'juniper-srx'],
+  ['Symnatec - ProxySG', 'symantec-proxysg'],
+  ['Forepoint - Web Security', 'forcepoint-web-security'],
+  ['Darktrace', 'darktrace'],
+  ['Mimecast Email', 'mimecast-email'],
+]);
+
+// Vendor names misspelled in the sheet; the catalog shows the corrected label.
+const LABEL_CORRECTIONS = new Map([
+  ['Symnatec - ProxySG', 'Symantec - ProxySG'],
+  ['Forepoint - Web Security', 'Forcepoint - Web Security'],
+]);
+
+// Checked in order: "Cloud Push/Pull - AWS S3, Collector - syslog" is pulled from S3 first.
+const INGESTION_RULES = [
+  [/event hub|pub\/sub/i, 'event-stream'],
+  [/\bs3\b|\bs4\b|storage/i, 'object-storage'],
+  [/syslog|collector/i, 'syslog-collector'],
+  [/\bapi\b/i, 'api-pull'],
+];
+const SAME_AS_PATTERN = /^managed the same as (.+)$/i;
+
+const LOG_FORMATS = new Map([
+  ['json', 'json'],
+  ['syslog', 'syslog'],
+  ['cef', 'cef'],
+  ['cef2', 'cef'],
+  ['leef', 'leef'],
+  ['csv', 'csv'],
+  ['xml', 'xml'],
+]);
+
+const STATUSES = new Map([
+  ['done', 'done'],
+  ['in progress', 'in-progress'],
+  ['blocked', 'blocked'],
+]);
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes, and newlines inside quotes. */
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const toRecords = (rows) => {
+  const [header, ...body] = rows;
+  const columns = header.map((name) => name.trim());
+  return body
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''))
+    .map((cells) => Object.fromEntries(columns.map((name, index) => [name, (cells[index] ?? '').trim()])));
+};
+
+const buildRows = (records) => {
+  const problems = [];
+  const seen = new Set();
+  const rows = records.map((record, index) => {
+    const line = index + 2;
+    const name = record['Product Name'];
+    const id = SOURCE_IDS.get(name);
+    if (!id) {
+      problems.push(`line ${line}: "${name}" has no catalog id; add it to SOURCE_IDS.`);
+    }
+    if (seen.has(name)) {
+      problems.push(`line ${line}: "${name}" appears more than once.`);
+    }
+    seen.add(name);
+
+    const rankText = record['Rank (1 to 5)'];
+    const rank = rankText === '' ? undefined : Number(rankText);
+    if (rank !== undefined && !(Number.isInteger(rank) && rank >= 1 && rank <= 5)) {
+      problems.push(`line ${line}: rank "${rankText}" for "${name}" is not 1-5.`);
+    }
+
+    const outputFormats = [];
+    for (const token of record['Output Format for Parsing'].split(/,|\bor\b/i)) {
+      const format = token.trim().toLowerCase();
+      if (format === '') {
+        continue;
+      }
+      const mapped = LOG_FORMATS.get(format);
+      if (!mapped) {
+        problems.push(`line ${line}: unknown output format "${token.trim()}" for "${name}".`);
+      } else if (!outputFormats.includes(mapped)) {
+        outputFormats.push(mapped);
+      }
+    }
+
+    const status = {};
+    for (const [column, key] of [
+      ['Status (DS)', 'dataScience'],
+      ['Status (Eng)', 'engineering'],
+    ]) {
+      const text = record[column];
+      if (text === '') {
+        continue;
+      }
+      const mapped = STATUSES.get(text.toLowerCase());
+      if (!mapped) {
+        problems.push(`line ${line}: unknown ${column} "${text}" for "${name}".`);
+      } else {
+        status[key] = mapped;
+      }
+    }
+
+    return {
+      id,
+      name,
+      label: LABEL_CORRECTIONS.get(name) ?? name,
+      productType: record['Product Type'] || undefined,
+      rank,
+      ingestionNotes: record['Ingestion Method'] || undefined,
+      outputFormats,
+      status,
+    };
+  });
+
+  const byName = new Map(rows.map((row) => [row.name, row]));
+  // "Managed the same as Cisco Secure Firewall" names its target by a prefix of the product name.
+  const findReferenced = (reference) => {
+    const exact = byName.get(reference);
+    if (exact) {
+      return exact;
+    }
+    const candidates = rows.filter((row) => row.name.startsWith(reference));
+    return candidates.length === 1 ? candidates[0] : undefined;
+  };
+  const resolveMethod = (row, trail = []) => {
+    const notes = row.ingestionNotes;
+    if (!notes) {
+      return undefined;
+    }
+    const sameAs = notes.match(SAME_AS_PATTERN);
+    if (sameAs) {
+      const target = findReferenced(sameAs[1].trim());
+      if (!target || trail.includes(target.name)) {
+        problems.push(`"${row.name}" refers to an unknown, ambiguous, or circular source: "${notes}".`);
+        return undefined;
+      }
+      return resolveMethod(target, [...trail, row.name]);
+    }
+    const rule = INGESTION_RULES.find(([pattern]) => pattern.test(notes));
+    if (!rule) {
+      problems.push(`"${row.name}" has an unrecognized ingestion method: "${notes}".`);
+      return undefined;
+    }
+    return rule[1];
+  };
+  for (const row of rows) {
+    row.ingestionMethod = resolveMethod(row);
+  }
+
+  for (const [name, id] of SOURCE_IDS) {
+    if (!byName.has(name)) {
+      problems.push(`"${name}" (${id}) is mapped in SOURCE_IDS but missing from the sheet.`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Source priority sheet failed to import:\n- ${problems.join('\n- ')}`);
+  }
+  return rows;
+};
+
+const quote = (value) => `'${String(value).replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const renderRow = (row) => {
+  const lines = [`    id: ${quote(row.id)},`, `    label: ${quote(row.label)},`];
+  if (row.productType) {
+    lines.push(`    productType: ${quote(row.productType)},`);
+  }
+  if (row.rank !== undefined) {
+    lines.push(`    rank: ${row.rank},`);
+  }
+  if (row.ingestionMethod) {
+    lines.push(`    ingestionMethod: ${quote(row.ingestionMethod)},`);
+  }
+  if (row.ingestionNotes) {
+    lines.push(`    ingestionNotes: ${quote(row.ingestionNotes)},`);
+  }
+  lines.push(`    outputFormats: [${row.outputFormats.map(quote).join(', ')}],`);
+  const status = Object.entries(row.status).map(([key, value]) => `${key}: ${quote(value)}`);
+  lines.push(`    status: {${status.length > 0 ? ` ${status.join(', ')} ` : ''}},`);
+  return `  {\n${lines.join('\n')}\n  },`;
+};
+
+const render = (rows) => `// Generated by scripts/import-source-priority.mjs from
+// docs/V2/Data Source - Priority - Sources Priority.csv. Do not edit by hand: update the export
+// and run \`npm run catalog:import\`.
+import type { SourcePriorityRow } from './catalog.ts';
+
+export const sourcePriorityRows = [
+${rows.map(renderRow).join('\n')}
+] as const satisfies readonly SourcePriorityRow[];
+
+export type SourcePriorityId = (typeof sourcePriorityRows)[number]['id'];
+`;
+
+const main = async () => {
+  const check = process.argv.includes('--check');
+  const rows = buildRows(toRecords(parseCsv(await readFile(CSV_PATH, 'utf8'))));
+  const output = render(rows);
+  const relativeOutput = path.relative(projectRoot, OUTPUT_PATH);
+
+  if (check) {
+    const current = await readFile(OUTPUT_PATH, 'utf8').catch(() => '');
+    if (current !== output) {
+      throw new Error(`${relativeOutput} is out of date with the sheet export; run \`npm run catalog:import\`.`);
+    }
+    console.log(`${relativeOutput} matches the sheet (${rows.length} sources).`);
+    return;
+  }
+
+  await writeFile(OUTPUT_PATH, output);
+  console.log(`Wrote ${rows.length} sources to ${relativeOutput}.`);
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,41 @@
+#!/usr/bin/env node
+// Runs src/data/catalog-validation.ts outside the browser and exits non-zero on any error.
+//
+//   node scripts/validate-catalog.mjs
+//
+// Vite's SSR loader compiles the TypeScript catalog on the fly, so no separate build is needed.
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const projectRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const main = async () => {
+  const server = await createServer({
+    root: projectRoot,
+    configFile: false,
+    logLevel: 'silent',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false },
+    optimizeDeps: { noDiscovery: true, include: [] },
+  });
+  try {
+    const { validateCatalog, formatCatalogIssues } = await server.ssrLoadModule('/src/data/catalog-validation.ts');
+    const issues = validateCatalog();
+    const errors = issues.filter((issue) => issue.severity === 'error');
+    if (issues.length > 0) {
+      console.log(formatCatalogIssues(issues));
+    }
+    if (errors.length > 0) {
+      throw new Error(`Catalog validation failed with ${errors.length} error(s).`);
+    }
+    console.log(`Catalog is valid (${issues.length} warning(s)).`);
+  } finally {
+    await server.close();
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
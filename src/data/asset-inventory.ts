@@ -0,0 +1,223 @@
+import type { SourceEndpoint } from './catalog.ts';
+import type { SourcePriorityId } from './source-priority.generated.ts';
+import {
+  getRecommendationCategory,
+  getTrafficRecommendation,
+  trafficCategoryBaselines,
+  type TrafficRecommendation,
+} from './traffic-profiles.ts';
+
+/**
+ * Sizes infrastructure-driven sources from the customer's inventory instead of headcount: firewall
+ * appliances by throughput class, managed endpoints, AWS accounts, and VPCs. Each sizable source
+ * has a per-unit daily volume with a reference so a sales engineer can swap in a customer's
+ * measured numbers. Sources without a count keep the per-employee baseline.
+ */
+export type InventoryDriver = 'firewall-appliances' | 'managed-endpoints' | 'aws-accounts' | 'aws-vpcs';
+
+export type FirewallThroughputClass = 'branch' | 'campus' | 'datacenter';
+
+export interface InventoryDriverProfile {
+  id: InventoryDriver;
+  label: string;
+  /** Plural noun for the counted unit, e.g. "appliances". */
+  unitLabel: string;
+}
+
+export interface FirewallThroughputProfile {
+  id: FirewallThroughputClass;
+  label: string;
+  /** Multiplier on a rule's per-appliance volume, which is quoted for a campus-class appliance. */
+  volumeScale: number;
+}
+
+export interface InventorySizingRule {
+  driver: InventoryDriver;
+  /** Raw log GB per unit per day; for firewall appliances, per campus-class appliance. */
+  dailyGigabytesPerUnit: number;
+  reference: string;
+}
+
+/** What the customer's CMDB reports for one source. */
+export interface InventoryCount {
+  units: number;
+  /** Firewall appliances only; defaults to campus. */
+  throughputClass?: FirewallThroughputClass;
+}
+
+/** Inventory counts keyed by source id. */
+export type AssetInventory = Partial<Record<string, InventoryCount>>;
+
+export interface InventorySourceEstimate {
+  sourceId: string;
+  label: string;
+  driver: InventoryDriver;
+  unitLabel: string;
+  units: number;
+  throughputClass?: FirewallThroughputClass;
+  dailyGigabytesPerUnit: number;
+  averageEventSizeKb: number;
+  dailyEvents: number;
+  dailyGigabytes: number;
+  reference: string;
+}
+
+const KB_PER_GIGABYTE = 1_024 * 1_024;
+const DEFAULT_THROUGHPUT_CLASS: FirewallThroughputClass = 'campus';
+
+export const inventoryDrivers: Record<InventoryDriver, InventoryDriverProfile> = {
+  'firewall-appliances': { id: 'firewall-appliances', label: 'Firewall / IPS appliances', unitLabel: 'appliances' },
+  'managed-endpoints': { id: 'managed-endpoints', label: 'Managed endpoints', unitLabel: 'endpoints' },
+  'aws-accounts': { id: 'aws-accounts', label: 'AWS accounts', unitLabel: 'AWS accounts' },
+  'aws-vpcs': { id: 'aws-vpcs', label: 'VPCs', unitLabel: 'VPCs' },
+};
+
+export const firewallThroughputClasses: Record<FirewallThroughputClass, FirewallThroughputProfile> = {
+  branch: { id: 'branch', label: 'Branch (under 1 Gbps)', volumeScale: 0.1 },
+  campus: { id: 'campus', label: 'Campus / HQ (1-10 Gbps)', volumeScale: 1 },
+  datacenter: { id: 'datacenter', label: 'Data center (over 10 Gbps)', volumeScale: 5 },
+};
+
+const FIREWALL_TRAFFIC_RULE: InventorySizingRule = {
+  driver: 'firewall-appliances',
+  dailyGigabytesPerUnit: 20,
+  reference: 'Session-end traffic plus threat logging on a 1-10 Gbps NGFW; planning assumption.',
+};
+const IPS_SENSOR_RULE: InventorySizingRule = {
+  driver: 'firewall-appliances',
+  dailyGigabytesPerUnit: 3,
+  reference: 'IPS alert and signature logs only (no per-session records); planning assumption.',
+};
+const EDR_SENSOR_RULE: InventorySizingRule = {
+  driver: 'managed-endpoints',
+  dailyGigabytesPerUnit: 0.05,
+  reference: 'Streaming EDR telemetry (e.g. CrowdStrike FDR) runs 30-80 MB per endpoint per day.',
+};
+
+const inventorySizingRules: Partial<Record<SourcePriorityId, InventorySizingRule>> = {
+  'fortinet-fortigate': FIREWALL_TRAFFIC_RULE,
+  'palo-alto-networks-ngfw': FIREWALL_TRAFFIC_RULE,
+  'cisco-secure-firewall': FIREWALL_TRAFFIC_RULE,
+  'cisco-asa': FIREWALL_TRAFFIC_RULE,
+  'check-point-quantum': FIREWALL_TRAFFIC_RULE,
+  'sonicwall-capture-security': FIREWALL_TRAFFIC_RULE,
+  'juniper-srx': FIREWALL_TRAFFIC_RULE,
+  'palo-alto-threat-prevention': IPS_SENSOR_RULE,
+  'fortinet-fortiips': IPS_SENSOR_RULE,
+  'cisco-firepower-ips': IPS_SENSOR_RULE,
+  'trend-micro-tippingpoint': IPS_SENSOR_RULE,
+  'crowdstrike-falcon': EDR_SENSOR_RULE,
+  'microsoft-defender-endpoint': EDR_SENSOR_RULE,
+  sentinelone: EDR_SENSOR_RULE,
+  'palo-alto-cortex-xdr': EDR_SENSOR_RULE,
+  'carbon-black': EDR_SENSOR_RULE,
+  'windows-event-logs': {
+    driver: 'managed-endpoints',
+    dailyGigabytesPerUnit: 0.03,
+    reference: 'Security channel with logon and process-creation auditing on workstations; planning assumption.',
+  },
+  'aws-cloudtrail': {
+    driver: 'aws-accounts',
+    dailyGigabytesPerUnit: 0.5,
+    reference: 'Management events plus selected S3/Lambda data events per account; planning assumption.',
+  },
+  'aws-vpc-flow-logs': {
+    driver: 'aws-vpcs',
+    dailyGigabytesPerUnit: 10,
+    reference: 'Default-format flow records at all ENIs of a production VPC; planning assumption.',
+  },
+};
+
+export const getInventorySizingRule = (source: SourceEndpoint): InventorySizingRule | undefined =>
+  (inventorySizingRules as Partial<Record<string, InventorySizingRule>>)[source.id];
+
+const estimateSource = (
+  source: SourceEndpoint,
+  rule: InventorySizingRule,
+  count: InventoryCount,
+  recommendation: TrafficRecommendation,
+): InventorySourceEstimate => {
+  const throughputClass =
+    rule.driver === 'firewall-appliances' ? (count.throughputClass ?? DEFAULT_THROUGHPUT_CLASS) : undefined;
+  const dailyGigabytesPerUnit =
+    rule.dailyGigabytesPerUnit * (throughputClass ? firewallThroughputClasses[throughputClass].volumeScale : 1);
+  const dailyGigabytes = count.units * dailyGigabytesPerUnit;
+  const { averageEventSizeKb } =
+    trafficCategoryBaselines[getRecommendationCategory(source)][recommendation.organizationSize.id];
+  return {
+    sourceId: source.id,
+    label: source.label,
+    driver: rule.driver,
+    unitLabel: inventoryDrivers[rule.driver].unitLabel,
+    units: count.units,
+    throughputClass,
+    dailyGigabytesPerUnit,
+    averageEventSizeKb,
+    dailyEvents: (dailyGigabytes * KB_PER_GIGABYTE) / averageEventSizeKb,
+    dailyGigabytes,
+    reference: rule.reference,
+  };
+};
+
+/**
+ * Replaces the per-employee baseline with inventory-driven volume for every source that has a
+ * sizing rule and a positive count. The remaining sources keep the per-employee estimate for their
+ * categories, so a scenario can mix CMDB answers with headcount.
+ */
+export const getInventoryRecommendation = (
+  sources: readonly SourceEndpoint[],
+  inventory: AssetInventory,
+  employeeCount: number,
+): TrafficRecommendation => {
+  const recommendation = getTrafficRecommendation(sources, employeeCount);
+  const estimates = sources.flatMap((source) => {
+    const rule = getInventorySizingRule(source);
+    const count = inventory[source.id];
+    return rule && count && count.units > 0 ? [estimateSource(source, rule, count, recommendation)] : [];
+  });
+  if (estimates.length === 0) {
+    return recommendation;
+  }
+
+  const sizedIds = new Set(estimates.map((estimate) => estimate.sourceId));
+  const unsized = sources.filter((source) => !sizedIds.has(source.id));
+  const categories = unsized.length > 0 ? getTrafficRecommendation(unsized, employeeCount).categories : [];
+  const rows = [...estimates, ...categories];
+  const dailyEvents = rows.reduce((sum, row) => sum + row.dailyEvents, 0);
+  const dailyGigabytes = rows.reduce((sum, row) => sum + row.dailyGigabytes, 0);
+
+  return {
+    ...recommendation,
+    categories,
+    inventory: estimates,
+    dailyEvents,
+    dailyGigabytes,
+    averageEventSizeKb:
+      dailyEvents > 0 ? (dailyGigabytes * KB_PER_GIGABYTE) / dailyEvents : recommendation.averageEventSizeKb,
+  };
+};
+
+/**
+ * Daily GB per source implied by a recommendation: inventory-sized sources keep their own volume,
+ * and each per-employee category's volume is split evenly across the remaining sources in it.
+ */
+export const getRecommendedSourceVolumes = (
+  recommendation: TrafficRecommendation,
+  sources: readonly SourceEndpoint[],
+): Record<string, number> => {
+  const volumes: Record<string, number> = {};
+  for (const estimate of recommendation.inventory) {
+    volumes[estimate.sourceId] = estimate.dailyGigabytes;
+  }
+  for (const category of recommendation.categories) {
+    const members = sources.filter(
+      (source) =>
+        !Object.prototype.hasOwnProperty.call(volumes, source.id) &&
+        getRecommendationCategory(source) === category.category,
+    );
+    for (const source of members) {
+      volumes[source.id] = category.dailyGigabytes / members.length;
+    }
+  }
+  return volumes;
+};
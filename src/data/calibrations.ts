@@ -0,0 +1,41 @@
+/**
+ * Measured reductions from customer deployments. A calibration replaces the heuristic reduction
+ * for the sources it covers whenever every one of its sources is selected and the destination
+ * matches. Add an entry per engagement rather than editing an existing one, so the provenance
+ * printed in exports stays traceable.
+ */
+export interface CalibrationProvenance {
+  customer: string;
+  /** ISO date the reduction was measured; omitted when the engagement did not record it. */
+  measuredOn?: string;
+  /** Days of production traffic observed. */
+  sampleDays?: number;
+  /** Raw volume observed per day during the sample window. */
+  sampleTerabytesPerDay?: number;
+  reference: string;
+}
+
+export interface CalibrationRecord {
+  id: string;
+  /** All of these sources must be selected; the measured reduction applies to their combined volume. */
+  sourceIds: string[];
+  /** Destinations the measurement holds for; omit to match any destination. */
+  destinationIds?: string[];
+  /** Observed fraction of raw volume Realm removed (0.2099 === 20.99%). */
+  measuredReduction: number;
+  provenance: CalibrationProvenance;
+}
+
+export const calibrationRegistry: CalibrationRecord[] = [
+  {
+    id: 'vensure-fortigate-sumo',
+    sourceIds: ['fortinet-fortigate'],
+    destinationIds: ['sumo-logic-siem'],
+    measuredReduction: 0.2099,
+    // The case study does not state when the reduction was measured or over what sample.
+    provenance: {
+      customer: 'Vensure',
+      reference: 'Vensure case study (~$250K annual savings with Realm Focus).',
+    },
+  },
+];
@@ -0,0 +1,167 @@
+import { calibrationRegistry, type CalibrationRecord } from './calibrations.ts';
+import {
+  allDestinations,
+  ARCHIVE_DESTINATION_IDS,
+  DESTINATION_ALLOWLIST,
+  sources,
+  TRAFFIC_CATEGORIES,
+  type DestinationEndpoint,
+  type EndpointBase,
+  type SourceEndpoint,
+} from './catalog.ts';
+import { deploymentProfiles, type DeploymentProfile } from './deployments.ts';
+import { organizationSizeOptions, trafficCategoryBaselines, type OrganizationSizeKey } from './traffic-profiles.ts';
+
+export type CatalogIssueSeverity = 'error' | 'warning';
+
+export interface CatalogIssue {
+  severity: CatalogIssueSeverity;
+  /** Where the problem lives, e.g. `sources[3] (okta).realmReduction.factor`. */
+  path: string;
+  message: string;
+}
+
+/** Everything the validator looks at; defaults to the shipped catalog so tests can pass broken copies. */
+export interface CatalogSnapshot {
+  sources: readonly SourceEndpoint[];
+  allDestinations: readonly DestinationEndpoint[];
+  destinationAllowlist: Iterable<string>;
+  archiveDestinationIds: Iterable<string>;
+  categoryBaselines: Partial<
+    Record<string, Partial<Record<OrganizationSizeKey, { averageEventSizeKb: number; eventsPerEmployeePerDay: number }>>>
+  >;
+  calibrations: readonly CalibrationRecord[];
+  deploymentProfiles: readonly DeploymentProfile[];
+}
+
+export const getShippedCatalog = (): CatalogSnapshot => ({
+  sources,
+  allDestinations,
+  destinationAllowlist: DESTINATION_ALLOWLIST,
+  archiveDestinationIds: ARCHIVE_DESTINATION_IDS,
+  categoryBaselines: trafficCategoryBaselines,
+  calibrations: calibrationRegistry,
+  deploymentProfiles: Object.values(deploymentProfiles),
+});
+
+const describeEntry = (collection: string, index: number, entry: EndpointBase): string =>
+  `${collection}[${index}] (${entry.id})`;
+
+const checkEndpoints = (collection: string, entries: readonly EndpointBase[], issues: CatalogIssue[]): void => {
+  const firstIndex = new Map<string, number>();
+  entries.forEach((entry, index) => {
+    const path = describeEntry(collection, index, entry);
+    const previous = firstIndex.get(entry.id);
+    if (previous !== undefined) {
+      issues.push({
+        severity: 'error',
+        path: `${path}.id`,
+        message: `Duplicate id "${entry.id}"; first defined at ${collection}[${previous}].`,
+      });
+    } else {
+      firstIndex.set(entry.id, index);
+    }
+
+    const { factor } = entry.realmReduction;
+    if (!Number.isFinite(factor) || factor < 0 || factor >= 1) {
+      issues.push({
+        severity: 'error',
+        path: `${path}.realmReduction.factor`,
+        message: `Reduction factor ${factor} is outside [0, 1); use a decimal such as 0.35 for 35%.`,
+      });
+    }
+  });
+};
+
+const checkIdReferences = (
+  label: string,
+  ids: Iterable<string>,
+  known: ReadonlySet<string>,
+  collection: string,
+  issues: CatalogIssue[],
+): void => {
+  for (const id of ids) {
+    if (!known.has(id)) {
+      issues.push({ severity: 'error', path: label, message: `"${id}" does not exist in ${collection}.` });
+    }
+  }
+};
+
+/**
+ * Structural checks the type system cannot express: unique ids, reductions in range, every source
+ * categorized, id lists (allowlist, archives, calibrations, deployments) that point at real
+ * catalog entries, and a traffic baseline for every category and organization size. Returns an
+ * empty list for a healthy catalog.
+ */
+export const validateCatalog = (catalog: CatalogSnapshot = getShippedCatalog()): CatalogIssue[] => {
+  const issues: CatalogIssue[] = [];
+  checkEndpoints('sources', catalog.sources, issues);
+  checkEndpoints('allDestinations', catalog.allDestinations, issues);
+
+  catalog.sources.forEach((source, index) => {
+    if (!source.trafficCategory) {
+      issues.push({
+        severity: 'error',
+        path: `${describeEntry('sources', index, source)}.trafficCategory`,
+        message: 'Missing trafficCategory; traffic baselines, shapes, and collector defaults would silently fall back.',
+      });
+    }
+  });
+
+  const sourceIds = new Set(catalog.sources.map((source) => source.id));
+  const destinationIds = new Set(catalog.allDestinations.map((destination) => destination.id));
+  checkIdReferences('DESTINATION_ALLOWLIST', catalog.destinationAllowlist, destinationIds, 'allDestinations', issues);
+  checkIdReferences('ARCHIVE_DESTINATION_IDS', catalog.archiveDestinationIds, destinationIds, 'allDestinations', issues);
+  catalog.calibrations.forEach((calibration) => {
+    const path = `calibrationRegistry (${calibration.id})`;
+    checkIdReferences(`${path}.sourceIds`, calibration.sourceIds, sourceIds, 'sources', issues);
+    checkIdReferences(`${path}.destinationIds`, calibration.destinationIds ?? [], destinationIds, 'allDestinations', issues);
+  });
+  catalog.deploymentProfiles.forEach((profile) => {
+    const { show, hide } = profile.destinations;
+    const path = `deploymentProfiles.${profile.id}.destinations`;
+    checkIdReferences(path, [...show, ...hide], destinationIds, 'allDestinations', issues);
+  });
+
+  for (const category of TRAFFIC_CATEGORIES) {
+    const baselines = catalog.categoryBaselines[category];
+    if (!baselines) {
+      issues.push({
+        severity: 'error',
+        path: `categoryBaselines.${category}`,
+        message: `No traffic baseline for category "${category}".`,
+      });
+      continue;
+    }
+    for (const size of organizationSizeOptions) {
+      const baseline = baselines[size.id];
+      if (!baseline || !(baseline.averageEventSizeKb > 0)) {
+        issues.push({
+          severity: 'error',
+          path: `categoryBaselines.${category}.${size.id}`,
+          message: `Missing or non-positive averageEventSizeKb for "${category}" at "${size.id}".`,
+        });
+      } else if (!(baseline.eventsPerEmployeePerDay > 0)) {
+        issues.push({
+          severity: 'error',
+          path: `categoryBaselines.${category}.${size.id}.eventsPerEmployeePerDay`,
+          message: `Non-positive events per employee for "${category}" at "${size.id}".`,
+        });
+      }
+    }
+  }
+
+  const allowlistSize = new Set(catalog.destinationAllowlist).size;
+  if (allowlistSize < 20) {
+    issues.push({
+      severity: 'warning',
+      path: 'DESTINATION_ALLOWLIST',
+      message: `Only ${allowlistSize} destinations are in the curated allowlist; it is documented as the top 20.`,
+    });
+  }
+
+  return issues;
+};
+
+export const formatCatalogIssues = (issues: readonly CatalogIssue[]): string =>
+  issues.map((issue) => `${issue.severity.toUpperCase()} ${issue.path}: ${issue.message}`).join('\n');
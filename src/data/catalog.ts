@@ -1,25 +1,156 @@
-export type TrafficCategory =
-  | 'identity'
-  | 'cloud-infrastructure'
-  | 'network-security'
-  | 'endpoint-edr'
-  | 'saas-business';
+import { sourcePriorityRows, type SourcePriorityId } from './source-priority.generated.ts';
+
+export const TRAFFIC_CATEGORIES = [
+  'identity',
+  'cloud-infrastructure',
+  'network-security',
+  'endpoint-edr',
+  'saas-business',
+  'email-security',
+  'dns-ddi',
+  'waf-cdn',
+  'proxy-swg',
+  'windows-events',
+] as const;
+
+export type TrafficCategory = (typeof TRAFFIC_CATEGORIES)[number];
+
+// `user-supplied` factors come from a rep entering a custom integration and are used as entered.
+export type RationaleBasis = 'empirical' | 'assumption' | 'user-supplied';
+
+/** A volume reduction factor with where it came from; used for Realm and for competitor pipelines. */
+export interface ReductionEstimate {
+  /** Reduction factor expressed as decimal (0.25 === 25%). */
+  factor: number;
+  /** Indicates whether the factor is measurement-backed or a planning assumption. */
+  basis: RationaleBasis;
+  /** Short reference describing where the factor originated. */
+  reference: string;
+}
+
+/** Realm's expected reduction for a catalog endpoint. */
+export type RealmReduction = ReductionEstimate;
 
 export interface EndpointBase {
   id: string;
   label: string;
   description: string;
-  realmOptimization: number; // express as decimal (0.25 == 25%)
+  realmReduction: RealmReduction;
   trafficCategory?: TrafficCategory;
+  /** Set on entries a rep adds for a tool the catalog does not list. */
+  custom?: boolean;
 }
 
-export type SourceEndpoint = EndpointBase;
+/**
+ * How a source's logs reach the pipeline: a customer-hosted syslog/agent collector, an object
+ * storage bucket (S3 and equivalents) that is polled, a vendor API, or a cloud event stream
+ * (Azure Event Hub, Google Pub/Sub).
+ */
+export type IngestionMethod = 'syslog-collector' | 'object-storage' | 'api-pull' | 'event-stream';
+
+/** Formats a source can emit, normalized from the sheet's "Output Format for Parsing" column. */
+export type LogFormat = 'json' | 'syslog' | 'cef' | 'leef' | 'csv' | 'xml';
+
+export type ImplementationStatus = 'done' | 'in-progress' | 'blocked';
+
+/** Planning fields carried over from the "Data Source - Priority" sheet. */
+export interface SourcePriority {
+  productType?: string;
+  /** 1 (lowest) to 5 (highest) customer demand. */
+  rank?: number;
+  /** The sheet's free-text ingestion note that `ingestionMethod` was parsed from. */
+  ingestionNotes?: string;
+  outputFormats: LogFormat[];
+  status: {
+    dataScience?: ImplementationStatus;
+    engineering?: ImplementationStatus;
+  };
+}
+
+/** One generated sheet row; see scripts/import-source-priority.mjs. */
+export interface SourcePriorityRow extends Omit<SourcePriority, 'outputFormats'> {
+  id: string;
+  label: string;
+  ingestionMethod?: IngestionMethod;
+  outputFormats: readonly LogFormat[];
+}
+
+export interface SourceEndpoint extends EndpointBase {
+  /** From the sheet's "Ingestion Method" column; omit where the sheet is blank. */
+  ingestionMethod?: IngestionMethod;
+  priority?: SourcePriority;
+}
+
+export interface LicenseBand {
+  /** Upper bound of the band in raw TB/day; omit for the open-ended top band. */
+  upToTerabytesPerDay?: number;
+  annualCostPerTb: number;
+}
+
+export interface CommitmentTier {
+  gigabytesPerDay: number;
+  dailyPrice: number;
+}
+
+export type DestinationPricingModel =
+  | {
+      kind: 'flat-per-tb';
+      annualCostPerTb: number;
+      reference: string;
+    }
+  | {
+      /** Whole volume is licensed at the rate of the band it falls into (Splunk-style). */
+      kind: 'license-bands';
+      bands: LicenseBand[];
+      reference: string;
+    }
+  | {
+      /** Pay-as-you-go per GB or the cheapest daily commitment tier plus overage (Sentinel-style). */
+      kind: 'ingest-commitment';
+      payAsYouGoPerGb: number;
+      commitmentTiers: CommitmentTier[];
+      reference: string;
+    }
+  | {
+      /** Per-employee subscription with a fair-use ingest allowance (Chronicle-style). */
+      kind: 'per-employee';
+      annualCostPerEmployee: number;
+      includedGigabytesPerEmployeePerDay: number;
+      overageAnnualCostPerTb: number;
+      reference: string;
+    }
+  | {
+      /** Object storage billed on GB-months retained, with no analytics license. */
+      kind: 'storage-only';
+      storagePerGbMonth: number;
+      retentionDays: number;
+      reference: string;
+    };
+
+export interface RetentionPricing {
+  /** Searchable days bundled with the ingest license. */
+  includedHotDays: number;
+  /** Price per GB-month for searchable retention beyond the included window. */
+  extendedHotPerGbMonth: number;
+  reference: string;
+}
+
+export interface FreeTier {
+  /** Raw ingest per day that the destination never bills. */
+  includedGigabytesPerDay: number;
+  notes: string;
+}
 
 export interface DestinationEndpoint extends EndpointBase {
-  costPerMillionEvents: number;
+  /** Omit to fall back to the flat traditional SIEM benchmark. */
+  pricing?: DestinationPricingModel;
+  /** Free daily ingest deducted before the pricing model is applied. */
+  freeTier?: FreeTier;
+  /** Omit to fall back to the benchmark retention allowance. Ignored for storage-only pricing. */
+  retention?: RetentionPricing;
 }
 
-const DESTINATION_ALLOWLIST = new Set<DestinationEndpoint['id']>([
+export const DESTINATION_ALLOWLIST = new Set<DestinationEndpoint['id']>([
   'splunk-es',
   'sumo-logic-siem',
   'aws-s3-logs',
@@ -40,539 +171,534 @@ const DESTINATION_ALLOWLIST = new Set<DestinationEndpoint['id']>([
   'hunters-soc-platform',
 ]);
 
-// Synced with the "Data Source - Priority" sheet listed in Shortcut story 4077.
-export const sources: SourceEndpoint[] = [
-  {
-    id: 'aws-cloudtrail',
-    label: 'AWS - CloudTrail',
+// Low-cost, full-fidelity tiers that can sit behind the analytics SIEM in a routing plan.
+export const ARCHIVE_DESTINATION_IDS = new Set<DestinationEndpoint['id']>([
+  'aws-s3-logs',
+  'gcs-storage',
+  'azure-blob-storage',
+  'hydrolix',
+]);
+
+const PLANNING_ESTIMATE_REFERENCE = 'Catalog planning estimate; not yet measured in a customer deployment.';
+
+// Replace with an empirical entry (and its reference) once a deployment measures the endpoint.
+const plannedReduction = (factor: number): RealmReduction => ({
+  factor,
+  basis: 'assumption',
+  reference: PLANNING_ESTIMATE_REFERENCE,
+});
+
+// Catalog copy for each sheet row. Labels, ingestion methods, and priority fields come from the
+// "Data Source - Priority" sheet (Shortcut story 4077) via `npm run catalog:import`; a new sheet row
+// fails the type-check until it gets an entry here.
+const sourceDetails: Record<SourcePriorityId, Omit<EndpointBase, 'id' | 'label'>> = {
+  'aws-cloudtrail': {
     description: 'Account activity events captured across AWS services.',
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
     trafficCategory: 'cloud-infrastructure',
   },
-  {
-    id: 'aws-alb-logs',
-    label: 'AWS - ALB logs',
+  'aws-alb-logs': {
     description: 'Application Load Balancer access logs for web traffic analysis.',
-    realmOptimization: 0.28,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.28),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'aws-vpc-flow-logs',
-    label: 'AWS - VPC Flow Logs',
+  'aws-vpc-flow-logs': {
     description: 'Network flow records exported from VPC subnets and interfaces.',
-    realmOptimization: 0.27,
+    realmReduction: plannedReduction(0.27),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'crowdstrike-falcon',
-    label: 'Crowdstrike Falcon',
+  'crowdstrike-falcon': {
     description: 'EDR detections, managed threat hunting, and audit events.',
-    realmOptimization: 0.4,
+    realmReduction: plannedReduction(0.4),
     trafficCategory: 'endpoint-edr',
   },
-  {
-    id: 'palo-alto-networks-ngfw',
-    label: 'Palo Alto Networks - PanOS',
+  'palo-alto-networks-ngfw': {
     description: 'Threat, traffic, and URL filtering logs from PAN-OS.',
-    realmOptimization: 0.6,
+    realmReduction: plannedReduction(0.6),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'fortinet-fortigate',
-    label: 'Fortinet - Fortigate',
+  'fortinet-fortigate': {
     description: 'Unified threat management events from FortiGate appliances.',
-    realmOptimization: 0.75,
+    realmReduction: plannedReduction(0.75),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'cisco-umbrella',
-    label: 'Cisco Umbrella',
+  'cisco-umbrella': {
     description: 'DNS-layer security and secure web gateway telemetry.',
-    realmOptimization: 0.44,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.44),
+    trafficCategory: 'dns-ddi',
   },
-  {
-    id: 'infoblox-bloxone-ddi',
-    label: 'InfoBlox',
+  'infoblox-bloxone-ddi': {
     description: 'DNS, DHCP, and IP address management telemetry from BloxOne DDI.',
-    realmOptimization: 0.71,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.71),
+    trafficCategory: 'dns-ddi',
   },
-  {
-    id: 'zscaler-internet-access',
-    label: 'Zscaler - ZIA',
+  'zscaler-internet-access': {
     description: 'Cloud proxy transactions and threat protection data.',
-    realmOptimization: 0.34,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.34),
+    trafficCategory: 'proxy-swg',
   },
-  {
-    id: 'cloudflare-waf',
-    label: 'CloudFlare - WAF',
+  'cloudflare-waf': {
     description: 'Web application firewall events and edge threat intelligence.',
-    realmOptimization: 0.3,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.3),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'okta',
-    label: 'Okta',
+  okta: {
     description: 'Identity provider system logs and authentication events.',
-    realmOptimization: 0.38,
+    realmReduction: plannedReduction(0.38),
     trafficCategory: 'identity',
   },
-  {
-    id: 'google-cloud-audit-logs',
-    label: 'Google Cloud - Audit Logs',
+  'google-cloud-audit-logs': {
     description: 'Admin activity, data access, and system event logging.',
-    realmOptimization: 0.32,
+    realmReduction: plannedReduction(0.32),
     trafficCategory: 'cloud-infrastructure',
   },
-  {
-    id: 'azure-monitor',
-    label: 'Azure Monitor',
+  'azure-monitor': {
     description: 'Platform activity and diagnostic logs collected via Azure Monitor.',
-    realmOptimization: 0.3,
+    realmReduction: plannedReduction(0.3),
     trafficCategory: 'cloud-infrastructure',
   },
-  {
-    id: 'microsoft-defender-endpoint',
-    label: 'Microsoft - Defender',
+  'microsoft-defender-endpoint': {
     description: 'Behavioral detections and device telemetry from Defender.',
-    realmOptimization: 0.38,
+    realmReduction: plannedReduction(0.38),
     trafficCategory: 'endpoint-edr',
   },
-  {
-    id: 'cisco-secure-firewall',
-    label: 'Cisco Secure Firewall (f.k.a. Firepower)',
+  'cisco-secure-firewall': {
     description: 'Firewall, intrusion, and malware detection telemetry.',
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'sonicwall-capture-security',
-    label: 'SonicWall - SonicOS/X',
+  'sonicwall-capture-security': {
     description: 'Firewall and advanced threat protection analytics.',
-    realmOptimization: 0.25,
+    realmReduction: plannedReduction(0.25),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'check-point-quantum',
-    label: 'Check Point Quantum',
+  'check-point-quantum': {
     description: 'Next-gen firewall, IPS, and threat prevention telemetry.',
-    realmOptimization: 0.38,
+    realmReduction: plannedReduction(0.38),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'windows-event-logs',
-    label: 'Windows Event Logs',
+  'windows-event-logs': {
     description: 'Security, system, and application channel events from Windows hosts.',
-    realmOptimization: 0.42,
-    trafficCategory: 'endpoint-edr',
+    realmReduction: plannedReduction(0.42),
+    trafficCategory: 'windows-events',
   },
-  {
-    id: 'akamai-security-events',
-    label: 'Akamai',
+  'akamai-security-events': {
     description: 'Edge security events from Akamai WAF and bot management services.',
-    realmOptimization: 0.31,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.31),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'microsoft-entra-id',
-    label: 'Microsoft - Entra ID',
+  'microsoft-entra-id': {
     description: 'Sign-in and audit events from Entra ID tenants.',
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
     trafficCategory: 'identity',
   },
-  {
-    id: 'wiz',
-    label: 'Wiz',
+  wiz: {
     description: 'Cloud security posture events across public cloud estates.',
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
     trafficCategory: 'cloud-infrastructure',
   },
-  {
-    id: 'radware-waf',
-    label: 'Radware WAF',
+  'radware-waf': {
     description: 'Web application firewall telemetry from Radware deployments.',
-    realmOptimization: 0.29,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.29),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'abnormal-email',
-    label: 'Abnormal Email',
+  'abnormal-email': {
     description: 'Email security detections and behavioral anomaly alerts.',
-    realmOptimization: 0.36,
-    trafficCategory: 'saas-business',
+    realmReduction: plannedReduction(0.36),
+    trafficCategory: 'email-security',
   },
-  {
-    id: 'fortinet-ztna',
-    label: 'Fortinet - ZTNA',
+  'fortinet-ztna': {
     description: 'Zero Trust access session and policy enforcement events.',
-    realmOptimization: 0.45,
+    realmReduction: plannedReduction(0.45),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'aws-waf',
-    label: 'AWS - WAF',
+  'aws-waf': {
     description: 'Layer 7 firewall request logs and rule evaluation outcomes.',
-    realmOptimization: 0.32,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.32),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'sentinelone',
-    label: 'SentinelOne',
+  sentinelone: {
     description: 'Endpoint detection telemetry and autonomous response actions.',
-    realmOptimization: 0.41,
+    realmReduction: plannedReduction(0.41),
     trafficCategory: 'endpoint-edr',
   },
-  {
-    id: 'cisco-asa',
-    label: 'Cisco ASA Firewall',
+  'cisco-asa': {
     description: 'Adaptive Security Appliance firewall and VPN session logs.',
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'zscaler-zpa',
-    label: 'Zscaler ZPA',
+  'zscaler-zpa': {
     description: 'Zero Trust remote access events and policy enforcement activity.',
-    realmOptimization: 0.37,
+    realmReduction: plannedReduction(0.37),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'palo-alto-threat-prevention',
-    label: 'Palo Alto Networks - Threat Prevention',
+  'palo-alto-threat-prevention': {
     description: 'Threat prevention signatures, verdicts, and file analysis logs.',
-    realmOptimization: 0.57,
+    realmReduction: plannedReduction(0.57),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'fortinet-fortiips',
-    label: 'Fortinet - FortiIPS',
+  'fortinet-fortiips': {
     description: 'Intrusion prevention events and exploit detection telemetry.',
-    realmOptimization: 0.62,
+    realmReduction: plannedReduction(0.62),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'cisco-firepower-ips',
-    label: 'Cisco Firepower IPS',
+  'cisco-firepower-ips': {
     description: 'Firepower intrusion prevention alerts and correlation events.',
-    realmOptimization: 0.46,
+    realmReduction: plannedReduction(0.46),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'ping-identity',
-    label: 'Ping Identity',
+  'ping-identity': {
     description: 'Authentication, access, and federation audit events.',
-    realmOptimization: 0.36,
+    realmReduction: plannedReduction(0.36),
     trafficCategory: 'identity',
   },
-  {
-    id: 'cyberark-privileged-access',
-    label: 'CyberArk - Privileged Access',
+  'cyberark-privileged-access': {
     description: 'Privileged session monitoring and vault audit logs.',
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
     trafficCategory: 'identity',
   },
-  {
-    id: 'forgerock-iam',
-    label: 'ForgeRock (Ping Identity)',
+  'forgerock-iam': {
     description: 'Identity and access management policy and session telemetry.',
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
     trafficCategory: 'identity',
   },
-  {
-    id: 'trend-micro-tippingpoint',
-    label: 'Trend Micro - TippingPoint',
+  'trend-micro-tippingpoint': {
     description: 'Network intrusion prevention and exploit shield events.',
-    realmOptimization: 0.5,
+    realmReduction: plannedReduction(0.5),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'f5-big-ip-asm',
-    label: 'F5 - Big-IP ASM',
+  'f5-big-ip-asm': {
     description: 'Application security manager WAF request and policy logs.',
-    realmOptimization: 0.31,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.31),
+    trafficCategory: 'waf-cdn',
   },
-  {
-    id: 'palo-alto-cortex-xdr',
-    label: 'Palo Alto - Cortex XDR',
+  'palo-alto-cortex-xdr': {
     description: 'Endpoint detection, analytics, and response telemetry.',
-    realmOptimization: 0.45,
+    realmReduction: plannedReduction(0.45),
     trafficCategory: 'endpoint-edr',
   },
-  {
-    id: 'microsoft-office-365',
-    label: 'Microsoft Office 365',
+  'microsoft-office-365': {
     description: 'Exchange, SharePoint, and Teams audit and security events.',
-    realmOptimization: 0.28,
+    realmReduction: plannedReduction(0.28),
     trafficCategory: 'saas-business',
   },
-  {
-    id: 'carbon-black',
-    label: 'Symantec - Carbon Black',
+  'carbon-black': {
     description: 'Endpoint threat detections and behavioral analytics.',
-    realmOptimization: 0.36,
+    realmReduction: plannedReduction(0.36),
     trafficCategory: 'endpoint-edr',
   },
-  {
-    id: 'juniper-srx',
-    label: 'Juniper Networks - SRX',
+  'juniper-srx': {
     description: 'Firewall, IPS, and AppSecure telemetry from SRX platforms.',
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'symantec-proxysg',
-    label: 'Symnatec - ProxySG',
+  'symantec-proxysg': {
     description: 'Secure web gateway logs and URL filtering activity.',
-    realmOptimization: 0.29,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.29),
+    trafficCategory: 'proxy-swg',
   },
-  {
-    id: 'forcepoint-web-security',
-    label: 'Forepoint - Web Security',
+  'forcepoint-web-security': {
     description: 'Secure web gateway transactions and DLP enforcement logs.',
-    realmOptimization: 0.33,
-    trafficCategory: 'network-security',
+    realmReduction: plannedReduction(0.33),
+    trafficCategory: 'proxy-swg',
   },
-  {
-    id: 'darktrace',
-    label: 'Darktrace',
+  darktrace: {
     description: 'Self-learning network detection and anomaly insights.',
-    realmOptimization: 0.3,
+    realmReduction: plannedReduction(0.3),
     trafficCategory: 'network-security',
   },
-  {
-    id: 'mimecast-email',
-    label: 'Mimecast Email',
+  'mimecast-email': {
     description: 'Email security, anti-spam, and targeted threat protection logs.',
-    realmOptimization: 0.27,
-    trafficCategory: 'saas-business',
+    realmReduction: plannedReduction(0.27),
+    trafficCategory: 'email-security',
   },
-];
+};
+
+const priorityRows: readonly (SourcePriorityRow & { id: SourcePriorityId })[] = sourcePriorityRows;
+
+export const sources: SourceEndpoint[] = priorityRows.map(
+  ({ id, label, ingestionMethod, ...priority }): SourceEndpoint => ({
+    id,
+    label,
+    ...sourceDetails[id],
+    ingestionMethod,
+    priority: { ...priority, outputFormats: [...priority.outputFormats] },
+  }),
+);
 
-const allDestinations: DestinationEndpoint[] = [
+export const allDestinations: DestinationEndpoint[] = [
   {
     id: 'splunk-es',
     label: 'Splunk Enterprise Security',
     description: 'SIEM ingest licensing for Splunk Enterprise Security.',
-    costPerMillionEvents: 32,
-    realmOptimization: 0.36,
+    realmReduction: plannedReduction(0.36),
+    pricing: {
+      kind: 'license-bands',
+      bands: [
+        { upToTerabytesPerDay: 1, annualCostPerTb: 600_000 },
+        { upToTerabytesPerDay: 5, annualCostPerTb: 550_000 },
+        { upToTerabytesPerDay: 10, annualCostPerTb: 500_000 },
+        { annualCostPerTb: 450_000 },
+      ],
+      reference: 'Splunk ES term license bands from 2024 partner quotes; confirm against the prospect contract.',
+    },
+    retention: {
+      includedHotDays: 90,
+      extendedHotPerGbMonth: 0.1,
+      reference: 'Splunk Cloud DDAS add-on block pricing, 2024 partner quotes.',
+    },
   },
   {
     id: 'microsoft-sentinel',
     label: 'Microsoft Sentinel',
     description: 'Azure-native SIEM with pay-as-you-go log analytics ingestion.',
-    costPerMillionEvents: 27,
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
+    pricing: {
+      kind: 'ingest-commitment',
+      payAsYouGoPerGb: 5.22,
+      commitmentTiers: [
+        { gigabytesPerDay: 100, dailyPrice: 296 },
+        { gigabytesPerDay: 200, dailyPrice: 548 },
+        { gigabytesPerDay: 300, dailyPrice: 800 },
+        { gigabytesPerDay: 500, dailyPrice: 1_296 },
+        { gigabytesPerDay: 1_000, dailyPrice: 2_470 },
+        { gigabytesPerDay: 2_000, dailyPrice: 4_800 },
+        { gigabytesPerDay: 5_000, dailyPrice: 11_750 },
+      ],
+      reference: 'Azure simplified Sentinel + Log Analytics list pricing (East US), 2024.',
+    },
+    retention: {
+      includedHotDays: 90,
+      extendedHotPerGbMonth: 0.1,
+      reference: 'Azure Monitor analytics-log retention beyond the free 90 days (East US), 2024.',
+    },
   },
   {
     id: 'crowdstrike-next-gen-siem',
     label: 'CrowdStrike Falcon Next-Gen SIEM',
     description:
       'CrowdStrike-managed SIEM/XDR service built on Falcon LogScale with automated response.',
-    costPerMillionEvents: 28,
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
+    freeTier: {
+      includedGigabytesPerDay: 10,
+      notes:
+        'Falcon Insight XDR customers get 10 GB/day of third-party ingest at no charge (2024 packaging); ' +
+        'confirm the prospect holds Insight.',
+    },
   },
   {
     id: 'ibm-qradar',
     label: 'IBM Security QRadar',
     description: 'Event processor capacity sized for mid-market deployments.',
-    costPerMillionEvents: 29,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'sumo-logic-siem',
     label: 'Sumo Logic Cloud SIEM',
     description: 'Cloud-native SIEM with continuous analytics ingest tier.',
-    costPerMillionEvents: 24,
-    realmOptimization: 0.31,
+    realmReduction: plannedReduction(0.31),
   },
   {
     id: 'aws-s3-logs',
     label: 'AWS S3',
     description: 'Object storage bucket as a log archive or raw landing zone.',
-    costPerMillionEvents: 4,
-    realmOptimization: 0.25,
+    realmReduction: plannedReduction(0.25),
+    pricing: {
+      kind: 'storage-only',
+      storagePerGbMonth: 0.023,
+      retentionDays: 90,
+      reference: 'Amazon S3 Standard list price (us-east-1), 2024.',
+    },
   },
   {
     id: 'gcs-storage',
     label: 'GCS Storage',
     description: 'Google Cloud Storage bucket for durable log landing.',
-    costPerMillionEvents: 4,
-    realmOptimization: 0.25,
+    realmReduction: plannedReduction(0.25),
+    pricing: {
+      kind: 'storage-only',
+      storagePerGbMonth: 0.02,
+      retentionDays: 90,
+      reference: 'Google Cloud Storage Standard list price (us-central1), 2024.',
+    },
   },
   {
     id: 'google-chronicle',
     label: 'Google Chronicle Security Operations',
     description: 'Planet-scale SIEM with built-in threat intelligence enrichment.',
-    costPerMillionEvents: 26,
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
+    pricing: {
+      kind: 'per-employee',
+      annualCostPerEmployee: 50,
+      includedGigabytesPerEmployeePerDay: 1,
+      overageAnnualCostPerTb: 250_000,
+      reference: 'Google SecOps per-employee packaging with fair-use ingest; planning assumption pending partner quote.',
+    },
+    retention: {
+      includedHotDays: 365,
+      extendedHotPerGbMonth: 0.05,
+      reference: 'Google SecOps includes 12 months of hot retention; extension priced per partner estimate.',
+    },
   },
   {
     id: 'exabeam-fusion-siem',
     label: 'Exabeam Fusion SIEM',
     description: 'Behavioral analytics-driven SIEM with UEBA correlation.',
-    costPerMillionEvents: 25,
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
   },
   {
     id: 'rapid7-insightidr',
     label: 'Rapid7 InsightIDR',
     description: 'Cloud SIEM with integrated threat detection and response.',
-    costPerMillionEvents: 24,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'elastic-security-siem',
     label: 'Elastic Security SIEM',
     description: 'Elastic Stack-based SIEM with detection rules and cases.',
-    costPerMillionEvents: 22,
-    realmOptimization: 0.32,
+    realmReduction: plannedReduction(0.32),
   },
   {
     id: 'logrhythm-nextgen',
     label: 'LogRhythm NextGen SIEM',
     description: 'Analytics-centric SIEM and SOAR platform.',
-    costPerMillionEvents: 25,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'arcsight-esm',
     label: 'ArcSight Enterprise Security Manager',
     description: 'Micro Focus ArcSight correlation and compliance platform.',
-    costPerMillionEvents: 30,
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
   },
   {
     id: 'fortinet-fortisiem',
     label: 'Fortinet FortiSIEM',
     description: 'Hybrid SIEM with integrated performance and security monitoring.',
-    costPerMillionEvents: 23,
-    realmOptimization: 0.31,
+    realmReduction: plannedReduction(0.31),
   },
   {
     id: 'rsa-netwitness',
     label: 'RSA NetWitness Platform',
     description: 'Network and endpoint-focused SIEM with threat hunting.',
-    costPerMillionEvents: 28,
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
   },
   {
     id: 'att-cybersecurity-usm',
     label: 'AT&T Cybersecurity USM Anywhere',
     description: 'Cloud SIEM with integrated asset discovery and orchestration.',
-    costPerMillionEvents: 22,
-    realmOptimization: 0.3,
+    realmReduction: plannedReduction(0.3),
   },
   {
     id: 'securonix-next-gen',
     label: 'Securonix Next-Gen SIEM',
     description: 'Cloud-native SIEM with UEBA and threat content subscriptions.',
-    costPerMillionEvents: 27,
-    realmOptimization: 0.36,
+    realmReduction: plannedReduction(0.36),
   },
   {
     id: 'devo-security-operations',
     label: 'Devo Security Operations',
     description: 'High-volume cloud SIEM with real-time analytics.',
-    costPerMillionEvents: 25,
-    realmOptimization: 0.35,
+    realmReduction: plannedReduction(0.35),
   },
   {
     id: 'graylog-security-enterprise',
     label: 'Graylog Security Enterprise',
     description: 'Log analytics and SIEM tailored for modern security teams.',
-    costPerMillionEvents: 21,
-    realmOptimization: 0.3,
+    realmReduction: plannedReduction(0.3),
   },
   {
     id: 'hunters-soc-platform',
     label: 'Hunters SOC Platform',
     description: 'Cloud-native SIEM with autonomous detection engineering.',
-    costPerMillionEvents: 23,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'cortex-xsiam',
     label: 'Palo Alto - Cortex XSIAM',
     description: 'Palo Alto’s SIEM/XDR data lake with automated response.',
-    costPerMillionEvents: 26,
-    realmOptimization: 0.34,
+    realmReduction: plannedReduction(0.34),
   },
   {
     id: 'azure-blob-storage',
     label: 'Azure Blob',
     description: 'Azure Blob Storage used as a log landing and retention tier.',
-    costPerMillionEvents: 4,
-    realmOptimization: 0.25,
+    realmReduction: plannedReduction(0.25),
+    pricing: {
+      kind: 'storage-only',
+      storagePerGbMonth: 0.018,
+      retentionDays: 90,
+      reference: 'Azure Blob Storage Hot LRS list price (East US), 2024.',
+    },
   },
   {
     id: 'hydrolix',
     label: 'Hydrolix',
     description: 'Columnar log lake optimized for high-volume search and storage.',
-    costPerMillionEvents: 8,
-    realmOptimization: 0.32,
+    realmReduction: plannedReduction(0.32),
+    pricing: {
+      kind: 'flat-per-tb',
+      annualCostPerTb: 25_000,
+      reference: 'Hydrolix managed ingest with one year of compressed retention, 2024 partner estimate.',
+    },
   },
   {
     id: 'datadog-observability',
     label: 'Datadog',
     description: 'Datadog log management ingest for security and observability.',
-    costPerMillionEvents: 18,
-    realmOptimization: 0.32,
+    realmReduction: plannedReduction(0.32),
   },
   {
     id: 'databricks-lakehouse',
     label: 'Databricks',
     description: 'Lakehouse destination for analytics-ready security telemetry.',
-    costPerMillionEvents: 7,
-    realmOptimization: 0.31,
+    realmReduction: plannedReduction(0.31),
   },
   {
     id: 'snowflake-security-data-lake',
     label: 'Snowflake',
     description: 'Snowflake security data lake for centralized log analytics.',
-    costPerMillionEvents: 6,
-    realmOptimization: 0.31,
+    realmReduction: {
+      factor: 0.38,
+      basis: 'empirical',
+      reference: 'Snowpipe auto-ingest benchmark, Dec 2023 (carried over from the retired per-million cost model).',
+    },
   },
   {
     id: 'panther-siem',
     label: 'Panther SIEM',
     description: 'Serverless cloud SIEM built on detections-as-code.',
-    costPerMillionEvents: 20,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'sentinelone-sigone',
     label: 'SentinelOne Singularity',
     description: 'SentinelOne Singularity data lake with XDR correlation.',
-    costPerMillionEvents: 23,
-    realmOptimization: 0.33,
+    realmReduction: plannedReduction(0.33),
   },
   {
     id: 'blumira-siem',
     label: 'Blumira Automated SIEM',
     description: 'Managed SIEM delivering automated detection and response.',
-    costPerMillionEvents: 20,
-    realmOptimization: 0.29,
+    realmReduction: plannedReduction(0.29),
   },
   {
     id: 'logpoint-siem',
     label: 'LogPoint SIEM',
     description: 'European-built SIEM with UEBA and SOAR modules.',
-    costPerMillionEvents: 22,
-    realmOptimization: 0.31,
+    realmReduction: plannedReduction(0.31),
   },
   {
     id: 'netsurion-eventtracker',
     label: 'Netsurion EventTracker',
     description: 'Co-managed SIEM for distributed enterprises and MSPs.',
-    costPerMillionEvents: 21,
-    realmOptimization: 0.3,
+    realmReduction: plannedReduction(0.3),
   },
 ];
 
 export const destinations: DestinationEndpoint[] = allDestinations.filter((destination) =>
   DESTINATION_ALLOWLIST.has(destination.id),
 );
+
+export const archiveDestinations: DestinationEndpoint[] = destinations.filter((destination) =>
+  ARCHIVE_DESTINATION_IDS.has(destination.id),
+);
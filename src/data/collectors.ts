@@ -0,0 +1,93 @@
+import type { IngestionMethod, TrafficCategory } from './catalog.ts';
+
+/**
+ * Infrastructure needed to get logs off each ingestion method and into the pipeline. Collectors
+ * are sized on peak events per second, buffer storage on daily volume, and egress on the GB that
+ * leave the cloud provider. Every figure is a planning assumption with a reference so it can be
+ * swapped for a customer's real bill.
+ */
+export interface CollectorProfile {
+  method: IngestionMethod;
+  label: string;
+  /** Sustained events per second one node handles at peak. */
+  eventsPerSecondPerNode: number;
+  /** Compute, OS, and monitoring for one node. */
+  annualCostPerNode: number;
+  /** Floor on the node count (an HA pair for collectors that receive pushed syslog). */
+  minimumNodes: number;
+  /** Hours of raw volume each collector buffers locally to ride out destination outages. */
+  bufferHours: number;
+  bufferStoragePerGbMonth: number;
+  /** Cloud egress charged on every GB that leaves the provider; 0 for on-prem or SaaS sources. */
+  egressPerGb: number;
+  /** True when Realm runs the puller as part of its all-in price. */
+  realmHosted: boolean;
+  reference: string;
+}
+
+export const collectorProfiles: Record<IngestionMethod, CollectorProfile> = {
+  'syslog-collector': {
+    method: 'syslog-collector',
+    label: 'Syslog collectors',
+    eventsPerSecondPerNode: 15_000,
+    annualCostPerNode: 3_000,
+    minimumNodes: 2,
+    bufferHours: 24,
+    bufferStoragePerGbMonth: 0.08,
+    egressPerGb: 0,
+    realmHosted: false,
+    reference: '4 vCPU / 8 GB collector (c6i.xlarge class) with gp3 buffer volume; planning assumption.',
+  },
+  'object-storage': {
+    method: 'object-storage',
+    label: 'S3 pullers',
+    eventsPerSecondPerNode: 25_000,
+    annualCostPerNode: 3_000,
+    minimumNodes: 1,
+    bufferHours: 0,
+    bufferStoragePerGbMonth: 0,
+    egressPerGb: 0.09,
+    realmHosted: true,
+    reference: 'SQS-notified bucket reader; AWS internet egress first tier ($0.09/GB), 2024 list price.',
+  },
+  'api-pull': {
+    method: 'api-pull',
+    label: 'API pollers',
+    eventsPerSecondPerNode: 5_000,
+    annualCostPerNode: 1_500,
+    minimumNodes: 1,
+    bufferHours: 0,
+    bufferStoragePerGbMonth: 0,
+    egressPerGb: 0,
+    realmHosted: true,
+    reference: 'Vendor API rate limits cap throughput per poller; SaaS vendors do not bill egress.',
+  },
+  'event-stream': {
+    method: 'event-stream',
+    label: 'Event stream consumers',
+    eventsPerSecondPerNode: 20_000,
+    annualCostPerNode: 3_000,
+    minimumNodes: 1,
+    bufferHours: 0,
+    bufferStoragePerGbMonth: 0,
+    egressPerGb: 0.087,
+    realmHosted: true,
+    reference: 'Event Hub / Pub/Sub consumer group; Azure internet egress first tier ($0.087/GB), 2024 list price.',
+  },
+};
+
+// Used when the priority sheet leaves a source's ingestion method blank.
+export const DEFAULT_INGESTION_METHODS: Record<TrafficCategory, IngestionMethod> = {
+  identity: 'api-pull',
+  'cloud-infrastructure': 'object-storage',
+  'network-security': 'syslog-collector',
+  'endpoint-edr': 'api-pull',
+  'saas-business': 'api-pull',
+  'email-security': 'api-pull',
+  'dns-ddi': 'syslog-collector',
+  'waf-cdn': 'object-storage',
+  'proxy-swg': 'syslog-collector',
+  'windows-events': 'syslog-collector',
+};
+
+export const FALLBACK_INGESTION_METHOD: IngestionMethod = 'syslog-collector';
@@ -0,0 +1,138 @@
+import type { ReductionEstimate } from './catalog.ts';
+
+/**
+ * Pipeline alternatives Realm is benchmarked against. Each entry carries its own licensing,
+ * infrastructure, and operations assumptions with a reference, so a sales engineer can trace
+ * every number in the comparison table. Add a competitor by appending a profile; the engine
+ * prices every entry in `competitors`.
+ */
+export type CompetitorLicensing =
+  | {
+      /** Subscription priced on raw daily ingest through the pipeline. */
+      kind: 'per-tb-ingest';
+      annualCostPerTb: number;
+      reference: string;
+    }
+  | {
+      /** Open-source tooling or a capability bundled with the SIEM license. */
+      kind: 'none';
+      reference: string;
+    };
+
+export interface CompetitorInfrastructure {
+  /** Self-hosted worker compute and storage per 1 TB/day of raw volume processed. */
+  annualCostPerTb: number;
+  reference: string;
+}
+
+export interface CompetitorOperations {
+  /** Engineers needed to build and keep the pipeline running. */
+  engineerFte: number;
+  reference: string;
+}
+
+export interface CompetitorProfile {
+  id: string;
+  label: string;
+  description: string;
+  licensing: CompetitorLicensing;
+  infrastructure: CompetitorInfrastructure;
+  operations: CompetitorOperations;
+  /** Share of raw volume the tool typically removes before the destination. */
+  reduction: ReductionEstimate;
+}
+
+export const ANNUAL_COST_PER_ENGINEER = 180_000; // Fully loaded detection/platform engineer, US 2024.
+
+export const competitors: CompetitorProfile[] = [
+  {
+    id: 'cribl-stream',
+    label: 'Cribl Stream',
+    description: 'Commercial observability pipeline with self-hosted or Cribl.Cloud workers.',
+    licensing: {
+      kind: 'per-tb-ingest',
+      annualCostPerTb: 82_600,
+      reference: 'January 2024 field study of proof-of-concept deployments (Realm rate + 18%).',
+    },
+    infrastructure: {
+      annualCostPerTb: 12_000,
+      reference: 'Customer-managed worker groups sized at ~200 GB/day per vCPU pair; planning assumption.',
+    },
+    operations: {
+      engineerFte: 0.5,
+      reference: 'Pipeline and route maintenance reported in proof-of-concept deployments; planning assumption.',
+    },
+    reduction: {
+      factor: 0.18,
+      basis: 'empirical',
+      reference: 'January 2024 field study of proof-of-concept deployments (18% blended reduction).',
+    },
+  },
+  {
+    id: 'edge-delta',
+    label: 'Edge Delta',
+    description: 'Agent-based telemetry pipeline that processes data at the edge before shipping.',
+    licensing: {
+      kind: 'per-tb-ingest',
+      annualCostPerTb: 60_000,
+      reference: 'Planning assumption pending a partner quote.',
+    },
+    infrastructure: {
+      annualCostPerTb: 4_000,
+      reference: 'Agents run on existing hosts; covers gateway nodes only. Planning assumption.',
+    },
+    operations: {
+      engineerFte: 0.5,
+      reference: 'Agent fleet rollout and pipeline tuning; planning assumption.',
+    },
+    reduction: {
+      factor: 0.25,
+      basis: 'assumption',
+      reference: 'Planning assumption for edge filtering and sampling of security logs.',
+    },
+  },
+  {
+    id: 'native-siem-filtering',
+    label: 'Native SIEM filtering',
+    description: 'Ingest-time filtering built into the SIEM (e.g. Splunk Ingest Actions, Sentinel DCR transformations).',
+    licensing: {
+      kind: 'none',
+      reference: 'Included with the SIEM license.',
+    },
+    infrastructure: {
+      annualCostPerTb: 0,
+      reference: 'Runs on SIEM-managed ingest infrastructure.',
+    },
+    operations: {
+      engineerFte: 0.25,
+      reference: 'Per-source filter rules maintained by the SIEM team; planning assumption.',
+    },
+    reduction: {
+      factor: 0.1,
+      basis: 'assumption',
+      reference: 'Drop rules for known noise only; no aggregation or field pruning. Planning assumption.',
+    },
+  },
+  {
+    id: 'diy-logstash-vector',
+    label: 'DIY Logstash / Vector',
+    description: 'Self-built open-source pipeline on Logstash or Vector.',
+    licensing: {
+      kind: 'none',
+      reference: 'Open source (Apache 2.0 / MPL 2.0).',
+    },
+    infrastructure: {
+      annualCostPerTb: 18_000,
+      reference: 'Self-managed compute, queueing, and HA pairs per 1 TB/day; planning assumption.',
+    },
+    operations: {
+      engineerFte: 1,
+      reference: 'One engineer to build, scale, and maintain parsers and routes; planning assumption.',
+    },
+    reduction: {
+      factor: 0.25,
+      basis: 'assumption',
+      reference: 'Hand-written drop and dedupe rules; planning assumption.',
+    },
+  },
+];
@@ -0,0 +1,105 @@
+import { allDestinations, DESTINATION_ALLOWLIST, type DestinationEndpoint } from './catalog.ts';
+
+/**
+ * Where the calculator is running. Each deployment decides which catalog destinations the picker
+ * offers; a page can pick its deployment with `data-realm-deployment` on `<body>` or
+ * `?deployment=` in the URL, and adjust the list further with a destinations directive.
+ */
+export type DeploymentId = 'marketing-site' | 'hubspot-page' | 'partner-embed';
+
+export interface DestinationVisibility {
+  /** Start from the curated `DESTINATION_ALLOWLIST` or from every catalog destination. */
+  base: 'allowlist' | 'all';
+  /** Destination ids added on top of the base list. */
+  show: string[];
+  /** Destination ids removed from the base list (after `show`). */
+  hide: string[];
+}
+
+export interface DeploymentProfile {
+  id: DeploymentId;
+  label: string;
+  destinations: DestinationVisibility;
+}
+
+export const DEFAULT_DEPLOYMENT_ID: DeploymentId = 'marketing-site';
+
+export const deploymentProfiles: Record<DeploymentId, DeploymentProfile> = {
+  'marketing-site': {
+    id: 'marketing-site',
+    label: 'realm.security marketing site',
+    destinations: { base: 'allowlist', show: [], hide: [] },
+  },
+  'hubspot-page': {
+    id: 'hubspot-page',
+    label: 'HubSpot landing page',
+    destinations: { base: 'allowlist', show: [], hide: [] },
+  },
+  'partner-embed': {
+    id: 'partner-embed',
+    label: 'Partner embed',
+    // Partners field migrations off legacy SIEMs, so they see the full catalog.
+    destinations: { base: 'all', show: [], hide: [] },
+  },
+};
+
+// Own keys only, so `?deployment=constructor` cannot pass as a profile.
+export const isDeploymentId = (value: string): value is DeploymentId =>
+  Object.prototype.hasOwnProperty.call(deploymentProfiles, value);
+
+/**
+ * Applies a comma-separated directive to a visibility: `all` or `allowlist` resets the base,
+ * `-id` hides a destination, and `+id` (or a bare id) shows one. For example
+ * `+ibm-qradar,+logrhythm-nextgen` adds two legacy SIEMs to the curated list.
+ */
+export const applyDestinationDirective = (visibility: DestinationVisibility, directive: string): DestinationVisibility => {
+  const next: DestinationVisibility = { base: visibility.base, show: [...visibility.show], hide: [...visibility.hide] };
+  for (const rawToken of directive.split(',')) {
+    const token = rawToken.trim();
+    if (token === '') {
+      continue;
+    }
+    if (token === 'all' || token === 'allowlist') {
+      next.base = token;
+      continue;
+    }
+    const hide = token.startsWith('-');
+    const id = token.replace(/^[+-]/, '');
+    const [add, remove] = hide ? [next.hide, next.show] : [next.show, next.hide];
+    if (!add.includes(id)) {
+      add.push(id);
+    }
+    const removeIndex = remove.indexOf(id);
+    if (removeIndex >= 0) {
+      remove.splice(removeIndex, 1);
+    }
+  }
+  return next;
+};
+
+export interface ResolvedDestinations {
+  destinations: DestinationEndpoint[];
+  /** Ids in `show` or `hide` that are not in the catalog. */
+  unknownIds: string[];
+}
+
+/** Catalog destinations a visibility exposes, in catalog order. Never returns an empty list. */
+export const resolveVisibleDestinations = (
+  visibility: DestinationVisibility,
+  catalog: readonly DestinationEndpoint[] = allDestinations,
+): ResolvedDestinations => {
+  const known = new Set(catalog.map((destination) => destination.id));
+  const visible = new Set(
+    visibility.base === 'all' ? known : Array.from(DESTINATION_ALLOWLIST).filter((id) => known.has(id)),
+  );
+  visibility.show.forEach((id) => visible.add(id));
+  visibility.hide.forEach((id) => visible.delete(id));
+
+  const unknownIds = [...visibility.show, ...visibility.hide].filter((id) => !known.has(id));
+  const destinations = catalog.filter((destination) => visible.has(destination.id));
+  return {
+    destinations:
+      destinations.length > 0 ? destinations : catalog.filter((destination) => DESTINATION_ALLOWLIST.has(destination.id)),
+    unknownIds,
+  };
+};
@@ -0,0 +1,56 @@
+export type CurrencyCode = 'USD' | 'EUR' | 'GBP' | 'AUD' | 'JPY';
+
+export interface CurrencyMeta {
+  code: CurrencyCode;
+  label: string;
+  /** Whole-unit currencies (JPY) never show minor units, even for small per-GB rates. */
+  fractionDigits: number;
+}
+
+/**
+ * A dated snapshot of exchange rates. All prices in the catalog and engine are USD list prices;
+ * output in another currency multiplies by `unitsPerUsd`. Bump `version` and `rateDate`
+ * together whenever the rates are refreshed so exports can cite the table they used.
+ */
+export interface FxRateTable {
+  version: string;
+  rateDate: string;
+  reference: string;
+  unitsPerUsd: Record<CurrencyCode, number>;
+}
+
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const currencyOptions: CurrencyMeta[] = [
+  { code: 'USD', label: 'US dollar (USD)', fractionDigits: 2 },
+  { code: 'EUR', label: 'Euro (EUR)', fractionDigits: 2 },
+  { code: 'GBP', label: 'British pound (GBP)', fractionDigits: 2 },
+  { code: 'AUD', label: 'Australian dollar (AUD)', fractionDigits: 2 },
+  { code: 'JPY', label: 'Japanese yen (JPY)', fractionDigits: 0 },
+];
+
+export const FX_RATE_TABLE: FxRateTable = {
+  version: '2026.10',
+  rateDate: '2026-10-01',
+  reference: 'ECB euro foreign exchange reference rates, cross-calculated to USD',
+  unitsPerUsd: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    AUD: 1.52,
+    JPY: 150,
+  },
+};
+
+const CURRENCY_INDEX = new Map<CurrencyCode, CurrencyMeta>(currencyOptions.map((meta) => [meta.code, meta]));
+
+export const isCurrencyCode = (value: string): value is CurrencyCode =>
+  CURRENCY_INDEX.has(value as CurrencyCode);
+
+export const getCurrencyMeta = (code: CurrencyCode): CurrencyMeta => {
+  const meta = CURRENCY_INDEX.get(code);
+  if (!meta) {
+    throw new Error(`Unknown currency: ${code}`);
+  }
+  return meta;
+};
@@ -0,0 +1,409 @@
+// Generated by scripts/import-source-priority.mjs from
+// docs/V2/Data Source - Priority - Sources Priority.csv. Do not edit by hand: update the export
+// and run `npm run catalog:import`.
+import type { SourcePriorityRow } from './catalog.ts';
+
+export const sourcePriorityRows = [
+  {
+    id: 'aws-cloudtrail',
+    label: 'AWS - CloudTrail',
+    productType: 'CSP Logs',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3',
+    outputFormats: ['json'],
+    status: { dataScience: 'blocked', engineering: 'done' },
+  },
+  {
+    id: 'aws-alb-logs',
+    label: 'AWS - ALB logs',
+    productType: 'CSP Logs',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S4',
+    outputFormats: ['json'],
+    status: { dataScience: 'blocked', engineering: 'done' },
+  },
+  {
+    id: 'aws-vpc-flow-logs',
+    label: 'AWS - VPC Flow Logs',
+    productType: 'CSP Logs',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3',
+    outputFormats: [],
+    status: { dataScience: 'done', engineering: 'done' },
+  },
+  {
+    id: 'crowdstrike-falcon',
+    label: 'Crowdstrike Falcon',
+    productType: 'Endpoint',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3',
+    outputFormats: ['json'],
+    status: { dataScience: 'done', engineering: 'done' },
+  },
+  {
+    id: 'palo-alto-networks-ngfw',
+    label: 'Palo Alto Networks - PanOS',
+    productType: 'Firewall',
+    rank: 5,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector - syslog',
+    outputFormats: ['syslog', 'cef'],
+    status: { dataScience: 'done', engineering: 'done' },
+  },
+  {
+    id: 'fortinet-fortigate',
+    label: 'Fortinet - Fortigate',
+    productType: 'Firewall',
+    rank: 5,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector - syslog',
+    outputFormats: ['syslog', 'cef'],
+    status: { dataScience: 'done', engineering: 'done' },
+  },
+  {
+    id: 'cisco-umbrella',
+    label: 'Cisco Umbrella',
+    productType: 'Proxy & Web-Filtering',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Pull - AWS S3',
+    outputFormats: [],
+    status: { dataScience: 'blocked', engineering: 'done' },
+  },
+  {
+    id: 'infoblox-bloxone-ddi',
+    label: 'InfoBlox',
+    productType: 'Proxy & Web-Filtering',
+    rank: 5,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector - syslog',
+    outputFormats: [],
+    status: { dataScience: 'blocked', engineering: 'done' },
+  },
+  {
+    id: 'zscaler-internet-access',
+    label: 'Zscaler - ZIA',
+    productType: 'Proxy & Web-Filtering',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3, Collector -syslog',
+    outputFormats: ['cef', 'leef', 'json'],
+    status: { dataScience: 'done', engineering: 'done' },
+  },
+  {
+    id: 'cloudflare-waf',
+    label: 'CloudFlare - WAF',
+    productType: 'WAFs',
+    rank: 5,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push - AWS S3',
+    outputFormats: ['json'],
+    status: { dataScience: 'blocked', engineering: 'done' },
+  },
+  {
+    id: 'okta',
+    label: 'Okta',
+    productType: 'IAM',
+    rank: 2,
+    ingestionMethod: 'api-pull',
+    ingestionNotes: 'Cloud Pull - API via OAuth',
+    outputFormats: [],
+    status: { engineering: 'done' },
+  },
+  {
+    id: 'cisco-secure-firewall',
+    label: 'Cisco Secure Firewall (f.k.a. Firepower)',
+    productType: 'Firewall',
+    rank: 4,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector',
+    outputFormats: ['syslog'],
+    status: { engineering: 'done' },
+  },
+  {
+    id: 'sonicwall-capture-security',
+    label: 'SonicWall - SonicOS/X',
+    productType: 'Firewall',
+    rank: 2,
+    outputFormats: [],
+    status: { engineering: 'done' },
+  },
+  {
+    id: 'check-point-quantum',
+    label: 'Check Point Quantum',
+    productType: 'Firewall',
+    rank: 4,
+    outputFormats: [],
+    status: { engineering: 'done' },
+  },
+  {
+    id: 'windows-event-logs',
+    label: 'Windows Event Logs',
+    productType: 'Event Logs',
+    rank: 4,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector',
+    outputFormats: ['xml', 'json'],
+    status: { engineering: 'done' },
+  },
+  {
+    id: 'azure-monitor',
+    label: 'Azure Monitor',
+    productType: 'CSP Logs',
+    rank: 5,
+    ingestionMethod: 'event-stream',
+    ingestionNotes: 'Azure Event Hub',
+    outputFormats: [],
+    status: { dataScience: 'blocked', engineering: 'in-progress' },
+  },
+  {
+    id: 'microsoft-defender-endpoint',
+    label: 'Microsoft - Defender',
+    productType: 'Endpoint',
+    rank: 5,
+    ingestionMethod: 'event-stream',
+    ingestionNotes: 'Azure Event Hub',
+    outputFormats: [],
+    status: { engineering: 'in-progress' },
+  },
+  {
+    id: 'microsoft-entra-id',
+    label: 'Microsoft - Entra ID',
+    productType: 'IAM',
+    rank: 4,
+    ingestionMethod: 'event-stream',
+    ingestionNotes: 'Azure Event Hub',
+    outputFormats: [],
+    status: { engineering: 'in-progress' },
+  },
+  {
+    id: 'google-cloud-audit-logs',
+    label: 'Google Cloud - Audit Logs',
+    productType: 'CSP Logs',
+    rank: 4,
+    ingestionMethod: 'event-stream',
+    ingestionNotes: 'Google Pub/Sub Data Transport',
+    outputFormats: ['json'],
+    status: {},
+  },
+  {
+    id: 'akamai-security-events',
+    label: 'Akamai',
+    productType: 'WAFs and DNS',
+    rank: 4,
+    ingestionMethod: 'api-pull',
+    ingestionNotes: 'Pull  - Rest API',
+    outputFormats: ['json'],
+    status: {},
+  },
+  {
+    id: 'wiz',
+    label: 'Wiz',
+    productType: 'zCloud Security (Partner)',
+    rank: 4,
+    ingestionMethod: 'api-pull',
+    ingestionNotes: 'WIN API - GraphQL and Push Webhook',
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'radware-waf',
+    label: 'Radware WAF',
+    productType: 'WAF DDOS',
+    rank: 4,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'abnormal-email',
+    label: 'Abnormal Email',
+    productType: 'Email',
+    rank: 3,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'fortinet-ztna',
+    label: 'Fortinet - ZTNA',
+    productType: 'Web-Filtering',
+    rank: 3,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'aws-waf',
+    label: 'AWS - WAF',
+    productType: 'WAFs',
+    rank: 4,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3',
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'sentinelone',
+    label: 'SentinelOne',
+    productType: 'Endpoint',
+    rank: 4,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'cloud syslog',
+    outputFormats: ['cef'],
+    status: {},
+  },
+  {
+    id: 'cisco-asa',
+    label: 'Cisco ASA Firewall',
+    productType: 'Firewall',
+    rank: 3,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'zscaler-zpa',
+    label: 'Zscaler ZPA',
+    productType: 'Web-Filtering',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'palo-alto-threat-prevention',
+    label: 'Palo Alto Networks - Threat Prevention',
+    productType: 'IDS/IPS',
+    rank: 4,
+    outputFormats: [],
+    status: { dataScience: 'in-progress' },
+  },
+  {
+    id: 'fortinet-fortiips',
+    label: 'Fortinet - FortiIPS',
+    productType: 'IDS/IPS',
+    rank: 4,
+    outputFormats: [],
+    status: { dataScience: 'in-progress' },
+  },
+  {
+    id: 'cisco-firepower-ips',
+    label: 'Cisco Firepower IPS',
+    productType: 'IDS/IPS',
+    rank: 2,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Managed the same as Cisco Secure Firewall',
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'ping-identity',
+    label: 'Ping Identity',
+    productType: 'IAM',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'cyberark-privileged-access',
+    label: 'CyberArk - Privileged Access',
+    productType: 'IAM',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'forgerock-iam',
+    label: 'ForgeRock (Ping Identity)',
+    productType: 'IAM',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'trend-micro-tippingpoint',
+    label: 'Trend Micro - TippingPoint',
+    productType: 'IDS/IPS',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'f5-big-ip-asm',
+    label: 'F5 - Big-IP ASM',
+    productType: 'WAFs',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'palo-alto-cortex-xdr',
+    label: 'Palo Alto - Cortex XDR',
+    productType: 'Endpoint',
+    rank: 2,
+    outputFormats: ['json'],
+    status: {},
+  },
+  {
+    id: 'microsoft-office-365',
+    label: 'Microsoft Office 365',
+    productType: 'Workplace Tools',
+    rank: 2,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'carbon-black',
+    label: 'Symantec - Carbon Black',
+    productType: 'Endpoint',
+    rank: 1,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'juniper-srx',
+    label: 'Juniper Networks - SRX',
+    productType: 'Firewall',
+    rank: 1,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector - syslog over TLS',
+    outputFormats: ['syslog'],
+    status: {},
+  },
+  {
+    id: 'symantec-proxysg',
+    label: 'Symantec - ProxySG',
+    productType: 'Proxy & Web-Filtering',
+    rank: 1,
+    ingestionMethod: 'syslog-collector',
+    ingestionNotes: 'Collector - syslog via TCP',
+    outputFormats: ['csv', 'cef'],
+    status: {},
+  },
+  {
+    id: 'forcepoint-web-security',
+    label: 'Forcepoint - Web Security',
+    productType: 'Proxy & Web-Filtering',
+    rank: 1,
+    ingestionMethod: 'object-storage',
+    ingestionNotes: 'Cloud Push/Pull - AWS S3 or Forcepoint Storage - scheduled logfile downloads',
+    outputFormats: ['csv'],
+    status: {},
+  },
+  {
+    id: 'darktrace',
+    label: 'Darktrace',
+    rank: 1,
+    outputFormats: [],
+    status: {},
+  },
+  {
+    id: 'mimecast-email',
+    label: 'Mimecast Email',
+    productType: 'Email',
+    outputFormats: [],
+    status: {},
+  },
+] as const satisfies readonly SourcePriorityRow[];
+
+export type SourcePriorityId = (typeof sourcePriorityRows)[number]['id'];
@@ -1,3 +1,4 @@
+import type { InventorySourceEstimate } from './asset-inventory.ts';
 import type { SourceEndpoint, TrafficCategory } from './catalog.ts';
 
 const KB_PER_GIGABYTE = 1_024 * 1_024;
@@ -9,15 +10,32 @@ export interface OrganizationSizeMeta {
   label: string;
   optionLabel: string;
   shortLabel: string;
-  defaultDailyGigabytes: number;
+  /** Headcount the preset fills in; also used by per-employee SIEM pricing. */
+  representativeEmployeeCount: number;
+  /** Largest headcount in the band (inclusive); the last band is open-ended. */
+  maxEmployeeCount: number;
   description: string;
 }
 
+export interface CategoryTrafficEstimate {
+  category: TrafficCategory;
+  eventsPerEmployeePerDay: number;
+  averageEventSizeKb: number;
+  dailyEvents: number;
+  dailyGigabytes: number;
+}
+
 export interface TrafficRecommendation {
+  /** Band the employee count falls in; it selects the per-employee rates and event sizes. */
   organizationSize: OrganizationSizeMeta;
-  category: TrafficCategory;
+  employeeCount: number;
+  /** One entry per distinct traffic category among the per-employee sources, in source order. */
+  categories: CategoryTrafficEstimate[];
+  /** Sources sized from the asset inventory instead of headcount; empty when none are. */
+  inventory: InventorySourceEstimate[];
   dailyEvents: number;
   dailyGigabytes: number;
+  /** Volume-weighted across categories. */
   averageEventSizeKb: number;
 }
 
@@ -27,7 +45,8 @@ const ORGANIZATION_SIZE_METAS: OrganizationSizeMeta[] = [
     label: 'Less than 1,000 employees',
     optionLabel: 'Less than 1,000 employees',
     shortLabel: 'Less than 1,000 employees',
-    defaultDailyGigabytes: 750,
+    representativeEmployeeCount: 750,
+    maxEmployeeCount: 999,
     description: 'Ideal for smaller teams where log pipelines rarely exceed a terabyte per day.',
   },
   {
@@ -35,7 +54,8 @@ const ORGANIZATION_SIZE_METAS: OrganizationSizeMeta[] = [
     label: '1,000 - 5,000 employees',
     optionLabel: '1,000 - 5,000 employees',
     shortLabel: '1,000 - 5,000 employees',
-    defaultDailyGigabytes: 3_000,
+    representativeEmployeeCount: 3_000,
+    maxEmployeeCount: 5_000,
     description: 'Best fit for mid-size estates that typically ingest one to five terabytes daily.',
   },
   {
@@ -43,7 +63,8 @@ const ORGANIZATION_SIZE_METAS: OrganizationSizeMeta[] = [
     label: '5,000+ employees',
     optionLabel: '5,000+ employees',
     shortLabel: '5,000+ employees',
-    defaultDailyGigabytes: 6_500,
+    representativeEmployeeCount: 7_500,
+    maxEmployeeCount: Number.POSITIVE_INFINITY,
     description: 'Use this for large enterprises where daily log volume usually tops five terabytes.',
   },
 ];
@@ -54,7 +75,13 @@ const ORGANIZATION_SIZE_INDEX = new Map<OrganizationSizeKey, OrganizationSizeMet
 
 const fallbackCategory: TrafficCategory = 'identity';
 
-type BaselineMatrix = Record<OrganizationSizeKey, { averageEventSizeKb: number }>;
+interface CategoryBaseline {
+  averageEventSizeKb: number;
+  /** Daily events one employee generates in this category; see docs/traffic-baselines.md. */
+  eventsPerEmployeePerDay: number;
+}
+
+type BaselineMatrix = Record<OrganizationSizeKey, CategoryBaseline>;
 
 const categoryLabels: Record<TrafficCategory, string> = {
   identity: 'Identity and workforce access telemetry',
@@ -62,38 +89,70 @@ const categoryLabels: Record<TrafficCategory, string> = {
   'network-security': 'Network flow, firewall, and secure service edge telemetry',
   'endpoint-edr': 'Endpoint detection and response telemetry',
   'saas-business': 'SaaS application and collaboration activity',
+  'email-security': 'Email security gateway and mailbox protection telemetry',
+  'dns-ddi': 'DNS query and DDI (DHCP/IPAM) telemetry',
+  'waf-cdn': 'Web application firewall and CDN edge request logs',
+  'proxy-swg': 'Web proxy and secure web gateway telemetry',
+  'windows-events': 'Windows security and system event logs',
 };
 
 const categoryBaselines: Record<TrafficCategory, BaselineMatrix> = {
   identity: {
-    'under-1000-gb': { averageEventSizeKb: 1.2 },
-    '1000-5000-gb': { averageEventSizeKb: 1.3 },
-    'over-5000-gb': { averageEventSizeKb: 1.3 },
+    'under-1000-gb': { averageEventSizeKb: 1.2, eventsPerEmployeePerDay: 45 },
+    '1000-5000-gb': { averageEventSizeKb: 1.3, eventsPerEmployeePerDay: 52 },
+    'over-5000-gb': { averageEventSizeKb: 1.3, eventsPerEmployeePerDay: 60 },
   },
   'cloud-infrastructure': {
-    'under-1000-gb': { averageEventSizeKb: 1.6 },
-    '1000-5000-gb': { averageEventSizeKb: 1.7 },
-    'over-5000-gb': { averageEventSizeKb: 1.8 },
+    'under-1000-gb': { averageEventSizeKb: 1.6, eventsPerEmployeePerDay: 320 },
+    '1000-5000-gb': { averageEventSizeKb: 1.7, eventsPerEmployeePerDay: 450 },
+    'over-5000-gb': { averageEventSizeKb: 1.8, eventsPerEmployeePerDay: 620 },
   },
   'network-security': {
-    'under-1000-gb': { averageEventSizeKb: 0.12 },
-    '1000-5000-gb': { averageEventSizeKb: 0.13 },
-    'over-5000-gb': { averageEventSizeKb: 0.14 },
+    'under-1000-gb': { averageEventSizeKb: 0.12, eventsPerEmployeePerDay: 900 },
+    '1000-5000-gb': { averageEventSizeKb: 0.13, eventsPerEmployeePerDay: 1_100 },
+    'over-5000-gb': { averageEventSizeKb: 0.14, eventsPerEmployeePerDay: 1_400 },
   },
   'endpoint-edr': {
-    'under-1000-gb': { averageEventSizeKb: 3.5 },
-    '1000-5000-gb': { averageEventSizeKb: 3.8 },
-    'over-5000-gb': { averageEventSizeKb: 4 },
+    'under-1000-gb': { averageEventSizeKb: 3.5, eventsPerEmployeePerDay: 160 },
+    '1000-5000-gb': { averageEventSizeKb: 3.8, eventsPerEmployeePerDay: 210 },
+    'over-5000-gb': { averageEventSizeKb: 4, eventsPerEmployeePerDay: 275 },
   },
   'saas-business': {
-    'under-1000-gb': { averageEventSizeKb: 1.5 },
-    '1000-5000-gb': { averageEventSizeKb: 1.6 },
-    'over-5000-gb': { averageEventSizeKb: 1.7 },
+    'under-1000-gb': { averageEventSizeKb: 1.5, eventsPerEmployeePerDay: 28 },
+    '1000-5000-gb': { averageEventSizeKb: 1.6, eventsPerEmployeePerDay: 36 },
+    'over-5000-gb': { averageEventSizeKb: 1.7, eventsPerEmployeePerDay: 45 },
+  },
+  'email-security': {
+    'under-1000-gb': { averageEventSizeKb: 2.5, eventsPerEmployeePerDay: 100 },
+    '1000-5000-gb': { averageEventSizeKb: 2.7, eventsPerEmployeePerDay: 120 },
+    'over-5000-gb': { averageEventSizeKb: 2.9, eventsPerEmployeePerDay: 140 },
+  },
+  'dns-ddi': {
+    'under-1000-gb': { averageEventSizeKb: 0.25, eventsPerEmployeePerDay: 1_500 },
+    '1000-5000-gb': { averageEventSizeKb: 0.26, eventsPerEmployeePerDay: 2_000 },
+    'over-5000-gb': { averageEventSizeKb: 0.28, eventsPerEmployeePerDay: 2_500 },
+  },
+  'waf-cdn': {
+    'under-1000-gb': { averageEventSizeKb: 1.2, eventsPerEmployeePerDay: 200 },
+    '1000-5000-gb': { averageEventSizeKb: 1.3, eventsPerEmployeePerDay: 300 },
+    'over-5000-gb': { averageEventSizeKb: 1.4, eventsPerEmployeePerDay: 400 },
+  },
+  'proxy-swg': {
+    'under-1000-gb': { averageEventSizeKb: 0.6, eventsPerEmployeePerDay: 800 },
+    '1000-5000-gb': { averageEventSizeKb: 0.65, eventsPerEmployeePerDay: 1_000 },
+    'over-5000-gb': { averageEventSizeKb: 0.7, eventsPerEmployeePerDay: 1_200 },
+  },
+  'windows-events': {
+    'under-1000-gb': { averageEventSizeKb: 1.1, eventsPerEmployeePerDay: 250 },
+    '1000-5000-gb': { averageEventSizeKb: 1.2, eventsPerEmployeePerDay: 350 },
+    'over-5000-gb': { averageEventSizeKb: 1.3, eventsPerEmployeePerDay: 450 },
   },
 };
 
 export const trafficCategoryLabels = categoryLabels;
 
+export const trafficCategoryBaselines = categoryBaselines;
+
 export const organizationSizeOptions: OrganizationSizeMeta[] = ORGANIZATION_SIZE_METAS;
 
 export const getOrganizationSizeMeta = (size: OrganizationSizeKey): OrganizationSizeMeta => {
@@ -104,7 +163,15 @@ export const getOrganizationSizeMeta = (size: OrganizationSizeKey): Organization
   return meta;
 };
 
-const getBaseline = (category: TrafficCategory, size: OrganizationSizeKey): { averageEventSizeKb: number } => {
+/** The size band an exact headcount falls in. */
+export const getOrganizationSizeForEmployees = (employeeCount: number): OrganizationSizeMeta =>
+  ORGANIZATION_SIZE_METAS.find((meta) => employeeCount <= meta.maxEmployeeCount) ??
+  ORGANIZATION_SIZE_METAS[ORGANIZATION_SIZE_METAS.length - 1];
+
+export const getRecommendationCategory = (endpoint: SourceEndpoint): TrafficCategory =>
+  endpoint.trafficCategory ?? fallbackCategory;
+
+const getBaseline = (category: TrafficCategory, size: OrganizationSizeKey): CategoryBaseline => {
   const categorySet = categoryBaselines[category] ?? categoryBaselines[fallbackCategory];
   const baseline = categorySet[size];
   if (!baseline) {
@@ -113,41 +180,80 @@ const getBaseline = (category: TrafficCategory, size: OrganizationSizeKey): { av
   return baseline;
 };
 
+/**
+ * Daily traffic the research memo predicts for `employeeCount` employees: each distinct traffic
+ * category among the sources contributes employees x events per employee x event size, using the
+ * rates of the band the headcount falls in. Sources sharing a category (two firewalls, say) are
+ * counted once, since they see the same workforce's activity.
+ */
 export const getTrafficRecommendation = (
-  endpoint: SourceEndpoint,
-  size: OrganizationSizeKey,
+  endpoints: readonly SourceEndpoint[],
+  employeeCount: number,
 ): TrafficRecommendation => {
-  const meta = getOrganizationSizeMeta(size);
-  const category = endpoint.trafficCategory ?? fallbackCategory;
-  const baseline = getBaseline(category, size);
-  const dailyGigabytes = meta.defaultDailyGigabytes;
-  const averageEventSizeKb = baseline.averageEventSizeKb;
-  const dailyEvents = Math.round((dailyGigabytes * KB_PER_GIGABYTE) / Math.max(averageEventSizeKb, 0.0001));
+  const employees = Math.max(0, Math.round(employeeCount));
+  const meta = getOrganizationSizeForEmployees(employees);
+  const categories = [...new Set(endpoints.map(getRecommendationCategory))];
+  const estimates = (categories.length > 0 ? categories : [fallbackCategory]).map(
+    (category): CategoryTrafficEstimate => {
+      const { averageEventSizeKb, eventsPerEmployeePerDay } = getBaseline(category, meta.id);
+      const dailyEvents = employees * eventsPerEmployeePerDay;
+      return {
+        category,
+        eventsPerEmployeePerDay,
+        averageEventSizeKb,
+        dailyEvents,
+        dailyGigabytes: (dailyEvents * averageEventSizeKb) / KB_PER_GIGABYTE,
+      };
+    },
+  );
+  const dailyEvents = estimates.reduce((sum, estimate) => sum + estimate.dailyEvents, 0);
+  const dailyGigabytes = estimates.reduce((sum, estimate) => sum + estimate.dailyGigabytes, 0);
 
   return {
     organizationSize: meta,
-    category,
+    employeeCount: employees,
+    categories: estimates,
+    inventory: [],
     dailyEvents,
     dailyGigabytes,
-    averageEventSizeKb,
+    averageEventSizeKb:
+      dailyEvents > 0 ? (dailyGigabytes * KB_PER_GIGABYTE) / dailyEvents : estimates[0].averageEventSizeKb,
   };
 };
 
+const formatDailyGigabytes = (dailyGigabytes: number): string =>
+  dailyGigabytes >= 1_024
+    ? `${(dailyGigabytes / 1_024).toLocaleString(undefined, { maximumFractionDigits: 2 })} TB`
+    : `${dailyGigabytes.toLocaleString(undefined, {
+        maximumFractionDigits: dailyGigabytes >= 100 ? 0 : dailyGigabytes >= 1 ? 1 : 2,
+      })} GB`;
+
+export const formatEventSizeKb = (averageEventSizeKb: number): string =>
+  averageEventSizeKb.toFixed(averageEventSizeKb < 1 ? 2 : 1);
+
 export const describeTrafficRecommendation = (recommendation: TrafficRecommendation): string => {
-  const { organizationSize, category, dailyEvents, averageEventSizeKb, dailyGigabytes } = recommendation;
-  const categoryLabel = categoryLabels[category] ?? categoryLabels[fallbackCategory];
-  const dailyTb = dailyGigabytes / 1_024;
-  const volumeDisplay =
-    dailyGigabytes >= 1_024
-      ? `${dailyTb.toLocaleString(undefined, { maximumFractionDigits: 2 })} TB`
-      : `${dailyGigabytes.toLocaleString(undefined, {
-          maximumFractionDigits: dailyGigabytes >= 100 ? 0 : 1,
-        })} GB`;
+  const { employeeCount, categories, inventory, dailyEvents, averageEventSizeKb, dailyGigabytes } = recommendation;
+  const headcount = `${employeeCount.toLocaleString()} employees`;
+  const parts = [
+    ...inventory.map(
+      (estimate) =>
+        `${estimate.label} (${estimate.units.toLocaleString()} ${estimate.unitLabel}, ${formatDailyGigabytes(
+          estimate.dailyGigabytes,
+        )})`,
+    ),
+    ...categories.map((estimate) => `${estimate.category} (${formatDailyGigabytes(estimate.dailyGigabytes)})`),
+  ];
+  const heading =
+    inventory.length > 0
+      ? `Asset inventory baseline${categories.length > 0 ? ` with ${headcount}` : ''} across ${parts.join(', ')}:`
+      : categories.length === 1
+        ? `${categoryLabels[categories[0].category]} baseline for ${headcount}:`
+        : `Baseline for ${headcount} across ${parts.join(', ')}:`;
 
   return [
-    `${categoryLabel} baseline for ${organizationSize.shortLabel.toLowerCase()}:`,
-    `Approximately ${volumeDisplay} per day (~${dailyEvents.toLocaleString()} events at ${averageEventSizeKb.toFixed(
-      1,
-    )} KB per event).`,
+    heading,
+    `Approximately ${formatDailyGigabytes(dailyGigabytes)} per day (~${Math.round(
+      dailyEvents,
+    ).toLocaleString()} events at ${formatEventSizeKb(averageEventSizeKb)} KB per event).`,
   ].join(' ');
 };
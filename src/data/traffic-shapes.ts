@@ -0,0 +1,81 @@
+import type { TrafficCategory } from './catalog.ts';
+
+/**
+ * How a category's volume moves through the day and from one day to the next. Licenses with a
+ * daily cap (Splunk-style) and collectors sized on events per second both care about the peaks
+ * that a flat TB/day figure hides.
+ */
+export interface TrafficShape {
+  /** Relative volume in each local hour (0-23); only the proportions matter. */
+  hourlyProfile: number[];
+  /** Busiest second relative to the average second of its hour. */
+  burstFactor: number;
+  /** Standard deviation of daily volume divided by its mean. */
+  dailyVariation: number;
+  reference: string;
+}
+
+export const FALLBACK_TRAFFIC_CATEGORY: TrafficCategory = 'network-security';
+
+export const trafficShapes: Record<TrafficCategory, TrafficShape> = {
+  identity: {
+    hourlyProfile: [2, 2, 2, 2, 3, 5, 9, 14, 16, 13, 11, 10, 10, 10, 9, 8, 7, 5, 4, 3, 3, 2, 2, 2],
+    burstFactor: 1.5,
+    dailyVariation: 0.25,
+    reference: 'Planning assumption: sign-in storm at the start of the workday and quiet weekends.',
+  },
+  'cloud-infrastructure': {
+    hourlyProfile: [6, 6, 6, 6, 6, 6, 7, 8, 9, 9, 9, 9, 9, 9, 9, 9, 8, 8, 7, 7, 7, 6, 6, 6],
+    burstFactor: 2.5,
+    dailyVariation: 0.2,
+    reference: 'Planning assumption: automation keeps control-plane activity flat; deploys cause bursts.',
+  },
+  'network-security': {
+    hourlyProfile: [5, 5, 4, 4, 4, 5, 7, 10, 12, 12, 12, 11, 11, 12, 12, 11, 10, 8, 7, 6, 6, 6, 5, 5],
+    burstFactor: 2,
+    dailyVariation: 0.15,
+    reference: 'Planning assumption: business-hours browsing over an always-on flow baseline.',
+  },
+  'endpoint-edr': {
+    hourlyProfile: [4, 4, 4, 4, 4, 5, 7, 10, 12, 12, 11, 11, 11, 11, 11, 10, 9, 7, 6, 5, 5, 5, 4, 4],
+    burstFactor: 2,
+    dailyVariation: 0.2,
+    reference: 'Planning assumption: workday activity plus scheduled scans and agent updates.',
+  },
+  'saas-business': {
+    hourlyProfile: [1, 1, 1, 1, 1, 2, 4, 8, 12, 13, 13, 12, 11, 12, 12, 11, 9, 6, 4, 3, 2, 2, 1, 1],
+    burstFactor: 1.5,
+    dailyVariation: 0.3,
+    reference: 'Planning assumption: collaboration traffic follows office hours and drops at weekends.',
+  },
+  'email-security': {
+    hourlyProfile: [2, 2, 2, 2, 2, 3, 5, 9, 12, 12, 11, 10, 10, 10, 10, 9, 8, 6, 5, 4, 3, 3, 2, 2],
+    burstFactor: 2,
+    dailyVariation: 0.3,
+    reference: 'Planning assumption: business-hours mail flow with bulk and phishing campaigns causing bursts.',
+  },
+  'dns-ddi': {
+    hourlyProfile: [6, 6, 5, 5, 5, 6, 8, 10, 11, 11, 11, 10, 10, 11, 11, 10, 9, 8, 7, 7, 7, 6, 6, 6],
+    burstFactor: 2.5,
+    dailyVariation: 0.15,
+    reference: 'Planning assumption: resolver traffic never stops; lease renewals and malware beacons spike it.',
+  },
+  'waf-cdn': {
+    hourlyProfile: [6, 5, 5, 4, 4, 5, 6, 8, 9, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 10, 9, 8, 7, 7],
+    burstFactor: 3,
+    dailyVariation: 0.3,
+    reference: 'Planning assumption: customer-facing traffic runs into the evening; bots and attacks burst it.',
+  },
+  'proxy-swg': {
+    hourlyProfile: [2, 2, 2, 2, 2, 3, 6, 10, 13, 13, 12, 11, 12, 12, 12, 11, 9, 6, 4, 3, 3, 3, 2, 2],
+    burstFactor: 1.8,
+    dailyVariation: 0.25,
+    reference: 'Planning assumption: browsing follows the workday and drops at weekends.',
+  },
+  'windows-events': {
+    hourlyProfile: [4, 4, 4, 4, 4, 5, 8, 12, 13, 11, 10, 10, 10, 10, 10, 9, 8, 6, 5, 5, 5, 5, 4, 4],
+    burstFactor: 2,
+    dailyVariation: 0.2,
+    reference: 'Planning assumption: morning logon storm over overnight batch jobs and scheduled tasks.',
+  },
+};
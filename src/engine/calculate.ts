@@ -0,0 +1,224 @@
+import { ARCHIVE_DESTINATION_IDS } from '../data/catalog.ts';
+import {
+  DAYS_PER_YEAR,
+  MAX_REALM_OPTIMIZATION,
+  REALM_ANNUAL_COST_PER_TB,
+  REALM_BILLING_INCREMENT_TB,
+  REALM_MIN_BILLED_TB,
+} from './constants.ts';
+import { describeCalibrations, matchCalibrations, summarizeCalibrations } from './calibration.ts';
+import { priceDestination, priceRetention } from './destination-pricing.ts';
+import { estimateInfrastructure } from './infrastructure.ts';
+import {
+  allocateSourceVolumes,
+  combineTechniqueBreakdowns,
+  getSourceReductionRange,
+  getTechniqueBreakdown,
+  summarizeSources,
+} from './reduction.ts';
+import type {
+  ArchiveResult,
+  ArchiveRouting,
+  ArchiveRoutingMode,
+  ScenarioInput,
+  ScenarioRanges,
+  ScenarioResult,
+  SourceBreakdown,
+  ValueRange,
+} from './types.ts';
+
+export const getBilledTerabytes = (baselineTerabytes: number): number =>
+  baselineTerabytes > 0
+    ? Math.max(
+        REALM_MIN_BILLED_TB,
+        Math.ceil(baselineTerabytes / REALM_BILLING_INCREMENT_TB) * REALM_BILLING_INCREMENT_TB,
+      )
+    : 0;
+
+const mapRange = (range: ValueRange, project: (reduction: number) => number): ValueRange => ({
+  low: project(range.low),
+  expected: project(range.expected),
+  high: project(range.high),
+});
+
+/**
+ * Realm's all-in price is quoted against the expected reduction. Volume that Realm fails to
+ * remove beyond that plan (or removes on top of it) lands in the destination at its effective
+ * rate, which is what moves savings and ROI when the realized reduction differs.
+ */
+export const adjustSavingsForReduction = (
+  {
+    annualSavings,
+    baselineTerabytes,
+    averageOptimization,
+    baselineRatePerTb,
+  }: Pick<ScenarioResult, 'annualSavings' | 'baselineTerabytes' | 'averageOptimization' | 'baselineRatePerTb'>,
+  reduction: number,
+): number => annualSavings - baselineTerabytes * (averageOptimization - reduction) * baselineRatePerTb;
+
+const buildScenarioRanges = (
+  result: Omit<ScenarioResult, 'ranges'>,
+  reduction: ValueRange,
+): ScenarioRanges => {
+  const { baselineTerabytes, standardAnnual } = result;
+  const realmSideAnnual = getRealmSideAnnual(result);
+  const annualSavings = mapRange(reduction, (value) => adjustSavingsForReduction(result, value));
+
+  return {
+    reduction,
+    dataReductionTb: mapRange(reduction, (value) => baselineTerabytes * value),
+    annualSavings,
+    savingsPercentage: mapRange(annualSavings, (value) =>
+      standardAnnual > 0 ? (value / standardAnnual) * 100 : 0,
+    ),
+    roiMultiple: mapRange(annualSavings, (value) => (realmSideAnnual > 0 ? value / realmSideAnnual : 0)),
+  };
+};
+
+/**
+ * Everything the customer pays once Realm is in place: the Realm fee, archive, retention, and
+ * the collector infrastructure they still host.
+ */
+export const getRealmSideAnnual = ({
+  realmAnnual,
+  archiveAnnual,
+  retentionAnnual,
+  infrastructureAnnual,
+}: Pick<ScenarioResult, 'realmAnnual' | 'archiveAnnual' | 'retentionAnnual' | 'infrastructureAnnual'>): number =>
+  realmAnnual + archiveAnnual + retentionAnnual + infrastructureAnnual;
+
+const getArchivedTerabytes = (
+  row: Omit<SourceBreakdown, 'archiveMode' | 'archivedTerabytes'>,
+  mode: ArchiveRoutingMode,
+): number => {
+  if (mode === 'full-fidelity') {
+    return row.dailyTerabytes;
+  }
+  return mode === 'reduced' ? row.dailyTerabytes - row.optimizedTerabytes : 0;
+};
+
+const priceArchive = (
+  archive: ArchiveRouting,
+  archivedTerabytes: number,
+  retentionDays: number | undefined,
+): ArchiveResult => {
+  if (!ARCHIVE_DESTINATION_IDS.has(archive.destination.id)) {
+    throw new Error(`${archive.destination.label} is not an archive destination.`);
+  }
+  const pricing = priceDestination(archive.destination, archivedTerabytes, undefined, retentionDays);
+  return { destination: archive.destination, archivedTerabytes, annualCost: pricing.annualCost, pricing };
+};
+
+export const calculate = ({
+  sources: selectedSources,
+  destination,
+  dailyTerabytes,
+  sourceVolumes,
+  employeeCount,
+  archive,
+  retention,
+  infrastructure,
+}: ScenarioInput): ScenarioResult => {
+  if (selectedSources.length === 0) {
+    throw new Error('At least one source must be selected.');
+  }
+
+  const calibrationAssignments = matchCalibrations(
+    selectedSources.map((source) => source.id),
+    destination.id,
+  );
+  const combinedSource = summarizeSources(selectedSources, sourceVolumes, calibrationAssignments);
+  const appliedOptimization = Math.min(MAX_REALM_OPTIMIZATION, Math.max(0, combinedSource.realmOptimization));
+  const baselineTerabytes = Math.max(0, dailyTerabytes);
+  const optimizedTerabytes = baselineTerabytes * (1 - appliedOptimization);
+  const dataReductionTb = Math.max(0, baselineTerabytes - optimizedTerabytes);
+  const dataReductionPercentage =
+    baselineTerabytes > 0 ? dataReductionTb / baselineTerabytes : 0;
+
+  const billedTerabytes = getBilledTerabytes(baselineTerabytes);
+  const sourceBreakdown = allocateSourceVolumes(selectedSources, baselineTerabytes, sourceVolumes).map(
+    (allocation) => {
+      const reductionRange = getSourceReductionRange(allocation.source, calibrationAssignments);
+      const row = {
+        ...allocation,
+        reduction: reductionRange.expected,
+        reductionRange,
+        calibration: calibrationAssignments.get(allocation.source.id) ?? null,
+        techniques: getTechniqueBreakdown(allocation.source, reductionRange.expected),
+        optimizedTerabytes: allocation.dailyTerabytes * (1 - reductionRange.expected),
+      };
+      const archiveMode: ArchiveRoutingMode = archive
+        ? archive.sourceModes?.[allocation.source.id] ?? archive.mode
+        : 'none';
+      return { ...row, archiveMode, archivedTerabytes: getArchivedTerabytes(row, archiveMode) };
+    },
+  );
+  const archiveResult = archive
+    ? priceArchive(
+        archive,
+        sourceBreakdown.reduce((sum, row) => sum + row.archivedTerabytes, 0),
+        retention?.archiveDays,
+      )
+    : null;
+  const archiveAnnual = archiveResult?.annualCost ?? 0;
+
+  const destinationPricing = priceDestination(
+    destination,
+    baselineTerabytes,
+    employeeCount,
+    retention?.hotDays,
+  );
+  const retentionResult = retention
+    ? priceRetention(destination, baselineTerabytes, optimizedTerabytes, retention)
+    : null;
+  const retentionAnnual = retentionResult?.optimizedAnnual ?? 0;
+  const infrastructureResult = infrastructure ? estimateInfrastructure(sourceBreakdown, infrastructure) : null;
+  const infrastructureAnnual = infrastructureResult?.realm.annualCost ?? 0;
+  const standardAnnual =
+    destinationPricing.annualCost +
+    (retentionResult?.baselineAnnual ?? 0) +
+    (infrastructureResult?.baseline.annualCost ?? 0);
+  const realmAnnual = billedTerabytes * REALM_ANNUAL_COST_PER_TB;
+  const standardCost = standardAnnual / DAYS_PER_YEAR;
+  const realmCost = realmAnnual / DAYS_PER_YEAR;
+  const realmSideAnnual = getRealmSideAnnual({ realmAnnual, archiveAnnual, retentionAnnual, infrastructureAnnual });
+  // Archive, retained optimized volume, and hosted collectors are paid alongside Realm.
+  const annualSavings = standardAnnual - realmSideAnnual;
+  const savings = annualSavings / DAYS_PER_YEAR;
+  const savingsPercentage = standardAnnual > 0 ? (annualSavings / standardAnnual) * 100 : 0;
+  const roiMultiple = realmSideAnnual > 0 ? annualSavings / realmSideAnnual : 0;
+  const calibrations = summarizeCalibrations(sourceBreakdown);
+
+  const result = {
+    standardCost,
+    realmCost,
+    savings,
+    savingsPercentage,
+    annualSavings,
+    standardAnnual,
+    realmAnnual,
+    archiveAnnual,
+    retentionAnnual,
+    infrastructureAnnual,
+    roiMultiple,
+    baselineTerabytes,
+    optimizedTerabytes,
+    billedTerabytes,
+    dataReductionTb,
+    dataReductionPercentage,
+    realmRatePerTb: REALM_ANNUAL_COST_PER_TB,
+    // Includes retention and collectors so the rate reflects everything the raw volume costs today.
+    baselineRatePerTb: baselineTerabytes > 0 ? standardAnnual / baselineTerabytes : 0,
+    averageOptimization: appliedOptimization,
+    techniques: combineTechniqueBreakdowns(sourceBreakdown),
+    calibrations,
+    calibrationNote: describeCalibrations(calibrations),
+    sourceBreakdown,
+    destinationPricing,
+    archive: archiveResult,
+    retention: retentionResult,
+    infrastructure: infrastructureResult,
+  };
+
+  return { ...result, ranges: buildScenarioRanges(result, combinedSource.reductionRange) };
+};
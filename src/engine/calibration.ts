@@ -0,0 +1,70 @@
+import { calibrationRegistry, type CalibrationRecord } from '../data/calibrations.ts';
+import type { AppliedCalibration, SourceBreakdown } from './types.ts';
+
+/** Source id -> the calibration whose measured reduction replaces that source's heuristic. */
+export type CalibrationAssignments = ReadonlyMap<string, CalibrationRecord>;
+
+const compareSpecificity = (a: CalibrationRecord, b: CalibrationRecord): number =>
+  b.sourceIds.length - a.sourceIds.length ||
+  (b.provenance.measuredOn ?? '').localeCompare(a.provenance.measuredOn ?? '');
+
+/**
+ * Assigns calibrations to the selected sources. A calibration matches when all of its sources
+ * are selected and the destination is covered. Wider source sets win over narrower ones (then the
+ * most recent measurement), and a calibration is skipped if any of its sources is already claimed
+ * so overlapping entries never split a measurement across sources it was not taken on.
+ */
+export const matchCalibrations = (
+  sourceIds: string[],
+  destinationId: string,
+  registry: CalibrationRecord[] = calibrationRegistry,
+): CalibrationAssignments => {
+  const selected = new Set(sourceIds);
+  const assignments = new Map<string, CalibrationRecord>();
+  const candidates = registry
+    .filter(
+      (record) =>
+        record.sourceIds.length > 0 &&
+        record.sourceIds.every((id) => selected.has(id)) &&
+        (!record.destinationIds || record.destinationIds.includes(destinationId)),
+    )
+    .sort(compareSpecificity);
+
+  for (const record of candidates) {
+    if (record.sourceIds.some((id) => assignments.has(id))) {
+      continue;
+    }
+    for (const id of record.sourceIds) {
+      assignments.set(id, record);
+    }
+  }
+
+  return assignments;
+};
+
+/** Groups calibrated breakdown rows by calibration, with the share of scenario volume each covers. */
+export const summarizeCalibrations = (sourceBreakdown: SourceBreakdown[]): AppliedCalibration[] => {
+  const applied = new Map<string, AppliedCalibration>();
+  for (const row of sourceBreakdown) {
+    if (!row.calibration) {
+      continue;
+    }
+    const entry = applied.get(row.calibration.id) ?? { calibration: row.calibration, sourceIds: [], share: 0 };
+    entry.sourceIds.push(row.source.id);
+    entry.share += row.share;
+    applied.set(row.calibration.id, entry);
+  }
+  return [...applied.values()];
+};
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+export const describeCalibrations = (applied: AppliedCalibration[]): string =>
+  applied
+    .map(
+      ({ calibration, share }) =>
+        `Calibrated to ${calibration.provenance.customer}: ${formatPercent(
+          calibration.measuredReduction,
+        )} measured reduction applied to ${formatPercent(share)} of volume. ${calibration.provenance.reference}`,
+    )
+    .join(' ');
@@ -0,0 +1,91 @@
+import { calculate } from './calculate.ts';
+import { DAYS_PER_YEAR } from './constants.ts';
+import { priceDestination } from './destination-pricing.ts';
+import type {
+  CommitmentAnalysis,
+  CommitmentPosition,
+  LicenseCommitment,
+  ScenarioInput,
+} from './types.ts';
+
+const MONTHS_PER_YEAR = 12;
+const MS_PER_DAY = 86_400_000;
+
+const parseIsoDate = (value: string, label: string): number => {
+  const parsed = Date.parse(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`${label} must be an ISO date (YYYY-MM-DD).`);
+  }
+  return parsed;
+};
+
+/** Months from `asOf` until raw volume growing at `growthRate` outgrows the commitment. */
+const getMonthsOfHeadroom = (dailyTerabytes: number, committed: number, growthRate: number): number | null => {
+  if (dailyTerabytes >= committed) {
+    return 0;
+  }
+  if (dailyTerabytes <= 0 || growthRate <= 0) {
+    return null;
+  }
+  return (Math.log(committed / dailyTerabytes) / Math.log(1 + growthRate)) * MONTHS_PER_YEAR;
+};
+
+/**
+ * Renewal-avoidance view for a prospect that already holds a committed license. Volume grows
+ * from today to the renewal date; if it outgrows the commitment, the renewal is priced at the
+ * destination's list price for that volume scaled by the discount the current contract carries.
+ * With Realm the commitment only has to cover the optimized volume, so the avoided upgrade is
+ * the difference between the two renewals.
+ */
+export const analyzeCommitment = (
+  input: ScenarioInput,
+  commitment: LicenseCommitment,
+  asOf: string,
+): CommitmentAnalysis => {
+  const committed = commitment.committedDailyTerabytes;
+  if (!(committed > 0)) {
+    throw new Error('The committed daily volume must be positive.');
+  }
+  const monthsToRenewal = Math.max(
+    0,
+    (parseIsoDate(commitment.renewalDate, 'Renewal date') - parseIsoDate(asOf, 'As-of date')) /
+      MS_PER_DAY /
+      (DAYS_PER_YEAR / MONTHS_PER_YEAR),
+  );
+  const growthRate = Math.max(-0.99, commitment.annualGrowthRate);
+  const growthToRenewal = (1 + growthRate) ** (monthsToRenewal / MONTHS_PER_YEAR);
+
+  const result = calculate(input);
+  const quote = (dailyTerabytes: number): number =>
+    priceDestination(input.destination, dailyTerabytes, input.employeeCount, input.retention?.hotDays).annualCost;
+  const listAtCommitment = quote(committed);
+  const contractDiscount = listAtCommitment > 0 ? commitment.annualContractPrice / listAtCommitment : 1;
+
+  const position = (dailyTerabytes: number): CommitmentPosition => {
+    const renewalTerabytes = dailyTerabytes * growthToRenewal;
+    const upgradeRequired = renewalTerabytes > committed;
+    return {
+      dailyTerabytes,
+      renewalTerabytes,
+      utilization: dailyTerabytes / committed,
+      headroomTerabytes: committed - dailyTerabytes,
+      monthsOfHeadroom: getMonthsOfHeadroom(dailyTerabytes, committed, growthRate),
+      upgradeRequired,
+      renewalAnnual: upgradeRequired
+        ? Math.max(commitment.annualContractPrice, quote(renewalTerabytes) * contractDiscount)
+        : commitment.annualContractPrice,
+    };
+  };
+  const baseline = position(result.baselineTerabytes);
+  const realm = position(result.optimizedTerabytes);
+
+  return {
+    commitment,
+    monthsToRenewal,
+    contractDiscount,
+    baseline,
+    realm,
+    avoidedUpgradeAnnual: baseline.renewalAnnual - realm.renewalAnnual,
+    headroomRegainedTerabytes: realm.headroomTerabytes - baseline.headroomTerabytes,
+  };
+};
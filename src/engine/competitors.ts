@@ -0,0 +1,64 @@
+import {
+  ANNUAL_COST_PER_ENGINEER,
+  competitors,
+  type CompetitorLicensing,
+  type CompetitorProfile,
+} from '../data/competitors.ts';
+import { calculate, getRealmSideAnnual } from './calculate.ts';
+import { priceDestination, priceRetention } from './destination-pricing.ts';
+import type { CompetitorComparison, ScenarioInput } from './types.ts';
+
+const quoteLicense = (licensing: CompetitorLicensing, rawTerabytes: number): number => {
+  switch (licensing.kind) {
+    case 'per-tb-ingest':
+      return rawTerabytes * licensing.annualCostPerTb;
+    case 'none':
+      return 0;
+  }
+};
+
+/**
+ * Prices each competitor as the full cost of running it in front of the scenario's destination:
+ * its license and infrastructure on raw volume, the engineers to operate it, and the destination
+ * license (plus any extended retention) on whatever volume it leaves behind. Realm's side is the
+ * all-in figure `calculate` uses for savings, which covers the destination license, so only the
+ * competitor columns carry a destination license charge.
+ */
+export const compareCompetitors = (
+  input: ScenarioInput,
+  profiles: CompetitorProfile[] = competitors,
+): CompetitorComparison[] => {
+  const result = calculate(input);
+  const realmSideAnnual = getRealmSideAnnual(result);
+  const rawTerabytes = result.baselineTerabytes;
+
+  return profiles.map((competitor) => {
+    const reduction = Math.min(1, Math.max(0, competitor.reduction.factor));
+    const destinationTerabytes = rawTerabytes * (1 - reduction);
+    const licenseAnnual = quoteLicense(competitor.licensing, rawTerabytes);
+    // Self-hosted pipelines keep every collector and pay egress on raw cloud volume.
+    const infrastructureAnnual =
+      rawTerabytes * competitor.infrastructure.annualCostPerTb + (result.infrastructure?.baseline.annualCost ?? 0);
+    const operationsAnnual = competitor.operations.engineerFte * ANNUAL_COST_PER_ENGINEER;
+    const destinationAnnual =
+      priceDestination(input.destination, destinationTerabytes, input.employeeCount, input.retention?.hotDays)
+        .annualCost +
+      (input.retention
+        ? priceRetention(input.destination, rawTerabytes, destinationTerabytes, input.retention).optimizedAnnual
+        : 0);
+    const totalAnnual = licenseAnnual + infrastructureAnnual + operationsAnnual + destinationAnnual;
+
+    return {
+      competitor,
+      reduction,
+      destinationTerabytes,
+      licenseAnnual,
+      infrastructureAnnual,
+      operationsAnnual,
+      destinationAnnual,
+      totalAnnual,
+      savingsVsStandard: result.standardAnnual - totalAnnual,
+      realmAdvantage: totalAnnual - realmSideAnnual,
+    };
+  });
+};
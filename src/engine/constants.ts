@@ -0,0 +1,10 @@
+export const SIEM_ANNUAL_COST_PER_TB = 500_000; // price for sustaining 1 TB/day for a year
+export const REALM_ANNUAL_COST_PER_TB = 70_000; // price for sustaining 1 TB/day for a year with Realm Focus included
+export const REALM_MIN_BILLED_TB = 1;
+export const REALM_BILLING_INCREMENT_TB = 0.5;
+export const DAYS_PER_YEAR = 365;
+export const SECONDS_PER_DAY = 86_400;
+export const KB_PER_GIGABYTE = 1_024 * 1_024;
+export const KB_PER_TERABYTE = KB_PER_GIGABYTE * 1_024;
+export const DEFAULT_EVENT_SIZE_KB = 1;
+export const MAX_REALM_OPTIMIZATION = 0.75;
@@ -0,0 +1,33 @@
+import { FX_RATE_TABLE, type CurrencyCode, type FxRateTable } from '../data/fx-rates.ts';
+import type { CurrencyConversion } from './types.ts';
+
+/**
+ * Resolves the rate used to present USD list prices in another currency. A positive
+ * `unitsPerUsdOverride` replaces the table rate (e.g. a rate agreed on a specific deal).
+ */
+export const getCurrencyConversion = (
+  currency: CurrencyCode,
+  unitsPerUsdOverride?: number,
+  table: FxRateTable = FX_RATE_TABLE,
+): CurrencyConversion => {
+  const tableRate = table.unitsPerUsd[currency];
+  if (!(tableRate > 0)) {
+    throw new Error(`FX table ${table.version} has no rate for ${currency}.`);
+  }
+  const overridden =
+    unitsPerUsdOverride !== undefined && unitsPerUsdOverride > 0 && unitsPerUsdOverride !== tableRate;
+
+  return {
+    currency,
+    unitsPerUsd: overridden ? unitsPerUsdOverride : tableRate,
+    tableVersion: table.version,
+    rateDate: table.rateDate,
+    overridden,
+  };
+};
+
+export const convertFromUsd = (amountUsd: number, conversion: CurrencyConversion): number =>
+  amountUsd * conversion.unitsPerUsd;
+
+export const convertToUsd = (amount: number, conversion: CurrencyConversion): number =>
+  amount / conversion.unitsPerUsd;
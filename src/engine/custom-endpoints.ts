@@ -0,0 +1,116 @@
+import type {
+  DestinationEndpoint,
+  DestinationPricingModel,
+  RealmReduction,
+  SourceEndpoint,
+  TrafficCategory,
+} from '../data/catalog.ts';
+import { MAX_REALM_OPTIMIZATION } from './constants.ts';
+import { getFixedReduction } from './reduction.ts';
+import type { CustomDestinationInput, CustomSourceInput } from './types.ts';
+
+const CUSTOM_SOURCE_PREFIX = 'custom-source-';
+const CUSTOM_DESTINATION_PREFIX = 'custom-destination-';
+const CATEGORY_DEFAULT_REFERENCE = 'Category default for a custom source; replace with a measured factor when known.';
+const USER_SUPPLIED_REFERENCE = 'Entered by the rep for a custom source.';
+
+const slugify = (label: string): string =>
+  label
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'entry';
+
+const uniqueId = (prefix: string, label: string, existingIds: Iterable<string>): string => {
+  const taken = new Set(existingIds);
+  const base = `${prefix}${slugify(label)}`;
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix += 1) {
+    candidate = `${base}-${suffix}`;
+  }
+  return candidate;
+};
+
+const requireLabel = (label: string): string => {
+  const trimmed = label.trim();
+  if (trimmed === '') {
+    throw new Error('A custom integration needs a name.');
+  }
+  return trimmed;
+};
+
+/** The reduction a catalog source in `category` with this label would get from the heuristics. */
+export const getCategoryDefaultReduction = (category: TrafficCategory, label = ''): number =>
+  getFixedReduction({
+    id: '',
+    label,
+    description: '',
+    trafficCategory: category,
+    realmReduction: { factor: 0, basis: 'assumption', reference: CATEGORY_DEFAULT_REFERENCE },
+  });
+
+/**
+ * Builds a source for a tool the catalog does not list. Without a reduction factor it takes the
+ * same category heuristic a catalog source would; with one, the factor is used as entered (up to
+ * the Realm optimization cap). `existingIds` keeps the generated id unique.
+ */
+export const createCustomSource = (input: CustomSourceInput, existingIds: Iterable<string> = []): SourceEndpoint => {
+  const label = requireLabel(input.label);
+  const { reductionFactor } = input;
+  if (reductionFactor !== undefined && !(reductionFactor >= 0 && reductionFactor <= MAX_REALM_OPTIMIZATION)) {
+    throw new Error(`Reduction must be between 0% and ${MAX_REALM_OPTIMIZATION * 100}%.`);
+  }
+  const realmReduction: RealmReduction =
+    reductionFactor === undefined
+      ? {
+          factor: getCategoryDefaultReduction(input.trafficCategory, label),
+          basis: 'assumption',
+          reference: CATEGORY_DEFAULT_REFERENCE,
+        }
+      : { factor: reductionFactor, basis: 'user-supplied', reference: USER_SUPPLIED_REFERENCE };
+
+  return {
+    id: uniqueId(CUSTOM_SOURCE_PREFIX, label, existingIds),
+    label,
+    description: input.notes?.trim() || `Custom source added by the rep (${input.trafficCategory}).`,
+    realmReduction,
+    trafficCategory: input.trafficCategory,
+    ingestionMethod: input.ingestionMethod,
+    custom: true,
+  };
+};
+
+const validatePricing = (pricing: DestinationPricingModel): void => {
+  const rates =
+    pricing.kind === 'flat-per-tb'
+      ? [pricing.annualCostPerTb]
+      : pricing.kind === 'storage-only'
+        ? [pricing.storagePerGbMonth, pricing.retentionDays]
+        : [];
+  if (rates.some((rate) => !(rate > 0))) {
+    throw new Error('Custom destination pricing must be a positive rate.');
+  }
+};
+
+/**
+ * Builds an analytics destination for a SIEM the catalog does not list. Omit `pricing` to price it
+ * at the traditional SIEM benchmark like any catalog destination without a model.
+ */
+export const createCustomDestination = (
+  input: CustomDestinationInput,
+  existingIds: Iterable<string> = [],
+): DestinationEndpoint => {
+  const label = requireLabel(input.label);
+  if (input.pricing) {
+    validatePricing(input.pricing);
+  }
+
+  return {
+    id: uniqueId(CUSTOM_DESTINATION_PREFIX, label, existingIds),
+    label,
+    description: input.notes?.trim() || 'Custom destination added by the rep.',
+    realmReduction: { factor: 0, basis: 'assumption', reference: 'Realm reduction is set per source.' },
+    pricing: input.pricing,
+    custom: true,
+  };
+};
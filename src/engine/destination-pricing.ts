@@ -0,0 +1,211 @@
+import type { DestinationEndpoint, DestinationPricingModel, RetentionPricing } from '../data/catalog.ts';
+import { DAYS_PER_YEAR, SIEM_ANNUAL_COST_PER_TB } from './constants.ts';
+import type { DestinationPriceQuote, RetentionResult, RetentionSettings } from './types.ts';
+
+const GIGABYTES_PER_TERABYTE = 1_024;
+const MONTHS_PER_YEAR = 12;
+export const DEFAULT_EMPLOYEE_COUNT = 1_000;
+
+export const BENCHMARK_PRICING_MODEL: DestinationPricingModel = {
+  kind: 'flat-per-tb',
+  annualCostPerTb: SIEM_ANNUAL_COST_PER_TB,
+  reference: 'Traditional SIEM benchmark used across the calculator.',
+};
+
+export const BENCHMARK_RETENTION_PRICING: RetentionPricing = {
+  includedHotDays: 90,
+  extendedHotPerGbMonth: 0.1,
+  reference: 'Typical SIEM license with 90 searchable days included.',
+};
+
+export const getDestinationPricingModel = (destination: DestinationEndpoint): DestinationPricingModel =>
+  destination.pricing ?? BENCHMARK_PRICING_MODEL;
+
+export const getRetentionPricing = (destination: DestinationEndpoint): RetentionPricing =>
+  destination.retention ?? BENCHMARK_RETENTION_PRICING;
+
+const getModelLinearThreshold = (model: DestinationPricingModel, employeeCount: number): number => {
+  switch (model.kind) {
+    case 'flat-per-tb':
+    case 'storage-only':
+      return 0;
+    case 'license-bands': {
+      // Each band's floor (see quoteModel) holds until its rate catches up with the lower caps.
+      let threshold = 0;
+      let floorCost = 0;
+      for (const band of model.bands) {
+        threshold = Math.max(threshold, floorCost / band.annualCostPerTb);
+        if (band.upToTerabytesPerDay !== undefined) {
+          threshold = Math.max(threshold, band.upToTerabytesPerDay);
+          floorCost = Math.max(floorCost, band.upToTerabytesPerDay * band.annualCostPerTb);
+        }
+      }
+      return threshold;
+    }
+    case 'ingest-commitment':
+      return Math.max(0, ...model.commitmentTiers.map((tier) => tier.gigabytesPerDay)) / GIGABYTES_PER_TERABYTE;
+    case 'per-employee':
+      return (Math.max(0, employeeCount) * model.includedGigabytesPerEmployeePerDay) / GIGABYTES_PER_TERABYTE;
+    default: {
+      const exhaustiveCheck: never = model;
+      return exhaustiveCheck;
+    }
+  }
+};
+
+/**
+ * Raw TB/day above which the destination bills every extra terabyte at one rate: past the top
+ * license band (and the floor carried into it), the largest commitment tier, the employees'
+ * fair-use allowance, and any free tier.
+ */
+export const getLinearPricingThreshold = (
+  destination: DestinationEndpoint,
+  employeeCount: number = DEFAULT_EMPLOYEE_COUNT,
+): number =>
+  (destination.freeTier?.includedGigabytesPerDay ?? 0) / GIGABYTES_PER_TERABYTE +
+  getModelLinearThreshold(getDestinationPricingModel(destination), employeeCount);
+
+const formatGigabytes = (value: number): string =>
+  new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
+
+const quoteModel = (
+  model: DestinationPricingModel,
+  dailyTerabytes: number,
+  employeeCount: number,
+  retentionDays: number | undefined,
+): Pick<DestinationPriceQuote, 'annualCost' | 'tierLabel'> => {
+  const dailyGigabytes = dailyTerabytes * GIGABYTES_PER_TERABYTE;
+
+  switch (model.kind) {
+    case 'flat-per-tb':
+      return { annualCost: dailyTerabytes * model.annualCostPerTb, tierLabel: '' };
+    case 'license-bands': {
+      if (model.bands.length === 0) {
+        throw new Error('License-band pricing requires at least one band.');
+      }
+      const band =
+        model.bands.find(
+          (candidate) =>
+            candidate.upToTerabytesPerDay === undefined || dailyTerabytes <= candidate.upToTerabytesPerDay,
+        ) ?? model.bands[model.bands.length - 1];
+      const bandIndex = model.bands.indexOf(band);
+      const lowerBound = bandIndex > 0 ? model.bands[bandIndex - 1].upToTerabytesPerDay ?? 0 : 0;
+      const bandLabel =
+        band.upToTerabytesPerDay === undefined
+          ? `license band above ${lowerBound} TB/day`
+          : `license band ${lowerBound}-${band.upToTerabytesPerDay} TB/day`;
+      // The whole volume bills at its band's rate, but never below what a lower band costs at its
+      // cap; otherwise stepping over a band edge would lower the bill.
+      const bandCost = dailyTerabytes * band.annualCostPerTb;
+      const floorCost = Math.max(
+        0,
+        ...model.bands
+          .slice(0, bandIndex)
+          .map((lower) => (lower.upToTerabytesPerDay ?? 0) * lower.annualCostPerTb),
+      );
+      return bandCost >= floorCost
+        ? { annualCost: bandCost, tierLabel: bandLabel }
+        : { annualCost: floorCost, tierLabel: `${bandLabel}, held at the ${lowerBound} TB/day band price` };
+    }
+    case 'ingest-commitment': {
+      let bestDailyCost = dailyGigabytes * model.payAsYouGoPerGb;
+      let tierLabel = 'pay-as-you-go';
+      for (const tier of model.commitmentTiers) {
+        // Overage above a commitment tier bills at that tier's effective per-GB rate.
+        const effectivePerGb = tier.dailyPrice / tier.gigabytesPerDay;
+        const overage = Math.max(0, dailyGigabytes - tier.gigabytesPerDay);
+        const dailyCost = tier.dailyPrice + overage * effectivePerGb;
+        if (dailyCost < bestDailyCost) {
+          bestDailyCost = dailyCost;
+          tierLabel = `${formatGigabytes(tier.gigabytesPerDay)} GB/day commitment tier`;
+        }
+      }
+      return { annualCost: dailyGigabytes > 0 ? bestDailyCost * DAYS_PER_YEAR : 0, tierLabel };
+    }
+    case 'per-employee': {
+      const employees = Math.max(0, employeeCount);
+      const includedTerabytes = (employees * model.includedGigabytesPerEmployeePerDay) / GIGABYTES_PER_TERABYTE;
+      const overageTerabytes = Math.max(0, dailyTerabytes - includedTerabytes);
+      const subscription = dailyTerabytes > 0 ? employees * model.annualCostPerEmployee : 0;
+      const tierLabel = `${formatGigabytes(employees)} employees${
+        overageTerabytes > 0 ? ' plus fair-use overage' : ''
+      }`;
+      return { annualCost: subscription + overageTerabytes * model.overageAnnualCostPerTb, tierLabel };
+    }
+    case 'storage-only': {
+      // Steady state: the retention window is always full, so stored GB = daily GB x retention days.
+      const days = retentionDays ?? model.retentionDays;
+      const storedGigabytes = dailyGigabytes * days;
+      return {
+        annualCost: storedGigabytes * model.storagePerGbMonth * MONTHS_PER_YEAR,
+        tierLabel: `${days}-day retention`,
+      };
+    }
+    default: {
+      const exhaustiveCheck: never = model;
+      return exhaustiveCheck;
+    }
+  }
+};
+
+/**
+ * Prices raw daily volume against the destination's own pricing model. Destinations without a
+ * model fall back to the flat traditional SIEM benchmark. `retentionDays` overrides the window
+ * of storage-only models and is ignored by the others.
+ */
+export const priceDestination = (
+  destination: DestinationEndpoint,
+  dailyTerabytes: number,
+  employeeCount: number = DEFAULT_EMPLOYEE_COUNT,
+  retentionDays?: number,
+): DestinationPriceQuote => {
+  const model = getDestinationPricingModel(destination);
+  const volume = Math.max(0, dailyTerabytes);
+  const freeTerabytes = Math.min(
+    volume,
+    (destination.freeTier?.includedGigabytesPerDay ?? 0) / GIGABYTES_PER_TERABYTE,
+  );
+  const { annualCost, tierLabel } = quoteModel(model, volume - freeTerabytes, employeeCount, retentionDays);
+
+  return {
+    model,
+    annualCost,
+    effectiveAnnualCostPerTb: volume > 0 ? annualCost / volume : 0,
+    tierLabel,
+    freeTerabytes,
+  };
+};
+
+/**
+ * Prices searchable retention beyond the destination's included window for both the raw and the
+ * optimized volume. Storage-only destinations already price their full window, so they never
+ * bill extended retention here.
+ */
+export const priceRetention = (
+  destination: DestinationEndpoint,
+  baselineTerabytes: number,
+  optimizedTerabytes: number,
+  settings: RetentionSettings,
+): RetentionResult => {
+  const pricing = getRetentionPricing(destination);
+  const hotDays = Math.max(0, Math.round(settings.hotDays));
+  const archiveDays = Math.max(0, Math.round(settings.archiveDays));
+  const extendedHotDays =
+    getDestinationPricingModel(destination).kind === 'storage-only'
+      ? 0
+      : Math.max(0, hotDays - pricing.includedHotDays);
+  const baselineStoredTerabytes = Math.max(0, baselineTerabytes) * extendedHotDays;
+  const optimizedStoredTerabytes = Math.max(0, optimizedTerabytes) * extendedHotDays;
+  const annualCostPerStoredTb = GIGABYTES_PER_TERABYTE * pricing.extendedHotPerGbMonth * MONTHS_PER_YEAR;
+
+  return {
+    hotDays,
+    archiveDays,
+    pricing,
+    extendedHotDays,
+    baselineStoredTerabytes,
+    optimizedStoredTerabytes,
+    baselineAnnual: baselineStoredTerabytes * annualCostPerStoredTb,
+    optimizedAnnual: optimizedStoredTerabytes * annualCostPerStoredTb,
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * Headless pricing engine for the Realm cost calculator.
+ *
+ * Everything exported here is DOM-free so the UI, PDF export, HubSpot payload builder,
+ * and any CLI or server-side caller share the same math.
+ */
+export * from './constants.ts';
+export * from './types.ts';
+export {
+  CALIBRATED_REDUCTION_SPREAD,
+  allocateSourceVolumes,
+  buildReductionRange,
+  combineTechniqueBreakdowns,
+  getFixedReduction,
+  getReductionRange,
+  getSourceReductionRange,
+  getTechniqueBreakdown,
+  summarizeSources,
+} from './reduction.ts';
+export { describeCalibrations, matchCalibrations, summarizeCalibrations } from './calibration.ts';
+export type { CalibrationAssignments } from './calibration.ts';
+export {
+  adjustSavingsForReduction,
+  calculate,
+  getBilledTerabytes,
+  getRealmSideAnnual,
+} from './calculate.ts';
+export { analyzeCommitment } from './commitment.ts';
+export { createCustomDestination, createCustomSource, getCategoryDefaultReduction } from './custom-endpoints.ts';
+export { compareCompetitors } from './competitors.ts';
+export { convertFromUsd, convertToUsd, getCurrencyConversion } from './currency.ts';
+export { estimateInfrastructure, getIngestionMethod } from './infrastructure.ts';
+export {
+  BENCHMARK_PRICING_MODEL,
+  BENCHMARK_RETENTION_PRICING,
+  DEFAULT_EMPLOYEE_COUNT,
+  getDestinationPricingModel,
+  getRetentionPricing,
+  priceDestination,
+  priceRetention,
+} from './destination-pricing.ts';
+export {
+  DEFAULT_DISCOUNT_RATE,
+  analyzeInvestment,
+  findBreakEvenDailyTerabytes,
+  getOneTimeCost,
+} from './investment.ts';
+export {
+  DEFAULT_ANNUAL_GROWTH_RATE,
+  DEFAULT_SIEM_PRICE_ESCALATOR,
+  PROJECTION_HORIZONS,
+  projectScenario,
+} from './projection.ts';
+export {
+  DEFAULT_SIMULATION_ITERATIONS,
+  SIMULATION_ITERATION_OPTIONS,
+  simulateScenario,
+} from './simulation.ts';
+export {
+  DEFAULT_LICENSE_HEADROOM,
+  analyzeBurstRisk,
+  combineTrafficShapes,
+  getAverageEventsPerSecond,
+  getExceedanceProbability,
+  getTrafficShape,
+} from './traffic-shape.ts';
+export {
+  SAMPLE_EVENT_LIMIT,
+  SAMPLE_LOG_FORMAT_LABELS,
+  analyzeSampleLog,
+  applySampleAnalysis,
+  detectSampleFormat,
+} from './sample-analysis.ts';
+export { convertDailyVolume } from './units.ts';
+export type { DailyVolume } from './units.ts';
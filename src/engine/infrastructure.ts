@@ -0,0 +1,111 @@
+import type { IngestionMethod, SourceEndpoint } from '../data/catalog.ts';
+import {
+  DEFAULT_INGESTION_METHODS,
+  FALLBACK_INGESTION_METHOD,
+  collectorProfiles,
+  type CollectorProfile,
+} from '../data/collectors.ts';
+import { DAYS_PER_YEAR } from './constants.ts';
+import { combineTrafficShapes, getAverageEventsPerSecond } from './traffic-shape.ts';
+import type {
+  CollectorSizing,
+  InfrastructureEstimate,
+  InfrastructureResult,
+  InfrastructureSettings,
+  SourceBreakdown,
+} from './types.ts';
+
+const GIGABYTES_PER_TERABYTE = 1_024;
+const MONTHS_PER_YEAR = 12;
+
+export const getIngestionMethod = (source: SourceEndpoint): IngestionMethod =>
+  source.ingestionMethod ??
+  (source.trafficCategory ? DEFAULT_INGESTION_METHODS[source.trafficCategory] : FALLBACK_INGESTION_METHOD);
+
+const sizeCollectors = (
+  profile: CollectorProfile,
+  sourceIds: string[],
+  dailyTerabytes: number,
+  egressTerabytes: number,
+  peakToAverageRatio: number,
+  peakEventsPerSecond: number,
+  hosted: boolean,
+): CollectorSizing => {
+  const nodes =
+    hosted && dailyTerabytes > 0
+      ? Math.max(profile.minimumNodes, Math.ceil(peakEventsPerSecond / profile.eventsPerSecondPerNode))
+      : 0;
+  const computeAnnual = nodes * profile.annualCostPerNode;
+  const storageAnnual = hosted
+    ? ((dailyTerabytes * GIGABYTES_PER_TERABYTE * profile.bufferHours) / 24) *
+      profile.bufferStoragePerGbMonth *
+      MONTHS_PER_YEAR
+    : 0;
+  const egressAnnual = egressTerabytes * GIGABYTES_PER_TERABYTE * profile.egressPerGb * DAYS_PER_YEAR;
+  return {
+    profile,
+    sourceIds,
+    dailyTerabytes,
+    peakToAverageRatio,
+    peakEventsPerSecond,
+    nodes,
+    computeAnnual,
+    storageAnnual,
+    egressAnnual,
+    annualCost: computeAnnual + storageAnnual + egressAnnual,
+  };
+};
+
+const summarize = (collectors: CollectorSizing[]): InfrastructureEstimate => {
+  const sum = (pick: (row: CollectorSizing) => number) => collectors.reduce((total, row) => total + pick(row), 0);
+  return {
+    collectors,
+    computeAnnual: sum((row) => row.computeAnnual),
+    storageAnnual: sum((row) => row.storageAnnual),
+    egressAnnual: sum((row) => row.egressAnnual),
+    annualCost: sum((row) => row.annualCost),
+  };
+};
+
+/**
+ * Sizes the collectors each ingestion method needs from its sources' raw volume and peak EPS.
+ * Peaks come from the blended traffic shape of each method's sources unless a ratio is given.
+ * Without Realm the customer hosts every collector and pays egress on the raw cloud volume. With
+ * Realm, syslog collectors stay on the customer's network, while cloud pullers run inside Realm's
+ * all-in price and only the optimized volume leaves the provider.
+ */
+export const estimateInfrastructure = (
+  sourceBreakdown: SourceBreakdown[],
+  { averageEventSizeKb, peakToAverageRatio }: InfrastructureSettings,
+): InfrastructureResult => {
+  const groups = new Map<IngestionMethod, SourceBreakdown[]>();
+  for (const row of sourceBreakdown) {
+    const method = getIngestionMethod(row.source);
+    groups.set(method, [...(groups.get(method) ?? []), row]);
+  }
+
+  const baseline: CollectorSizing[] = [];
+  const realm: CollectorSizing[] = [];
+  for (const [method, rows] of groups) {
+    const profile = collectorProfiles[method];
+    const sourceIds = rows.map((row) => row.source.id);
+    const rawTerabytes = rows.reduce((sum, row) => sum + row.dailyTerabytes, 0);
+    const optimizedTerabytes = rows.reduce((sum, row) => sum + row.optimizedTerabytes, 0);
+    const ratio = peakToAverageRatio ?? combineTrafficShapes(rows).peakToAverageRatio;
+    const peak = getAverageEventsPerSecond(rawTerabytes, averageEventSizeKb) * ratio;
+    baseline.push(sizeCollectors(profile, sourceIds, rawTerabytes, rawTerabytes, ratio, peak, true));
+    realm.push(
+      sizeCollectors(profile, sourceIds, rawTerabytes, optimizedTerabytes, ratio, peak, !profile.realmHosted),
+    );
+  }
+
+  const scenarioRatio = peakToAverageRatio ?? combineTrafficShapes(sourceBreakdown).peakToAverageRatio;
+  const totalTerabytes = sourceBreakdown.reduce((sum, row) => sum + row.dailyTerabytes, 0);
+  return {
+    averageEventSizeKb,
+    peakToAverageRatio: scenarioRatio,
+    peakEventsPerSecond: getAverageEventsPerSecond(totalTerabytes, averageEventSizeKb) * scenarioRatio,
+    baseline: summarize(baseline),
+    realm: summarize(realm),
+  };
+};
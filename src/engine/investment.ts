@@ -0,0 +1,142 @@
+import { calculate } from './calculate.ts';
+import { REALM_BILLING_INCREMENT_TB, REALM_MIN_BILLED_TB } from './constants.ts';
+import { getLinearPricingThreshold } from './destination-pricing.ts';
+import { projectScenario } from './projection.ts';
+import type {
+  ImplementationCosts,
+  InvestmentAnalysis,
+  InvestmentSettings,
+  ProjectionSettings,
+  ScenarioInput,
+} from './types.ts';
+
+export const DEFAULT_DISCOUNT_RATE = 0.08;
+const MONTHS_PER_YEAR = 12;
+// Upper bound for the break-even search; well beyond any estate the calculator is sized for.
+const MAX_BREAK_EVEN_TERABYTES = 1_000;
+const BREAK_EVEN_PRECISION_TB = 0.001;
+// Offset that lands just past a billing edge, where Realm has already stepped up to the next increment.
+const EDGE_OFFSET_TB = 1e-6;
+
+export const getOneTimeCost = ({ onboarding, collectorInfrastructure, migration }: ImplementationCosts): number =>
+  Math.max(0, onboarding) + Math.max(0, collectorInfrastructure) + Math.max(0, migration);
+
+const getAnnualSavingsAt = (input: ScenarioInput, dailyTerabytes: number): number =>
+  calculate({ ...input, dailyTerabytes }).annualSavings;
+
+// Billing step 0 covers the Realm minimum; each later step adds one billing increment.
+const getStepEnd = (step: number): number => REALM_MIN_BILLED_TB + step * REALM_BILLING_INCREMENT_TB;
+const getStepStart = (step: number): number => (step === 0 ? 0 : getStepEnd(step - 1)) + EDGE_OFFSET_TB;
+
+const bisectBreakEven = (input: ScenarioInput, losing: number, saving: number): number => {
+  let low = losing;
+  let high = saving;
+  while (high - low > BREAK_EVEN_PRECISION_TB) {
+    const middle = (low + high) / 2;
+    if (getAnnualSavingsAt(input, middle) >= 0) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return high;
+};
+
+/**
+ * The raw volume above which Realm saves money at every volume, 0 when it saves at any volume,
+ * or null when it never keeps saving. Realm bills a flat amount per billing increment, so savings
+ * dip just past each edge. Once the destination bills linearly, those dips move by the same
+ * amount every step: two of them show whether savings recover (and where, solved directly) or
+ * keep falling. Below that point the destination's minimums, bands, and allowances can make
+ * savings rise and fall, so the steps there are checked from the top down for the last loss.
+ */
+export const findBreakEvenDailyTerabytes = (input: ScenarioInput): number | null => {
+  const threshold = getLinearPricingThreshold(input.destination, input.employeeCount);
+  const linearStep = Math.max(0, Math.ceil((threshold - REALM_MIN_BILLED_TB) / REALM_BILLING_INCREMENT_TB)) + 1;
+  const linearDip = getAnnualSavingsAt(input, getStepStart(linearStep));
+  const dipChange = getAnnualSavingsAt(input, getStepStart(linearStep + 1)) - linearDip;
+
+  if (linearDip < 0) {
+    if (dipChange <= 0) {
+      return null;
+    }
+    let step = linearStep + Math.max(1, Math.ceil(-linearDip / dipChange)) - 1;
+    while (step > linearStep && getAnnualSavingsAt(input, getStepStart(step)) >= 0) {
+      step -= 1;
+    }
+    while (getAnnualSavingsAt(input, getStepStart(step + 1)) < 0) {
+      step += 1;
+      if (getStepStart(step) > MAX_BREAK_EVEN_TERABYTES) {
+        return null;
+      }
+    }
+    return bisectBreakEven(input, getStepStart(step), getStepEnd(step));
+  }
+  if (dipChange < 0) {
+    return null;
+  }
+
+  let saving = getStepStart(linearStep);
+  for (let step = linearStep - 1; step >= 0; step -= 1) {
+    for (const volume of [getStepEnd(step), getStepStart(step)]) {
+      if (getAnnualSavingsAt(input, volume) < 0) {
+        return bisectBreakEven(input, volume, saving);
+      }
+      saving = volume;
+    }
+  }
+  return 0;
+};
+
+const getPaybackMonths = (oneTimeCost: number, annualSavingsByYear: number[]): number | null => {
+  if (oneTimeCost <= 0) {
+    return 0;
+  }
+
+  let remaining = oneTimeCost;
+  for (const [index, annualSavings] of annualSavingsByYear.entries()) {
+    const monthlySavings = annualSavings / MONTHS_PER_YEAR;
+    if (monthlySavings > 0 && remaining <= annualSavings) {
+      return index * MONTHS_PER_YEAR + remaining / monthlySavings;
+    }
+    remaining -= annualSavings;
+  }
+
+  // Past the horizon, assume the final year's savings continue.
+  const finalAnnualSavings = annualSavingsByYear[annualSavingsByYear.length - 1] ?? 0;
+  return finalAnnualSavings > 0
+    ? annualSavingsByYear.length * MONTHS_PER_YEAR + (remaining / finalAnnualSavings) * MONTHS_PER_YEAR
+    : null;
+};
+
+/**
+ * Layers one-time implementation costs on top of the projection: payback in months, NPV at the
+ * discount rate (savings discounted at each year end), and the break-even daily volume. The
+ * break-even does not depend on `input.dailyTerabytes`, so a caller that already solved it for
+ * this scenario can pass it in and skip the search.
+ */
+export const analyzeInvestment = (
+  input: ScenarioInput,
+  projectionSettings: ProjectionSettings,
+  { implementationCosts, discountRate }: InvestmentSettings,
+  breakEvenDailyTerabytes: number | null = findBreakEvenDailyTerabytes(input),
+): InvestmentAnalysis => {
+  const oneTimeCost = getOneTimeCost(implementationCosts);
+  const projection = projectScenario(input, projectionSettings);
+  const annualSavingsByYear = projection.years.map((year) => year.annualSavings);
+  const rate = Math.max(-0.99, discountRate);
+  const discountedSavings = annualSavingsByYear.reduce(
+    (sum, annualSavings, index) => sum + annualSavings / (1 + rate) ** (index + 1),
+    0,
+  );
+
+  return {
+    implementationCosts,
+    oneTimeCost,
+    paybackMonths: getPaybackMonths(oneTimeCost, annualSavingsByYear),
+    netPresentValue: discountedSavings - oneTimeCost,
+    discountRate: rate,
+    years: projection.years.length,
+    breakEvenDailyTerabytes,
+  };
+};
@@ -0,0 +1,68 @@
+import { calculate, getRealmSideAnnual } from './calculate.ts';
+import type { ProjectionSettings, ScenarioInput, ScenarioProjection } from './types.ts';
+
+export const PROJECTION_HORIZONS = [1, 3, 5] as const;
+export const DEFAULT_ANNUAL_GROWTH_RATE = 0.2;
+export const DEFAULT_SIEM_PRICE_ESCALATOR = 0.05;
+
+/**
+ * Projects the scenario across a multi-year horizon. Daily volume compounds by the growth rate,
+ * the SIEM list price compounds by the escalator, and Realm stays at its contracted rate. Extended
+ * retention on the optimized volume is still billed by the SIEM, so it escalates too.
+ */
+export const projectScenario = (
+  input: ScenarioInput,
+  { years, annualGrowthRate, siemPriceEscalator }: ProjectionSettings,
+): ScenarioProjection => {
+  const horizon = Math.max(1, Math.round(years));
+  const growthRate = Math.max(-0.99, annualGrowthRate);
+  const escalator = Math.max(-0.99, siemPriceEscalator);
+
+  let cumulativeStandard = 0;
+  let cumulativeRealm = 0;
+  let cumulativeArchive = 0;
+  let cumulativeRetention = 0;
+  let cumulativeInfrastructure = 0;
+  const projectedYears = Array.from({ length: horizon }, (_, index) => {
+    const dailyTerabytes = input.dailyTerabytes * (1 + growthRate) ** index;
+    const yearResult = calculate({ ...input, dailyTerabytes });
+    const priceFactor = (1 + escalator) ** index;
+    // Only the SIEM charges escalate; collectors the customer hosts stay flat on both sides.
+    const baselineInfrastructure = yearResult.infrastructure?.baseline.annualCost ?? 0;
+    const standardAnnual = (yearResult.standardAnnual - baselineInfrastructure) * priceFactor + baselineInfrastructure;
+    const retentionAnnual = yearResult.retentionAnnual * priceFactor;
+    const { realmAnnual, archiveAnnual, infrastructureAnnual } = yearResult;
+    cumulativeStandard += standardAnnual;
+    cumulativeRealm += realmAnnual;
+    cumulativeArchive += archiveAnnual;
+    cumulativeRetention += retentionAnnual;
+    cumulativeInfrastructure += infrastructureAnnual;
+
+    return {
+      year: index + 1,
+      dailyTerabytes: yearResult.baselineTerabytes,
+      optimizedTerabytes: yearResult.optimizedTerabytes,
+      standardAnnual,
+      realmAnnual,
+      archiveAnnual,
+      retentionAnnual,
+      infrastructureAnnual,
+      annualSavings: standardAnnual - getRealmSideAnnual({ ...yearResult, retentionAnnual }),
+      cumulativeSavings:
+        cumulativeStandard - cumulativeRealm - cumulativeArchive - cumulativeRetention - cumulativeInfrastructure,
+    };
+  });
+
+  return {
+    years: projectedYears,
+    annualGrowthRate: growthRate,
+    siemPriceEscalator: escalator,
+    totalStandard: cumulativeStandard,
+    totalRealm: cumulativeRealm,
+    totalArchive: cumulativeArchive,
+    totalRetention: cumulativeRetention,
+    totalInfrastructure: cumulativeInfrastructure,
+    totalSavings:
+      cumulativeStandard - cumulativeRealm - cumulativeArchive - cumulativeRetention - cumulativeInfrastructure,
+  };
+};
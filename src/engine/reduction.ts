@@ -0,0 +1,245 @@
+import type { SourceEndpoint, TrafficCategory } from '../data/catalog.ts';
+import type { CalibrationAssignments } from './calibration.ts';
+import { MAX_REALM_OPTIMIZATION } from './constants.ts';
+import type {
+  CombinedSourceMetrics,
+  ReductionTechnique,
+  SourceAllocation,
+  SourceBreakdown,
+  TechniqueContribution,
+  ValueRange,
+} from './types.ts';
+
+const FIREWALL_REDUCTION = 0.7;
+const GENERIC_REDUCTION = 0.5;
+const FIREWALL_KEYWORDS = ['firewall', 'ips', 'ids', 'ngfw', 'fortigate', 'asa', 'palo alto'];
+// Web application firewalls kept the firewall heuristic when WAF/CDN split out of network-security.
+const WAF_KEYWORDS = ['waf', ...FIREWALL_KEYWORDS];
+
+// Half-width of each reduction band. Firewall noise is the most predictable; catch-all sources
+// vary the most between deployments. Calibrated scenarios come from observed customer data.
+const FIREWALL_REDUCTION_SPREAD = 0.1;
+const GENERIC_REDUCTION_SPREAD = 0.15;
+export const CALIBRATED_REDUCTION_SPREAD = 0.03;
+
+interface CategoryReduction {
+  expected: number;
+  spread: number;
+}
+
+// Fixed heuristics for categories whose records are repetitive enough to predict. Categories split
+// out of network-security and endpoint-edr keep the band their sources had before the split until
+// measured data says otherwise; email security stays on the catalog factor like other SaaS feeds.
+// Categories without an entry use the catalog factor floored at GENERIC_REDUCTION.
+const CATEGORY_REDUCTIONS: Partial<Record<TrafficCategory, CategoryReduction>> = {
+  'network-security': { expected: 0.6, spread: 0.12 },
+  'endpoint-edr': { expected: 0.5, spread: 0.12 },
+  'dns-ddi': { expected: 0.6, spread: 0.12 },
+  'proxy-swg': { expected: 0.6, spread: 0.12 },
+  'waf-cdn': { expected: 0.6, spread: 0.12 },
+  'windows-events': { expected: 0.5, spread: 0.12 },
+};
+
+type TechniqueMix = Partial<Record<ReductionTechnique, number>>;
+
+// Share of a source's reduction each technique delivers, by traffic profile (each mix sums to 1).
+// Firewalls repeat the same verbose allow/deny records, so pruning and dedupe dominate; cloud and
+// SaaS feeds carry bulk records that are better kept in an archive than searched.
+const FIREWALL_TECHNIQUE_MIX: TechniqueMix = {
+  'field-pruning': 0.55,
+  deduplication: 0.35,
+  'noise-filtering': 0.1,
+};
+const CATEGORY_TECHNIQUE_MIX: Record<TrafficCategory, TechniqueMix> = {
+  'network-security': { 'field-pruning': 0.4, deduplication: 0.25, aggregation: 0.2, 'noise-filtering': 0.15 },
+  'endpoint-edr': { 'field-pruning': 0.4, deduplication: 0.3, 'noise-filtering': 0.3 },
+  identity: { 'field-pruning': 0.45, deduplication: 0.35, 'noise-filtering': 0.2 },
+  'cloud-infrastructure': {
+    'field-pruning': 0.35,
+    aggregation: 0.25,
+    'archive-routing': 0.25,
+    deduplication: 0.15,
+  },
+  'saas-business': {
+    'field-pruning': 0.35,
+    'noise-filtering': 0.25,
+    'archive-routing': 0.2,
+    deduplication: 0.2,
+  },
+  'email-security': {
+    'field-pruning': 0.4,
+    deduplication: 0.3,
+    'noise-filtering': 0.2,
+    'archive-routing': 0.1,
+  },
+  'dns-ddi': { deduplication: 0.45, aggregation: 0.3, 'field-pruning': 0.15, 'noise-filtering': 0.1 },
+  'waf-cdn': { 'field-pruning': 0.4, 'noise-filtering': 0.25, aggregation: 0.2, deduplication: 0.15 },
+  'proxy-swg': { 'field-pruning': 0.35, 'noise-filtering': 0.3, aggregation: 0.2, deduplication: 0.15 },
+  'windows-events': { 'field-pruning': 0.5, 'noise-filtering': 0.3, deduplication: 0.2 },
+};
+const DEFAULT_TECHNIQUE_MIX: TechniqueMix = {
+  'field-pruning': 0.4,
+  deduplication: 0.3,
+  'noise-filtering': 0.2,
+  aggregation: 0.1,
+};
+
+const matchesKeyword = (endpoint: SourceEndpoint, keywords: readonly string[]): boolean => {
+  const normalizedLabel = `${endpoint.label} ${endpoint.id}`.toLowerCase();
+  return keywords.some((keyword) => normalizedLabel.includes(keyword));
+};
+
+const isFirewallSource = (endpoint: SourceEndpoint): boolean =>
+  endpoint.trafficCategory === 'network-security' && matchesKeyword(endpoint, FIREWALL_KEYWORDS);
+
+// Firewall-level reduction and band. WAFs take the WAF/CDN technique mix, so this is separate
+// from isFirewallSource.
+const hasFirewallReduction = (endpoint: SourceEndpoint): boolean =>
+  isFirewallSource(endpoint) || (endpoint.trafficCategory === 'waf-cdn' && matchesKeyword(endpoint, WAF_KEYWORDS));
+
+export const getFixedReduction = (endpoint: SourceEndpoint): number => {
+  if (endpoint.realmReduction.basis === 'user-supplied') {
+    return clampReduction(endpoint.realmReduction.factor);
+  }
+
+  if (hasFirewallReduction(endpoint)) {
+    return FIREWALL_REDUCTION;
+  }
+
+  const categoryReduction = endpoint.trafficCategory && CATEGORY_REDUCTIONS[endpoint.trafficCategory];
+  if (categoryReduction) {
+    return categoryReduction.expected;
+  }
+
+  return Math.max(GENERIC_REDUCTION, Math.min(MAX_REALM_OPTIMIZATION, endpoint.realmReduction.factor));
+};
+
+const clampReduction = (value: number): number => Math.min(MAX_REALM_OPTIMIZATION, Math.max(0, value));
+
+export const buildReductionRange = (expected: number, spread: number): ValueRange => {
+  const clampedExpected = clampReduction(expected);
+  return {
+    low: clampReduction(clampedExpected - spread),
+    expected: clampedExpected,
+    high: clampReduction(clampedExpected + spread),
+  };
+};
+
+const getReductionSpread = (endpoint: SourceEndpoint): number => {
+  if (hasFirewallReduction(endpoint)) {
+    return FIREWALL_REDUCTION_SPREAD;
+  }
+
+  const categoryReduction = endpoint.trafficCategory && CATEGORY_REDUCTIONS[endpoint.trafficCategory];
+  return categoryReduction ? categoryReduction.spread : GENERIC_REDUCTION_SPREAD;
+};
+
+export const getReductionRange = (endpoint: SourceEndpoint): ValueRange =>
+  buildReductionRange(getFixedReduction(endpoint), getReductionSpread(endpoint));
+
+/** Uses the matched calibration's measured reduction when there is one, else the heuristic band. */
+export const getSourceReductionRange = (
+  endpoint: SourceEndpoint,
+  calibrations?: CalibrationAssignments,
+): ValueRange => {
+  const calibration = calibrations?.get(endpoint.id);
+  return calibration
+    ? buildReductionRange(calibration.measuredReduction, CALIBRATED_REDUCTION_SPREAD)
+    : getReductionRange(endpoint);
+};
+
+const getTechniqueMix = (endpoint: SourceEndpoint): TechniqueMix => {
+  if (isFirewallSource(endpoint)) {
+    return FIREWALL_TECHNIQUE_MIX;
+  }
+  return endpoint.trafficCategory ? CATEGORY_TECHNIQUE_MIX[endpoint.trafficCategory] : DEFAULT_TECHNIQUE_MIX;
+};
+
+const sortContributions = (contributions: TechniqueContribution[]): TechniqueContribution[] =>
+  contributions.filter((entry) => entry.reduction > 0).sort((a, b) => b.reduction - a.reduction);
+
+/**
+ * Splits a source's reduction across techniques using its traffic profile's mix. Calibrated
+ * sources reuse the same mix, scaled to the measured total.
+ */
+export const getTechniqueBreakdown = (endpoint: SourceEndpoint, reduction: number): TechniqueContribution[] =>
+  sortContributions(
+    Object.entries(getTechniqueMix(endpoint)).map(([technique, weight]) => ({
+      technique: technique as ReductionTechnique,
+      reduction: reduction * (weight ?? 0),
+    })),
+  );
+
+/** Volume-weighted technique split across breakdown rows. */
+export const combineTechniqueBreakdowns = (
+  rows: Pick<SourceBreakdown, 'share' | 'techniques'>[],
+): TechniqueContribution[] => {
+  const totals = new Map<ReductionTechnique, number>();
+  for (const row of rows) {
+    for (const entry of row.techniques) {
+      totals.set(entry.technique, (totals.get(entry.technique) ?? 0) + entry.reduction * row.share);
+    }
+  }
+  return sortContributions([...totals].map(([technique, reduction]) => ({ technique, reduction })));
+};
+
+/**
+ * Splits the scenario's daily volume across sources. Missing or non-positive weights take the
+ * mean of the positive ones (an even split when none are positive), so a partially filled
+ * allocation never drops a selected source.
+ */
+export const allocateSourceVolumes = (
+  selectedSources: SourceEndpoint[],
+  dailyTerabytes: number,
+  sourceVolumes?: Record<string, number>,
+): SourceAllocation[] => {
+  if (selectedSources.length === 0) {
+    return [];
+  }
+
+  const givenWeights = selectedSources.map((source) => {
+    const weight = sourceVolumes?.[source.id];
+    return typeof weight === 'number' && Number.isFinite(weight) && weight > 0 ? weight : null;
+  });
+  const positiveWeights = givenWeights.filter((weight): weight is number => weight !== null);
+  const fallbackWeight =
+    positiveWeights.length > 0
+      ? positiveWeights.reduce((sum, weight) => sum + weight, 0) / positiveWeights.length
+      : 1;
+  const weights = givenWeights.map((weight) => weight ?? fallbackWeight);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const total = Math.max(0, dailyTerabytes);
+
+  return selectedSources.map((source, index) => {
+    const share = weights[index] / totalWeight;
+    return { source, share, dailyTerabytes: total * share };
+  });
+};
+
+export const summarizeSources = (
+  selectedSources: SourceEndpoint[],
+  sourceVolumes?: Record<string, number>,
+  calibrations?: CalibrationAssignments,
+): CombinedSourceMetrics => {
+  if (selectedSources.length === 0) {
+    throw new Error('At least one source must be provided for calculation.');
+  }
+
+  // Weight each source's reduction by its share of volume rather than a flat average, so several
+  // matching calibrations blend by the volume they cover. Bands are blended the same way, which
+  // assumes sources miss (or beat) their estimates together.
+  const allocations = allocateSourceVolumes(selectedSources, 1, sourceVolumes);
+  const reductionRange = allocations.reduce<ValueRange>(
+    (accumulator, allocation) => {
+      const range = getSourceReductionRange(allocation.source, calibrations);
+      return {
+        low: accumulator.low + range.low * allocation.share,
+        expected: accumulator.expected + range.expected * allocation.share,
+        high: accumulator.high + range.high * allocation.share,
+      };
+    },
+    { low: 0, expected: 0, high: 0 },
+  );
+
+  return { realmOptimization: reductionRange.expected, reductionRange };
+};
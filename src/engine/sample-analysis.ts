@@ -0,0 +1,464 @@
+import type { SourceEndpoint } from '../data/catalog.ts';
+import { MAX_REALM_OPTIMIZATION } from './constants.ts';
+import type { SampleFieldProfile, SampleFieldStatus, SampleLogAnalysis, SampleLogFormat } from './types.ts';
+
+/** Events read from a sample; the rest of a larger file is ignored. */
+export const SAMPLE_EVENT_LIMIT = 10_000;
+// Below this many events a field that repeats or differs every time may just be a small sample,
+// so constant and unique fields (and therefore dedupe) are not inferred.
+const MIN_PROFILED_EVENTS = 10;
+
+export const SAMPLE_LOG_FORMAT_LABELS: Record<SampleLogFormat, string> = {
+  json: 'JSON',
+  'json-lines': 'JSON lines',
+  syslog: 'syslog',
+  cef: 'CEF',
+  leef: 'LEEF',
+  csv: 'CSV',
+};
+
+// Serialization overhead per field: quotes, colon, and comma in JSON; `=` and a separator in
+// key=value formats; a delimiter for positional headers and CSV columns.
+const JSON_FIELD_OVERHEAD_BYTES = 4;
+const KEY_VALUE_OVERHEAD_BYTES = 2;
+const POSITIONAL_OVERHEAD_BYTES = 1;
+const EMPTY_VALUES = new Set(['', '-', 'null', 'undefined', 'n/a', '[]', '{}']);
+
+const CEF_HEADER_FIELDS = [
+  'cefVersion',
+  'deviceVendor',
+  'deviceProduct',
+  'deviceVersion',
+  'signatureId',
+  'name',
+  'severity',
+];
+const LEEF_HEADER_FIELDS = ['leefVersion', 'vendor', 'product', 'productVersion', 'eventId'];
+const RFC5424_PATTERN = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[.*?\])+) ?(.*)$/;
+const RFC3164_PATTERN = /^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}) (\S+) ([^:[\s]+)(?:\[(\d+)\])?: ?(.*)$/;
+const KEY_VALUE_PATTERN = /([\w.-]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+const CEF_EXTENSION_PATTERN = /([\w.]+)=((?:[^=\\]|\\.)*?)(?=\s+[\w.]+=|\s*$)/g;
+
+interface SampleField {
+  name: string;
+  value: string;
+  bytes: number;
+}
+
+interface SampleEvent {
+  bytes: number;
+  fields: SampleField[];
+}
+
+interface ParsedSample {
+  events: SampleEvent[];
+  skippedCount: number;
+  truncated: boolean;
+}
+
+const encoder = new TextEncoder();
+const byteLength = (value: string): number => encoder.encode(value).length;
+
+const isEmptyValue = (value: string): boolean => EMPTY_VALUES.has(value.trim().toLowerCase());
+
+const keyValueField = (name: string, value: string): SampleField => ({
+  name,
+  value,
+  bytes: byteLength(name) + byteLength(value) + KEY_VALUE_OVERHEAD_BYTES,
+});
+
+const positionalField = (name: string, value: string): SampleField => ({
+  name,
+  value,
+  bytes: byteLength(value) + POSITIONAL_OVERHEAD_BYTES,
+});
+
+const readLines = (text: string): { lines: string[]; truncated: boolean } => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  return { lines: lines.slice(0, SAMPLE_EVENT_LIMIT), truncated: lines.length > SAMPLE_EVENT_LIMIT };
+};
+
+const parseLines = (text: string, parseLine: (line: string) => SampleField[] | null): ParsedSample => {
+  const { lines, truncated } = readLines(text);
+  const events: SampleEvent[] = [];
+  let skippedCount = 0;
+  for (const line of lines) {
+    const fields = parseLine(line.trim());
+    if (fields) {
+      events.push({ bytes: byteLength(line.trim()), fields });
+    } else {
+      skippedCount += 1;
+    }
+  }
+  return { events, skippedCount, truncated };
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+const flattenJson = (value: unknown, path: string, fields: SampleField[]): void => {
+  if (isJsonObject(value) && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenJson(child, path ? `${path}.${key}` : key, fields);
+    }
+    return;
+  }
+  const text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  const key = path.slice(path.lastIndexOf('.') + 1);
+  fields.push({ name: path, value: text, bytes: byteLength(key) + byteLength(text) + JSON_FIELD_OVERHEAD_BYTES });
+};
+
+const toJsonEvent = (value: Record<string, unknown>): SampleEvent => {
+  const fields: SampleField[] = [];
+  flattenJson(value, '', fields);
+  // Pretty-printed documents are measured compacted, the way a collector ships them.
+  return { bytes: byteLength(JSON.stringify(value)), fields };
+};
+
+const parseJsonLine = (line: string): SampleField[] | null => {
+  try {
+    const value: unknown = JSON.parse(line);
+    return isJsonObject(value) ? toJsonEvent(value).fields : null;
+  } catch {
+    return null;
+  }
+};
+
+const parseJsonDocument = (text: string): ParsedSample => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The sample looks like JSON but could not be parsed: ${(error as Error).message}`);
+  }
+  const items = Array.isArray(document) ? document : [document];
+  const objects = items.filter(isJsonObject);
+  return {
+    events: objects.slice(0, SAMPLE_EVENT_LIMIT).map(toJsonEvent),
+    skippedCount: items.length - objects.length,
+    truncated: objects.length > SAMPLE_EVENT_LIMIT,
+  };
+};
+
+const unquote = (value: string): string =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).replace(/\\"/g, '"') : value;
+
+const parseSyslogMessage = (message: string): SampleField[] => {
+  const pairs = [...message.matchAll(KEY_VALUE_PATTERN)].map((match) => keyValueField(match[1], unquote(match[2])));
+  // Key=value payloads (FortiGate, Palo Alto, Zscaler) are profiled per key; free text stays one field.
+  return pairs.length >= 2 ? pairs : [keyValueField('message', message)];
+};
+
+const parseSyslogLine = (line: string): SampleField[] => {
+  const rfc5424 = RFC5424_PATTERN.exec(line);
+  if (rfc5424) {
+    const [, priority, timestamp, hostname, app, procId, msgId, structuredData, message] = rfc5424;
+    return [
+      positionalField('priority', priority),
+      positionalField('timestamp', timestamp),
+      positionalField('hostname', hostname),
+      positionalField('app', app),
+      positionalField('procId', procId),
+      positionalField('msgId', msgId),
+      positionalField('structuredData', structuredData),
+      ...parseSyslogMessage(message),
+    ];
+  }
+  const rfc3164 = RFC3164_PATTERN.exec(line);
+  if (rfc3164) {
+    const [, priority = '', timestamp, hostname, tag, pid = '', message] = rfc3164;
+    return [
+      positionalField('priority', priority),
+      positionalField('timestamp', timestamp),
+      positionalField('hostname', hostname),
+      positionalField('tag', tag),
+      positionalField('pid', pid),
+      ...parseSyslogMessage(message),
+    ];
+  }
+  return parseSyslogMessage(line.replace(/^<\d{1,3}>/, ''));
+};
+
+const parseCefLine = (line: string): SampleField[] | null => {
+  const start = line.indexOf('CEF:');
+  if (start < 0) {
+    return null;
+  }
+  const parts = line.slice(start + 'CEF:'.length).split(/(?<!\\)\|/);
+  if (parts.length < CEF_HEADER_FIELDS.length + 1) {
+    return null;
+  }
+  const prefix = line.slice(0, start).trim();
+  const extension = parts.slice(CEF_HEADER_FIELDS.length).join('|');
+  return [
+    ...(prefix ? [positionalField('syslogHeader', prefix)] : []),
+    ...CEF_HEADER_FIELDS.map((name, index) => positionalField(name, parts[index].replace(/\\\|/g, '|'))),
+    ...[...extension.matchAll(CEF_EXTENSION_PATTERN)].map((match) =>
+      keyValueField(match[1], match[2].trim().replace(/\\=/g, '=')),
+    ),
+  ];
+};
+
+const decodeLeefDelimiter = (spec: string): string => {
+  const hex = /^(?:0x|x)([0-9a-f]{1,4})$/i.exec(spec);
+  return hex ? String.fromCharCode(Number.parseInt(hex[1], 16)) : spec || '\t';
+};
+
+const parseLeefLine = (line: string): SampleField[] | null => {
+  const start = line.indexOf('LEEF:');
+  if (start < 0) {
+    return null;
+  }
+  const parts = line.slice(start + 'LEEF:'.length).split('|');
+  if (parts.length < LEEF_HEADER_FIELDS.length + 1) {
+    return null;
+  }
+  // LEEF 2.0 names its attribute delimiter in a sixth header field; 1.0 always uses tabs.
+  const isVersion2 = parts[0].startsWith('2');
+  const delimiter = isVersion2 ? decodeLeefDelimiter(parts[5]) : '\t';
+  const attributes = parts.slice(LEEF_HEADER_FIELDS.length + (isVersion2 ? 1 : 0)).join('|');
+  const prefix = line.slice(0, start).trim();
+  return [
+    ...(prefix ? [positionalField('syslogHeader', prefix)] : []),
+    ...LEEF_HEADER_FIELDS.map((name, index) => positionalField(name, parts[index])),
+    ...attributes.split(delimiter).flatMap((pair) => {
+      const separator = pair.indexOf('=');
+      return separator > 0 ? [keyValueField(pair.slice(0, separator).trim(), pair.slice(separator + 1))] : [];
+    }),
+  ];
+};
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+const parseCsv = (text: string): ParsedSample => {
+  const [headerLine = '', ...rows] = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const header = splitCsvLine(headerLine).map((name) => name.trim());
+  // The header row is not an event, so it does not count toward the limit.
+  return parseLines(rows.join('\n'), (line) => {
+    const cells = splitCsvLine(line);
+    return cells.length === header.length ? header.map((name, index) => positionalField(name, cells[index])) : null;
+  });
+};
+
+const PARSERS: Record<SampleLogFormat, (text: string) => ParsedSample> = {
+  json: parseJsonDocument,
+  'json-lines': (text) => parseLines(text, parseJsonLine),
+  syslog: (text) => parseLines(text, parseSyslogLine),
+  cef: (text) => parseLines(text, parseCefLine),
+  leef: (text) => parseLines(text, parseLeefLine),
+  csv: parseCsv,
+};
+
+/**
+ * Guesses the format from the first lines: a JSON document or one object per line, CEF or LEEF
+ * headers, RFC 5424/3164 syslog headers, or comma-separated rows under a header. Anything else is
+ * read as syslog-style message lines.
+ */
+export const detectSampleFormat = (text: string): SampleLogFormat => {
+  const lines = text.trim().split(/\r?\n/, 2);
+  const firstLine = lines[0] ?? '';
+  if (firstLine.startsWith('[')) {
+    return 'json';
+  }
+  if (firstLine.startsWith('{')) {
+    return parseJsonLine(firstLine) ? 'json-lines' : 'json';
+  }
+  if (/(?:^|\s)CEF:\d+\|/.test(firstLine)) {
+    return 'cef';
+  }
+  if (/(?:^|\s)LEEF:\d(?:\.\d)?\|/.test(firstLine)) {
+    return 'leef';
+  }
+  if (RFC5424_PATTERN.test(firstLine) || RFC3164_PATTERN.test(firstLine)) {
+    return 'syslog';
+  }
+  const columns = splitCsvLine(firstLine).length;
+  if (columns >= 2 && lines.length === 2 && splitCsvLine(lines[1]).length === columns) {
+    return 'csv';
+  }
+  return 'syslog';
+};
+
+interface FieldStats {
+  presentCount: number;
+  emptyCount: number;
+  emptyBytes: number;
+  totalBytes: number;
+  values: Set<string>;
+}
+
+const getFieldStatus = (stats: FieldStats, eventCount: number): SampleFieldStatus => {
+  const filled = stats.presentCount - stats.emptyCount;
+  if (filled === 0) {
+    return 'empty';
+  }
+  if (eventCount < MIN_PROFILED_EVENTS || filled < eventCount) {
+    return 'variable';
+  }
+  if (stats.values.size === 1) {
+    return 'constant';
+  }
+  return stats.values.size === filled ? 'unique' : 'variable';
+};
+
+/**
+ * Profiles a pasted or uploaded sample: the measured average event size, each field's presence,
+ * emptiness, and cardinality, and the reduction available from two techniques. Field pruning drops
+ * empty values and fields that carry the same value in every event. Dedupe collapses events that
+ * match an earlier one once unique fields (timestamps, ids) and pruned fields are set aside.
+ */
+export const analyzeSampleLog = (
+  text: string,
+  format: SampleLogFormat = detectSampleFormat(text),
+): SampleLogAnalysis => {
+  const { events, skippedCount, truncated } = PARSERS[format](text);
+  const label = SAMPLE_LOG_FORMAT_LABELS[format];
+  if (events.length === 0) {
+    throw new Error(`No ${label} events were found in the sample.`);
+  }
+
+  const eventCount = events.length;
+  const totalBytes = events.reduce((sum, event) => sum + event.bytes, 0);
+  const stats = new Map<string, FieldStats>();
+  for (const event of events) {
+    for (const field of event.fields) {
+      const entry = stats.get(field.name) ?? {
+        presentCount: 0,
+        emptyCount: 0,
+        emptyBytes: 0,
+        totalBytes: 0,
+        values: new Set<string>(),
+      };
+      entry.presentCount += 1;
+      entry.totalBytes += field.bytes;
+      if (isEmptyValue(field.value)) {
+        entry.emptyCount += 1;
+        entry.emptyBytes += field.bytes;
+      } else {
+        entry.values.add(field.value);
+      }
+      stats.set(field.name, entry);
+    }
+  }
+
+  const statuses = new Map([...stats].map(([name, entry]) => [name, getFieldStatus(entry, eventCount)]));
+  const isPruned = (field: SampleField): boolean =>
+    statuses.get(field.name) === 'constant' || isEmptyValue(field.value);
+  const isDedupeKey = (field: SampleField): boolean =>
+    statuses.get(field.name) === 'variable' && !isEmptyValue(field.value);
+
+  let prunableBytes = 0;
+  let duplicateBytes = 0;
+  let duplicateEvents = 0;
+  const seen = new Set<string>();
+  for (const event of events) {
+    const eventPrunable = Math.min(
+      event.bytes,
+      event.fields.reduce((sum, field) => sum + (isPruned(field) ? field.bytes : 0), 0),
+    );
+    prunableBytes += eventPrunable;
+    const keyFields = event.fields.filter(isDedupeKey).map((field) => `${field.name}\u0000${field.value}`);
+    if (eventCount < MIN_PROFILED_EVENTS || keyFields.length === 0) {
+      continue;
+    }
+    const key = keyFields.sort().join('\u0001');
+    if (seen.has(key)) {
+      duplicateEvents += 1;
+      duplicateBytes += event.bytes - eventPrunable;
+    } else {
+      seen.add(key);
+    }
+  }
+
+  const fields: SampleFieldProfile[] = [...stats]
+    .map(([name, entry]) => {
+      const status = statuses.get(name) ?? 'variable';
+      const filled = entry.presentCount - entry.emptyCount;
+      return {
+        name,
+        presentCount: entry.presentCount,
+        emptyCount: entry.emptyCount,
+        distinctValues: entry.values.size,
+        cardinality: filled > 0 ? entry.values.size / filled : 0,
+        averageBytes: entry.totalBytes / entry.presentCount,
+        status,
+        prunableShare: (status === 'constant' ? entry.totalBytes : entry.emptyBytes) / totalBytes,
+      };
+    })
+    .sort((a, b) => b.prunableShare - a.prunableShare || a.name.localeCompare(b.name));
+
+  const pruningReduction = Math.min(1, prunableBytes / totalBytes);
+  const dedupeReduction = duplicateBytes / totalBytes;
+  const warnings = [
+    ...(truncated ? [`Only the first ${SAMPLE_EVENT_LIMIT.toLocaleString()} events were analyzed.`] : []),
+    ...(skippedCount > 0
+      ? [`${skippedCount.toLocaleString()} entries could not be read as ${label} and were skipped.`]
+      : []),
+    ...(eventCount < MIN_PROFILED_EVENTS
+      ? [`Only ${eventCount} events; constant fields and duplicates need at least ${MIN_PROFILED_EVENTS} to detect.`]
+      : []),
+  ];
+
+  return {
+    format,
+    eventCount,
+    skippedCount,
+    truncated,
+    totalBytes,
+    averageEventSizeKb: totalBytes / eventCount / 1_024,
+    fields,
+    pruningReduction,
+    duplicateEvents,
+    dedupeReduction,
+    estimatedReduction: Math.min(MAX_REALM_OPTIMIZATION, pruningReduction + dedupeReduction),
+    warnings,
+  };
+};
+
+/**
+ * Returns `source` with its reduction replaced by the sample's estimate. The result carries the
+ * `user-supplied` basis, so `getFixedReduction` uses it as measured instead of the category heuristic.
+ */
+export const applySampleAnalysis = (
+  source: SourceEndpoint,
+  analysis: SampleLogAnalysis,
+  sampleName: string,
+): SourceEndpoint => {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  return {
+    ...source,
+    realmReduction: {
+      factor: analysis.estimatedReduction,
+      basis: 'user-supplied',
+      reference: `Measured from ${sampleName} (${analysis.eventCount.toLocaleString()} ${
+        SAMPLE_LOG_FORMAT_LABELS[analysis.format]
+      } events): ${percent(analysis.pruningReduction)} field pruning, ${percent(analysis.dedupeReduction)} dedupe.`,
+    },
+  };
+};
@@ -0,0 +1,138 @@
+import { adjustSavingsForReduction, calculate } from './calculate.ts';
+import { KB_PER_TERABYTE } from './constants.ts';
+import type {
+  ScenarioInput,
+  SimulationBin,
+  SimulationResult,
+  SimulationSettings,
+} from './types.ts';
+
+export const SIMULATION_ITERATION_OPTIONS = [10_000, 25_000, 50_000] as const;
+export const DEFAULT_SIMULATION_ITERATIONS = SIMULATION_ITERATION_OPTIONS[0];
+const DEFAULT_HISTOGRAM_BINS = 20;
+
+// Event sizes skew large (verbose EDR payloads, multi-line stack traces), so the sampled
+// distribution runs further above the recommendation than below it.
+const EVENT_SIZE_LOW_FACTOR = 0.75;
+const EVENT_SIZE_HIGH_FACTOR = 1.5;
+// Growth is sampled between flat volume and double the expected rate.
+const GROWTH_HIGH_FACTOR = 2;
+
+type RandomSource = () => number;
+
+/** Small seeded PRNG (mulberry32) so a given seed always reproduces the same distribution. */
+const createRandomSource = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+const sampleTriangular = (random: RandomSource, low: number, mode: number, high: number): number => {
+  if (high <= low) {
+    return mode;
+  }
+  const u = random();
+  const split = (mode - low) / (high - low);
+  return u < split
+    ? low + Math.sqrt(u * (high - low) * (mode - low))
+    : high - Math.sqrt((1 - u) * (high - low) * (high - mode));
+};
+
+const getPercentile = (sorted: number[], percentile: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(percentile * sorted.length) - 1));
+  return sorted[index];
+};
+
+const buildHistogram = (sorted: number[], binCount: number): SimulationBin[] => {
+  if (sorted.length === 0) {
+    return [];
+  }
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const bins = Math.max(1, Math.round(binCount));
+  const width = (max - min) / bins;
+  if (width === 0) {
+    return [{ from: min, to: max, count: sorted.length }];
+  }
+
+  const histogram = Array.from({ length: bins }, (_, index) => ({
+    from: min + index * width,
+    to: index === bins - 1 ? max : min + (index + 1) * width,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    histogram[Math.min(bins - 1, Math.floor((value - min) / width))].count += 1;
+  }
+  return histogram;
+};
+
+/**
+ * Samples per-source reduction, average event size, and first-year growth from triangular
+ * distributions and reports the spread of first-year annual savings. Reductions are drawn from
+ * each source's low/expected/high band; event size only moves volume when the scenario was
+ * entered as events per day; growth is applied at the midpoint of the first year.
+ */
+export const simulateScenario = (
+  input: ScenarioInput,
+  {
+    iterations,
+    annualGrowthRate,
+    averageEventSizeKb,
+    dailyEvents,
+    seed = Date.now(),
+    histogramBins = DEFAULT_HISTOGRAM_BINS,
+  }: SimulationSettings,
+): SimulationResult => {
+  const runs = Math.max(1, Math.round(iterations));
+  const expected = calculate(input);
+  const random = createRandomSource(seed);
+  const growthRate = Math.max(0, annualGrowthRate);
+  const savings = new Array<number>(runs);
+
+  for (let index = 0; index < runs; index += 1) {
+    const eventSizeKb = sampleTriangular(
+      random,
+      averageEventSizeKb * EVENT_SIZE_LOW_FACTOR,
+      averageEventSizeKb,
+      averageEventSizeKb * EVENT_SIZE_HIGH_FACTOR,
+    );
+    const baseTerabytes =
+      dailyEvents !== undefined ? (dailyEvents * eventSizeKb) / KB_PER_TERABYTE : input.dailyTerabytes;
+    const growth = sampleTriangular(random, 0, growthRate, growthRate * GROWTH_HIGH_FACTOR);
+    const dailyTerabytes = baseTerabytes * Math.sqrt(1 + growth);
+
+    const reduction = expected.sourceBreakdown.reduce(
+      (sum, row) =>
+        sum +
+        sampleTriangular(random, row.reductionRange.low, row.reductionRange.expected, row.reductionRange.high) *
+          row.share,
+      0,
+    );
+
+    savings[index] = adjustSavingsForReduction(calculate({ ...input, dailyTerabytes }), reduction);
+  }
+
+  const sorted = savings.sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  return {
+    iterations: runs,
+    seed,
+    p10: getPercentile(sorted, 0.1),
+    p50: getPercentile(sorted, 0.5),
+    p90: getPercentile(sorted, 0.9),
+    mean: total / runs,
+    min: sorted[0],
+    max: sorted[runs - 1],
+    probabilityOfSavings: sorted.filter((value) => value > 0).length / runs,
+    histogram: buildHistogram(sorted, histogramBins),
+  };
+};
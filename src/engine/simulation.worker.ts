@@ -0,0 +1,27 @@
+/**
+ * Runs `simulateScenario` off the main thread so large iteration counts never block input
+ * handling. Each request carries an id so the UI can drop results from superseded runs.
+ */
+import { simulateScenario } from './simulation.ts';
+import type { ScenarioInput, SimulationResult, SimulationSettings } from './types.ts';
+
+export interface SimulationRequest {
+  id: number;
+  input: ScenarioInput;
+  settings: SimulationSettings;
+}
+
+export type SimulationResponse =
+  | { id: number; ok: true; result: SimulationResult }
+  | { id: number; ok: false; error: string };
+
+self.addEventListener('message', (event: MessageEvent<SimulationRequest>) => {
+  const { id, input, settings } = event.data;
+  let response: SimulationResponse;
+  try {
+    response = { id, ok: true, result: simulateScenario(input, settings) };
+  } catch (error) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
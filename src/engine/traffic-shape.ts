@@ -0,0 +1,112 @@
+import type { SourceEndpoint } from '../data/catalog.ts';
+import { FALLBACK_TRAFFIC_CATEGORY, trafficShapes, type TrafficShape } from '../data/traffic-shapes.ts';
+import { calculate } from './calculate.ts';
+import { DAYS_PER_YEAR, KB_PER_TERABYTE, SECONDS_PER_DAY } from './constants.ts';
+import type {
+  BurstAnalysis,
+  BurstSettings,
+  CombinedTrafficShape,
+  OverageRisk,
+  ScenarioInput,
+  SourceAllocation,
+} from './types.ts';
+
+const HOURS_PER_DAY = 24;
+// Licenses are usually bought with some room above today's average.
+export const DEFAULT_LICENSE_HEADROOM = 0.1;
+
+export const getTrafficShape = (source: SourceEndpoint): TrafficShape =>
+  trafficShapes[source.trafficCategory ?? FALLBACK_TRAFFIC_CATEGORY];
+
+const normalize = (values: number[]): number[] => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return total > 0 ? values.map((value) => value / total) : values.map(() => 1 / values.length);
+};
+
+/**
+ * Blends each source's diurnal curve by its volume. Burst factor and day-to-day variation are
+ * volume-weighted, which treats busy days as correlated across sources (the conservative case).
+ */
+export const combineTrafficShapes = (
+  rows: Pick<SourceAllocation, 'source' | 'dailyTerabytes'>[],
+): CombinedTrafficShape => {
+  const weights = normalize(rows.map((row) => Math.max(0, row.dailyTerabytes)));
+  const hourlyShare = new Array<number>(HOURS_PER_DAY).fill(0);
+  let burstFactor = 0;
+  let dailyVariation = 0;
+  rows.forEach((row, index) => {
+    const shape = getTrafficShape(row.source);
+    normalize(shape.hourlyProfile).forEach((share, hour) => {
+      hourlyShare[hour] += share * weights[index];
+    });
+    burstFactor += shape.burstFactor * weights[index];
+    dailyVariation += shape.dailyVariation * weights[index];
+  });
+
+  return {
+    hourlyShare,
+    peakToAverageRatio: rows.length > 0 ? Math.max(...hourlyShare) * HOURS_PER_DAY * burstFactor : 1,
+    dailyVariation,
+  };
+};
+
+export const getAverageEventsPerSecond = (dailyTerabytes: number, averageEventSizeKb: number): number =>
+  averageEventSizeKb > 0 ? (dailyTerabytes * KB_PER_TERABYTE) / averageEventSizeKb / SECONDS_PER_DAY : 0;
+
+// Abramowitz & Stegun 7.1.26; accurate to ~1e-7, plenty for a planning probability.
+const erf = (x: number): number => {
+  const sign = Math.sign(x);
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const polynomial =
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t;
+  return sign * (1 - polynomial * Math.exp(-x * x));
+};
+
+/** Chance a normally distributed daily volume lands above `capacity`. */
+export const getExceedanceProbability = (mean: number, variation: number, capacity: number): number => {
+  const deviation = mean * variation;
+  if (deviation <= 0) {
+    return mean > capacity ? 1 : 0;
+  }
+  const z = (capacity - mean) / deviation;
+  return 0.5 * (1 - erf(z / Math.SQRT2));
+};
+
+const assessOverage = (
+  dailyTerabytes: number,
+  licensedDailyTerabytes: number,
+  shape: CombinedTrafficShape,
+  averageEventSizeKb: number,
+): OverageRisk => {
+  const overageProbability = getExceedanceProbability(dailyTerabytes, shape.dailyVariation, licensedDailyTerabytes);
+  return {
+    dailyTerabytes,
+    peakEventsPerSecond: getAverageEventsPerSecond(dailyTerabytes, averageEventSizeKb) * shape.peakToAverageRatio,
+    overageProbability,
+    overageDaysPerYear: overageProbability * DAYS_PER_YEAR,
+  };
+};
+
+/**
+ * Peak events per second and the chance of a day above the licensed daily volume, for the raw
+ * feed today and the optimized feed Realm sends. Daily volume is treated as normally distributed
+ * around the average with the blended day-to-day variation; the optimized feed keeps the raw
+ * event size, so its peak EPS is a ceiling when Realm also trims fields.
+ */
+export const analyzeBurstRisk = (
+  input: ScenarioInput,
+  { averageEventSizeKb, licensedDailyTerabytes }: BurstSettings,
+): BurstAnalysis => {
+  const result = calculate(input);
+  const shape = combineTrafficShapes(result.sourceBreakdown);
+  const licensed = licensedDailyTerabytes ?? result.baselineTerabytes * (1 + DEFAULT_LICENSE_HEADROOM);
+
+  return {
+    shape,
+    averageEventSizeKb,
+    averageEventsPerSecond: getAverageEventsPerSecond(result.baselineTerabytes, averageEventSizeKb),
+    licensedDailyTerabytes: licensed,
+    baseline: assessOverage(result.baselineTerabytes, licensed, shape, averageEventSizeKb),
+    realm: assessOverage(result.optimizedTerabytes, licensed, shape, averageEventSizeKb),
+  };
+};
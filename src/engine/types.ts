@@ -0,0 +1,495 @@
+import type {
+  DestinationEndpoint,
+  DestinationPricingModel,
+  IngestionMethod,
+  RetentionPricing,
+  SourceEndpoint,
+  TrafficCategory,
+} from '../data/catalog.ts';
+import type { CalibrationRecord } from '../data/calibrations.ts';
+import type { CollectorProfile } from '../data/collectors.ts';
+import type { CompetitorProfile } from '../data/competitors.ts';
+import type { CurrencyCode } from '../data/fx-rates.ts';
+
+/** `eps` is the average events per second across the day. */
+export type TrafficUnit = 'events' | 'eps' | 'gigabytes' | 'terabytes';
+
+export interface ScenarioInput {
+  sources: SourceEndpoint[];
+  destination: DestinationEndpoint;
+  dailyTerabytes: number;
+  /**
+   * Per-source TB/day keyed by source id. Values are normalized against `dailyTerabytes`, so
+   * callers may pass absolute volumes or proportional weights. Omit to split volume evenly.
+   */
+  sourceVolumes?: Record<string, number>;
+  /** Headcount used by per-employee destination pricing. */
+  employeeCount?: number;
+  /** Optional full-fidelity archive tier behind the analytics destination. */
+  archive?: ArchiveRouting;
+  /** Omit to ignore retention beyond what each destination's license includes. */
+  retention?: RetentionSettings;
+  /** Omit to leave collector hosts, pullers, and cloud egress out of both sides. */
+  infrastructure?: InfrastructureSettings;
+}
+
+/** What a rep knows about a source the catalog does not list. */
+export interface CustomSourceInput {
+  label: string;
+  trafficCategory: TrafficCategory;
+  /** Share of raw volume Realm removes (0-1); omit to use the category default. */
+  reductionFactor?: number;
+  /** Omit to use the category's default collector. */
+  ingestionMethod?: IngestionMethod;
+  notes?: string;
+}
+
+export interface CustomDestinationInput {
+  label: string;
+  /** Omit to price at the traditional SIEM benchmark. */
+  pricing?: DestinationPricingModel;
+  notes?: string;
+}
+
+export interface InfrastructureSettings {
+  /** Average event size used to turn TB/day into events per second. */
+  averageEventSizeKb: number;
+  /** Busiest second relative to the daily average; omit to use each category's traffic shape. */
+  peakToAverageRatio?: number;
+}
+
+/** Collectors for every selected source that shares an ingestion method. */
+export interface CollectorSizing {
+  profile: CollectorProfile;
+  sourceIds: string[];
+  /** Raw TB/day the collectors receive. */
+  dailyTerabytes: number;
+  peakToAverageRatio: number;
+  peakEventsPerSecond: number;
+  /** Customer-hosted nodes; 0 when Realm runs the puller. */
+  nodes: number;
+  computeAnnual: number;
+  storageAnnual: number;
+  egressAnnual: number;
+  annualCost: number;
+}
+
+export interface InfrastructureEstimate {
+  collectors: CollectorSizing[];
+  computeAnnual: number;
+  storageAnnual: number;
+  egressAnnual: number;
+  annualCost: number;
+}
+
+export interface InfrastructureResult {
+  averageEventSizeKb: number;
+  /** Scenario-wide ratio: the override, or the blended traffic shape of every source. */
+  peakToAverageRatio: number;
+  peakEventsPerSecond: number;
+  /** Customer runs every collector and pays egress on raw volume (part of `standardAnnual`). */
+  baseline: InfrastructureEstimate;
+  /** Realm runs cloud pullers; egress applies only to the optimized volume. */
+  realm: InfrastructureEstimate;
+}
+
+export interface RetentionSettings {
+  /** Days data stays searchable in the analytics destination. */
+  hotDays: number;
+  /** Days data stays in the archive tier; drives storage-only archive pricing. */
+  archiveDays: number;
+}
+
+export interface RetentionResult extends RetentionSettings {
+  pricing: RetentionPricing;
+  /** Searchable days billed beyond the destination's included window. */
+  extendedHotDays: number;
+  /** Steady-state TB held in extended retention for raw and optimized volume. */
+  baselineStoredTerabytes: number;
+  optimizedStoredTerabytes: number;
+  /** Annual extended-retention cost on raw volume (part of `standardAnnual`). */
+  baselineAnnual: number;
+  /** Annual extended-retention cost on the optimized volume Realm still sends. */
+  optimizedAnnual: number;
+}
+
+/**
+ * What a source sends to the archive: the volume Realm removes before the SIEM (`reduced`), a
+ * full raw copy (`full-fidelity`), or nothing (`none`, the removed data is dropped).
+ */
+export type ArchiveRoutingMode = 'reduced' | 'full-fidelity' | 'none';
+
+export interface ArchiveRouting {
+  /** One of `ARCHIVE_DESTINATION_IDS` from the catalog. */
+  destination: DestinationEndpoint;
+  /** Rule applied to every source without an entry in `sourceModes`. */
+  mode: ArchiveRoutingMode;
+  sourceModes?: Record<string, ArchiveRoutingMode>;
+}
+
+export interface ArchiveResult {
+  destination: DestinationEndpoint;
+  archivedTerabytes: number;
+  annualCost: number;
+  pricing: DestinationPriceQuote;
+}
+
+export interface DestinationPriceQuote {
+  model: DestinationPricingModel;
+  annualCost: number;
+  /** Annual cost divided by raw TB/day so every model can be compared per 1 TB/day. */
+  effectiveAnnualCostPerTb: number;
+  /** Human-readable tier, band, or allowance the volume landed in; empty for flat pricing. */
+  tierLabel: string;
+  /** Raw TB/day covered by the destination's free tier and left out of the quote. */
+  freeTerabytes: number;
+}
+
+export type ReductionTechnique =
+  | 'deduplication'
+  | 'field-pruning'
+  | 'aggregation'
+  | 'noise-filtering'
+  | 'archive-routing';
+
+export interface TechniqueContribution {
+  technique: ReductionTechnique;
+  /** Fraction of raw volume this technique removes (0.35 === 35 points of the total reduction). */
+  reduction: number;
+}
+
+/** Low / expected / high band around a modeled value. */
+export interface ValueRange {
+  low: number;
+  expected: number;
+  high: number;
+}
+
+export interface SourceAllocation {
+  source: SourceEndpoint;
+  /** Fraction of the scenario's daily volume attributed to this source (0-1). */
+  share: number;
+  dailyTerabytes: number;
+}
+
+export interface SourceBreakdown extends SourceAllocation {
+  reduction: number;
+  reductionRange: ValueRange;
+  /** Customer measurement used instead of the heuristic reduction, if one matched. */
+  calibration: CalibrationRecord | null;
+  /** How the reduction splits across techniques, largest first; sums to `reduction`. */
+  techniques: TechniqueContribution[];
+  optimizedTerabytes: number;
+  archiveMode: ArchiveRoutingMode;
+  archivedTerabytes: number;
+}
+
+export interface CombinedSourceMetrics {
+  realmOptimization: number;
+  reductionRange: ValueRange;
+}
+
+export interface AppliedCalibration {
+  calibration: CalibrationRecord;
+  /** Selected sources the measured reduction replaced. */
+  sourceIds: string[];
+  /** Fraction of the scenario's daily volume those sources carry (0-1). */
+  share: number;
+}
+
+export interface ScenarioResult {
+  standardCost: number;
+  realmCost: number;
+  savings: number;
+  savingsPercentage: number;
+  annualSavings: number;
+  standardAnnual: number;
+  realmAnnual: number;
+  /** Annual archive-tier cost; 0 when the scenario has no archive routing. */
+  archiveAnnual: number;
+  /** Annual extended hot retention on the optimized volume; 0 without retention settings. */
+  retentionAnnual: number;
+  /** Annual collector infrastructure alongside Realm; 0 without infrastructure settings. */
+  infrastructureAnnual: number;
+  roiMultiple: number;
+  baselineTerabytes: number;
+  optimizedTerabytes: number;
+  billedTerabytes: number;
+  dataReductionTb: number;
+  dataReductionPercentage: number;
+  realmRatePerTb: number;
+  baselineRatePerTb: number;
+  averageOptimization: number;
+  /** Volume-weighted technique split across all sources; sums to `averageOptimization`. */
+  techniques: TechniqueContribution[];
+  /** Calibrations that matched, blended into the reduction by their share of volume. */
+  calibrations: AppliedCalibration[];
+  calibrationNote: string;
+  sourceBreakdown: SourceBreakdown[];
+  destinationPricing: DestinationPriceQuote;
+  archive: ArchiveResult | null;
+  retention: RetentionResult | null;
+  infrastructure: InfrastructureResult | null;
+  ranges: ScenarioRanges;
+}
+
+/**
+ * Ranges driven by the low/high reduction bands. `low` is always the conservative end, so for
+ * savings and ROI it pairs with the lowest reduction.
+ */
+export interface ScenarioRanges {
+  reduction: ValueRange;
+  dataReductionTb: ValueRange;
+  annualSavings: ValueRange;
+  savingsPercentage: ValueRange;
+  roiMultiple: ValueRange;
+}
+
+export interface CombinedTrafficShape {
+  /** Share of daily volume in each local hour; sums to 1. */
+  hourlyShare: number[];
+  /** Busiest second relative to the daily average (diurnal peak times burst factor). */
+  peakToAverageRatio: number;
+  /** Standard deviation of daily volume divided by its mean. */
+  dailyVariation: number;
+}
+
+export interface BurstSettings {
+  /** Average event size used to turn TB/day into events per second. */
+  averageEventSizeKb: number;
+  /** Daily volume the destination license covers; defaults to today's average plus headroom. */
+  licensedDailyTerabytes?: number;
+}
+
+export interface OverageRisk {
+  /** Average TB/day reaching the destination. */
+  dailyTerabytes: number;
+  peakEventsPerSecond: number;
+  /** Chance a given day lands above the licensed daily volume (0-1). */
+  overageProbability: number;
+  overageDaysPerYear: number;
+}
+
+export interface BurstAnalysis {
+  shape: CombinedTrafficShape;
+  averageEventSizeKb: number;
+  averageEventsPerSecond: number;
+  licensedDailyTerabytes: number;
+  /** Raw volume straight to the destination. */
+  baseline: OverageRisk;
+  /** Optimized volume Realm sends. */
+  realm: OverageRisk;
+}
+
+export interface LicenseCommitment {
+  /** Raw TB/day the current contract covers. */
+  committedDailyTerabytes: number;
+  /** What the customer pays for that contract each year (USD). */
+  annualContractPrice: number;
+  /** ISO date (YYYY-MM-DD) the contract renews. */
+  renewalDate: string;
+  /** Year-over-year raw volume growth expected until renewal, as decimal. */
+  annualGrowthRate: number;
+}
+
+export interface CommitmentPosition {
+  /** TB/day counted against the commitment today. */
+  dailyTerabytes: number;
+  /** TB/day expected at the renewal date. */
+  renewalTerabytes: number;
+  /** Share of the commitment used today (above 1 when already over). */
+  utilization: number;
+  /** Committed minus used TB/day today; negative when over. */
+  headroomTerabytes: number;
+  /** Months until growth uses up the commitment; null when it never does. */
+  monthsOfHeadroom: number | null;
+  upgradeRequired: boolean;
+  /** Annual price at renewal: the current contract, or the next tier at the contract's discount. */
+  renewalAnnual: number;
+}
+
+export interface CommitmentAnalysis {
+  commitment: LicenseCommitment;
+  monthsToRenewal: number;
+  /** Contract price divided by list price at the committed volume. */
+  contractDiscount: number;
+  /** Raw volume against the commitment. */
+  baseline: CommitmentPosition;
+  /** Optimized volume Realm sends against the same commitment. */
+  realm: CommitmentPosition;
+  /** Renewal cost without Realm minus renewal cost with Realm. */
+  avoidedUpgradeAnnual: number;
+  headroomRegainedTerabytes: number;
+}
+
+export interface ProjectionSettings {
+  years: number;
+  /** Year-over-year raw volume growth expressed as decimal (0.2 === 20%). */
+  annualGrowthRate: number;
+  /** Year-over-year SIEM list price increase expressed as decimal. */
+  siemPriceEscalator: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  dailyTerabytes: number;
+  optimizedTerabytes: number;
+  standardAnnual: number;
+  realmAnnual: number;
+  archiveAnnual: number;
+  retentionAnnual: number;
+  infrastructureAnnual: number;
+  annualSavings: number;
+  cumulativeSavings: number;
+}
+
+export interface ScenarioProjection {
+  years: ProjectionYear[];
+  annualGrowthRate: number;
+  siemPriceEscalator: number;
+  totalStandard: number;
+  totalRealm: number;
+  totalArchive: number;
+  totalRetention: number;
+  totalInfrastructure: number;
+  totalSavings: number;
+}
+
+export interface SimulationSettings {
+  iterations: number;
+  /** Expected year-over-year volume growth; each iteration samples between 0 and twice this. */
+  annualGrowthRate: number;
+  /** Expected event size, normally the traffic recommendation's `averageEventSizeKb`. */
+  averageEventSizeKb: number;
+  /** Set when volume was entered as events/day so sampled event sizes move TB/day. */
+  dailyEvents?: number;
+  /** Fixed seed for reproducible runs; defaults to the current time. */
+  seed?: number;
+  histogramBins?: number;
+}
+
+export interface SimulationBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  min: number;
+  max: number;
+  /** Share of iterations where annual savings stayed positive (0-1). */
+  probabilityOfSavings: number;
+  histogram: SimulationBin[];
+}
+
+/** One-time costs incurred before Realm starts saving money. */
+export interface ImplementationCosts {
+  /** Onboarding and professional services. */
+  onboarding: number;
+  /** Collector hosts, forwarders, and other pipeline infrastructure. */
+  collectorInfrastructure: number;
+  /** Internal migration effort (content rewrites, parallel running, testing). */
+  migration: number;
+}
+
+export interface InvestmentSettings {
+  implementationCosts: ImplementationCosts;
+  /** Annual discount rate for NPV expressed as decimal (0.08 === 8%). */
+  discountRate: number;
+}
+
+export interface InvestmentAnalysis {
+  implementationCosts: ImplementationCosts;
+  oneTimeCost: number;
+  /** Months until cumulative savings cover the one-time cost; null when they never do. */
+  paybackMonths: number | null;
+  /** Net present value over the projection horizon, one-time cost taken up front. */
+  netPresentValue: number;
+  discountRate: number;
+  years: number;
+  /**
+   * Smallest raw TB/day at which Realm's annual cost stops exceeding the destination's; null
+   * when Realm never undercuts it (e.g. storage-only destinations).
+   */
+  breakEvenDailyTerabytes: number | null;
+}
+
+export interface CurrencyConversion {
+  currency: CurrencyCode;
+  /** Units of `currency` per US dollar. */
+  unitsPerUsd: number;
+  /** Version and date of the FX table the rate came from. */
+  tableVersion: string;
+  rateDate: string;
+  /** True when the rate was typed in rather than read from the table. */
+  overridden: boolean;
+}
+
+export interface CompetitorComparison {
+  competitor: CompetitorProfile;
+  /** Share of raw volume the competitor removes before the destination (0-1). */
+  reduction: number;
+  /** Raw TB/day still reaching the destination. */
+  destinationTerabytes: number;
+  licenseAnnual: number;
+  infrastructureAnnual: number;
+  operationsAnnual: number;
+  /** Destination license and extended retention on the remaining volume. */
+  destinationAnnual: number;
+  totalAnnual: number;
+  savingsVsStandard: number;
+  /** Competitor total minus Realm's side of the scenario; positive when Realm costs less. */
+  realmAdvantage: number;
+}
+
+export type SampleLogFormat = 'json' | 'json-lines' | 'syslog' | 'cef' | 'leef' | 'csv';
+
+/**
+ * How a field behaves across the sample: `empty` fields never carry a value, `constant` fields
+ * repeat one value in every event, and `unique` fields (timestamps, ids) differ in every event.
+ */
+export type SampleFieldStatus = 'empty' | 'constant' | 'unique' | 'variable';
+
+export interface SampleFieldProfile {
+  /** Dot-separated path for nested JSON, the header name for CSV, the key for key=value formats. */
+  name: string;
+  /** Events that carry the field, empty or not. */
+  presentCount: number;
+  emptyCount: number;
+  /** Distinct non-empty values. */
+  distinctValues: number;
+  /** Distinct non-empty values per non-empty occurrence (1 means every value differs). */
+  cardinality: number;
+  averageBytes: number;
+  status: SampleFieldStatus;
+  /** Share of the sample's bytes removed by dropping this field's empty or constant occurrences. */
+  prunableShare: number;
+}
+
+export interface SampleLogAnalysis {
+  format: SampleLogFormat;
+  eventCount: number;
+  /** Lines or records that could not be parsed in the detected format. */
+  skippedCount: number;
+  /** True when the sample was longer than the analyzer reads. */
+  truncated: boolean;
+  totalBytes: number;
+  averageEventSizeKb: number;
+  /** Sorted by prunable share, then by name. */
+  fields: SampleFieldProfile[];
+  /** Share of bytes in empty and constant fields. */
+  pruningReduction: number;
+  /** Events identical to an earlier one apart from unique and pruned fields. */
+  duplicateEvents: number;
+  /** Share of the sample's bytes the duplicates still carry after pruning. */
+  dedupeReduction: number;
+  /** Pruning plus dedupe, capped at the Realm optimization ceiling. */
+  estimatedReduction: number;
+  warnings: string[];
+}
@@ -0,0 +1,29 @@
+import { KB_PER_GIGABYTE, KB_PER_TERABYTE, SECONDS_PER_DAY } from './constants.ts';
+import type { TrafficUnit } from './types.ts';
+
+export interface DailyVolume {
+  dailyEvents: number;
+  dailyGigabytes: number;
+  dailyTerabytes: number;
+}
+
+/**
+ * Normalizes a daily traffic figure expressed in any supported unit into events, GB, and TB.
+ */
+export const convertDailyVolume = (
+  value: number,
+  unit: TrafficUnit,
+  averageEventSizeKb: number,
+): DailyVolume => {
+  let dailyEvents = value;
+  if (unit === 'eps') {
+    dailyEvents = value * SECONDS_PER_DAY;
+  } else if (unit !== 'events') {
+    const kbPerUnit = unit === 'gigabytes' ? KB_PER_GIGABYTE : KB_PER_TERABYTE;
+    dailyEvents = averageEventSizeKb > 0 ? (value * kbPerUnit) / averageEventSizeKb : 0;
+  }
+  const dailyGigabytes = (dailyEvents * averageEventSizeKb) / KB_PER_GIGABYTE;
+  const dailyTerabytes = dailyGigabytes / 1_024;
+
+  return { dailyEvents, dailyGigabytes, dailyTerabytes };
+};
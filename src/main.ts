@@ -1,72 +1,106 @@
-import { destinations, sources } from './data/catalog.ts';
-import type { DestinationEndpoint, SourceEndpoint } from './data/catalog.ts';
+import {
+  firewallThroughputClasses,
+  getInventoryRecommendation,
+  getInventorySizingRule,
+  getRecommendedSourceVolumes,
+  inventoryDrivers,
+  type FirewallThroughputClass,
+  type InventoryCount,
+} from './data/asset-inventory.ts';
+import { archiveDestinations, sources } from './data/catalog.ts';
+import type {
+  DestinationEndpoint,
+  DestinationPricingModel,
+  IngestionMethod,
+  SourceEndpoint,
+  TrafficCategory,
+} from './data/catalog.ts';
+import {
+  DEFAULT_ANNUAL_GROWTH_RATE,
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_EVENT_SIZE_KB,
+  DEFAULT_SIEM_PRICE_ESCALATOR,
+  KB_PER_GIGABYTE,
+  REALM_BILLING_INCREMENT_TB,
+  SECONDS_PER_DAY,
+  REALM_MIN_BILLED_TB,
+  SAMPLE_LOG_FORMAT_LABELS,
+  SIMULATION_ITERATION_OPTIONS,
+  analyzeBurstRisk,
+  analyzeCommitment,
+  analyzeInvestment,
+  analyzeSampleLog,
+  applySampleAnalysis,
+  calculate,
+  compareCompetitors,
+  convertDailyVolume,
+  convertFromUsd,
+  convertToUsd,
+  createCustomDestination,
+  createCustomSource,
+  findBreakEvenDailyTerabytes,
+  getCurrencyConversion,
+  getDestinationPricingModel,
+  getRealmSideAnnual,
+  projectScenario,
+  summarizeSources,
+  type ArchiveRouting,
+  type ArchiveRoutingMode,
+  type BurstAnalysis,
+  type CommitmentAnalysis,
+  type CommitmentPosition,
+  type LicenseCommitment,
+  type CompetitorComparison,
+  type CurrencyConversion,
+  type InfrastructureEstimate,
+  type InfrastructureSettings,
+  type InvestmentAnalysis,
+  type ReductionTechnique,
+  type InvestmentSettings,
+  type SampleFieldStatus,
+  type SampleLogAnalysis,
+  type ProjectionSettings,
+  type RetentionSettings,
+  type ScenarioInput,
+  type ScenarioProjection,
+  type ScenarioRanges,
+  type ScenarioResult,
+  type SimulationResult,
+  type SimulationSettings,
+  type TechniqueContribution,
+  type TrafficUnit,
+} from './engine/index.ts';
+import type { SimulationRequest, SimulationResponse } from './engine/simulation.worker.ts';
+import {
+  BASE_CURRENCY,
+  FX_RATE_TABLE,
+  currencyOptions,
+  getCurrencyMeta,
+  isCurrencyCode,
+  type CurrencyCode,
+} from './data/fx-rates.ts';
+import {
+  applyDestinationDirective,
+  DEFAULT_DEPLOYMENT_ID,
+  deploymentProfiles,
+  isDeploymentId,
+  resolveVisibleDestinations,
+  type DeploymentProfile,
+} from './data/deployments.ts';
 import {
   describeTrafficRecommendation,
-  getTrafficRecommendation,
+  formatEventSizeKb,
+  getOrganizationSizeForEmployees,
+  getOrganizationSizeMeta,
   organizationSizeOptions,
+  trafficCategoryLabels,
   type TrafficRecommendation,
   type OrganizationSizeKey,
 } from './data/traffic-profiles.ts';
-
-type CalculationInput = {
-  sources: SourceEndpoint[];
-  destination: DestinationEndpoint;
-  dailyTerabytes: number;
-};
-
-type TrafficUnit = 'events' | 'gigabytes' | 'terabytes';
+import { FALLBACK_TRAFFIC_CATEGORY } from './data/traffic-shapes.ts';
 
 type SelectableEndpoint = SourceEndpoint | DestinationEndpoint;
 
-type CombinationOverride = {
-  averageOptimization?: number;
-  note?: string;
-};
-
-const SIEM_ANNUAL_COST_PER_TB = 500_000; // price for sustaining 1 TB/day for a year
-const REALM_ANNUAL_COST_PER_TB = 70_000; // price for sustaining 1 TB/day for a year with Realm Focus included
-const REALM_MIN_BILLED_TB = 1;
-const REALM_BILLING_INCREMENT_TB = 0.5;
-const DAYS_PER_YEAR = 365;
-const KB_PER_GIGABYTE = 1_024 * 1_024;
-const KB_PER_TERABYTE = KB_PER_GIGABYTE * 1_024;
-const DEFAULT_EVENT_SIZE_KB = 1;
-const MAX_REALM_OPTIMIZATION = 0.75;
-
-const FIREWALL_REDUCTION = 0.7;
-const NETWORK_REDUCTION = 0.6;
-const ENDPOINT_REDUCTION = 0.5;
-const GENERIC_REDUCTION = 0.5;
-const FIREWALL_KEYWORDS = ['firewall', 'waf', 'ips', 'ids', 'ngfw', 'fortigate', 'asa', 'palo alto'];
-
-const CRIBL_MARKUP_RATE = 0.18;
-const CRIBL_REVEAL_LABEL = 'Enter work email to unlock';
-const CRIBL_UNLOCKED_LABEL = 'Cribl estimate unlocked';
-const WORK_EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
-const ENABLE_CRIBL_COMPARISON = false; // Temporary launch toggle for Cribl comparison
-const CONSUMER_EMAIL_DOMAINS = new Set([
-  'gmail.com',
-  'googlemail.com',
-  'yahoo.com',
-  'ymail.com',
-  'hotmail.com',
-  'outlook.com',
-  'live.com',
-  'msn.com',
-  'aol.com',
-  'icloud.com',
-  'me.com',
-  'mac.com',
-  'proton.me',
-  'protonmail.com',
-  'gmx.com',
-  'yandex.com',
-]);
-
-if (!ENABLE_CRIBL_COMPARISON) {
-  document.querySelector<HTMLElement>('[data-role="cribl-comparison"]')?.remove();
-}
-
 type JsPdfConstructor = typeof import('jspdf').jsPDF;
 type JsPdfGlobalNamespace = {
   jspdf?: {
@@ -80,6 +114,35 @@ const HUBSPOT_PORTAL_ID = '47829307';
 const HUBSPOT_FORM_GUID = 'a41763db-a9f8-46fa-9fbc-e1f7246cc18e';
 const HUBSPOT_EXEC_SUMMARY_FIELD = 'executive_summary';
 
+/**
+ * Deployment and destination visibility come from `<body data-realm-deployment data-realm-destinations>`
+ * (set by the embedding page) and then `?deployment=&destinations=` (so a rep can send a link);
+ * the URL wins where both are present.
+ */
+const readDeploymentProfile = (): DeploymentProfile => {
+  const params = new URLSearchParams(window.location.search);
+  const bodyData = document.body.dataset;
+  const requested = params.get('deployment') ?? bodyData.realmDeployment ?? DEFAULT_DEPLOYMENT_ID;
+  if (!isDeploymentId(requested)) {
+    console.warn(`Unknown calculator deployment "${requested}"; using ${DEFAULT_DEPLOYMENT_ID}.`);
+  }
+  const profile = deploymentProfiles[isDeploymentId(requested) ? requested : DEFAULT_DEPLOYMENT_ID];
+
+  let visibility = profile.destinations;
+  for (const directive of [bodyData.realmDestinations, params.get('destinations')]) {
+    if (directive) {
+      visibility = applyDestinationDirective(visibility, directive);
+    }
+  }
+  return { ...profile, destinations: visibility };
+};
+
+const deploymentProfile = readDeploymentProfile();
+const { destinations, unknownIds: unknownDestinationIds } = resolveVisibleDestinations(deploymentProfile.destinations);
+if (unknownDestinationIds.length > 0) {
+  console.warn(`Ignoring unknown destination ids: ${unknownDestinationIds.join(', ')}.`);
+}
+
 let jsPdfLoader: Promise<JsPdfConstructor | null> | null = null;
 
 const loadJsPdf = async (): Promise<JsPdfConstructor | null> => {
@@ -177,19 +240,33 @@ const loadRealmLogo = async (): Promise<RealmLogoAsset | null> => {
   return realmLogoAsset;
 };
 
-const combinationOverrides: Record<string, CombinationOverride> = {
-  'fortinet-fortigate::sumo-logic-siem': {
-    averageOptimization: 0.2099,
-    note: 'Calibrated to Vensure case study (~$250K annual savings with Realm Focus).',
-  },
-};
+// Every monetary figure is computed in USD and converted here, so the results panel, tooltips,
+// PDF, and HubSpot summary always agree on currency and rate.
+let activeCurrency: CurrencyConversion = getCurrencyConversion(BASE_CURRENCY);
 
-const formatCurrency = (value: number): string =>
+const formatMoney = (valueUsd: number, maximumFractionDigits: number, notation?: 'compact'): string =>
   new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
-    maximumFractionDigits: value < 100 ? 2 : 0,
-  }).format(value);
+    currency: activeCurrency.currency,
+    notation,
+    maximumFractionDigits: Math.min(maximumFractionDigits, getCurrencyMeta(activeCurrency.currency).fractionDigits),
+  }).format(convertFromUsd(valueUsd, activeCurrency));
+
+const formatCurrency = (value: number): string =>
+  formatMoney(value, convertFromUsd(value, activeCurrency) < 100 ? 2 : 0);
+
+const formatUnitRate = (value: number): string => formatMoney(value, 3);
+
+const formatCompactCurrency = (value: number): string => formatMoney(value, 1, 'compact');
+
+const describeCurrencyConversion = (conversion: CurrencyConversion): string =>
+  conversion.currency === BASE_CURRENCY
+    ? 'Currency: USD list prices.'
+    : `Currency: ${conversion.currency} converted from USD list prices at ${formatDecimal(conversion.unitsPerUsd, {
+        maximumFractionDigits: 4,
+      })} per USD (${
+        conversion.overridden ? 'manual rate; ' : ''
+      }FX table ${conversion.tableVersion}, rates as of ${conversion.rateDate}).`;
 
 const formatNumber = (value: number): string =>
   new Intl.NumberFormat('en-US', { maximumFractionDigits: 0 }).format(value);
@@ -211,121 +288,36 @@ const formatDecimal = (
   }).format(value);
 };
 
-type CombinedSourceMetrics = {
-  realmOptimization: number;
-};
-
-const getFixedReduction = (endpoint: SourceEndpoint): number => {
-  const normalizedLabel = `${endpoint.label} ${endpoint.id}`.toLowerCase();
-  const isFirewall =
-    endpoint.trafficCategory === 'network-security' &&
-    FIREWALL_KEYWORDS.some((keyword) => normalizedLabel.includes(keyword));
-
-  if (isFirewall) {
-    return FIREWALL_REDUCTION;
-  }
-
-  if (endpoint.trafficCategory === 'network-security') {
-    return NETWORK_REDUCTION;
-  }
-
-  if (endpoint.trafficCategory === 'endpoint-edr') {
-    return ENDPOINT_REDUCTION;
-  }
-
-  return Math.max(GENERIC_REDUCTION, Math.min(MAX_REALM_OPTIMIZATION, endpoint.realmOptimization));
-};
-
-const summarizeSources = (selectedSources: SourceEndpoint[]): CombinedSourceMetrics => {
-  if (selectedSources.length === 0) {
-    throw new Error('At least one source must be provided for calculation.');
-  }
-
-  if (selectedSources.length === 1) {
-    const [singleSource] = selectedSources;
-    return {
-      realmOptimization: getFixedReduction(singleSource),
-    };
-  }
-
-  const aggregates = selectedSources.reduce(
-    (accumulator, source) => {
-      accumulator.realmOptimization += getFixedReduction(source);
-      return accumulator;
-    },
-    { realmOptimization: 0 },
-  );
-
-  return {
-    realmOptimization: aggregates.realmOptimization / selectedSources.length,
-  };
-};
+const formatRoiMultiple = (value: number): string =>
+  `${formatDecimal(value, { maximumFractionDigits: 1, minimumFractionDigits: 1 })}x`;
+
+const formatTerabytes = (value: number): string =>
+  `${formatDecimal(value, { maximumFractionDigits: 3 })} TB`;
+
+const formatPercentValue = (value: number): string =>
+  `${formatDecimal(value, { maximumFractionDigits: 1, minimumFractionDigits: 1 })}%`;
+
+/** Low / expected / high metric strings, shared by the results panel, tooltips, and exports. */
+const describeScenarioRanges = (ranges: ScenarioRanges) => ({
+  annualSavings: `${formatCurrency(ranges.annualSavings.low)} - ${formatCurrency(ranges.annualSavings.high)}`,
+  savingsPercentage: `${formatPercentValue(ranges.savingsPercentage.low)} - ${formatPercentValue(
+    ranges.savingsPercentage.high,
+  )}`,
+  roiMultiple: `${formatRoiMultiple(ranges.roiMultiple.low)} - ${formatRoiMultiple(ranges.roiMultiple.high)}`,
+  dataReduction: `${formatTerabytes(ranges.dataReductionTb.low)} - ${formatTerabytes(
+    ranges.dataReductionTb.high,
+  )} (${formatPercentValue(ranges.reduction.low * 100)} - ${formatPercentValue(ranges.reduction.high * 100)})`,
+});
 
-const calculate = ({
-  sources: selectedSources,
-  destination,
-  dailyTerabytes,
-}: CalculationInput) => {
-  if (selectedSources.length === 0) {
-    throw new Error('At least one source must be selected.');
+const renderMetricRange = (element: HTMLElement | null, text: string): void => {
+  if (!element) {
+    return;
   }
-
-  const combinedSource = summarizeSources(selectedSources);
-  const overrideKey =
-    selectedSources.length === 1 ? `${selectedSources[0].id}::${destination.id}` : null;
-  const override = overrideKey ? combinationOverrides[overrideKey] : undefined;
-  const averageOptimization =
-    override?.averageOptimization ??
-    Math.min(MAX_REALM_OPTIMIZATION, combinedSource.realmOptimization);
-
-  const appliedOptimization = Math.min(MAX_REALM_OPTIMIZATION, Math.max(0, averageOptimization));
-  const baselineTerabytes = Math.max(0, dailyTerabytes);
-  const optimizedTerabytes = baselineTerabytes * (1 - appliedOptimization);
-  const dataReductionTb = Math.max(0, baselineTerabytes - optimizedTerabytes);
-  const dataReductionPercentage =
-    baselineTerabytes > 0 ? dataReductionTb / baselineTerabytes : 0;
-
-  const billedTerabytes =
-    baselineTerabytes > 0
-      ? Math.max(
-          REALM_MIN_BILLED_TB,
-          Math.ceil(baselineTerabytes / REALM_BILLING_INCREMENT_TB) * REALM_BILLING_INCREMENT_TB,
-        )
-      : 0;
-
-  const standardAnnual = baselineTerabytes * SIEM_ANNUAL_COST_PER_TB;
-  const realmAnnual = billedTerabytes * REALM_ANNUAL_COST_PER_TB;
-  const standardCost = standardAnnual / DAYS_PER_YEAR;
-  const realmCost = realmAnnual / DAYS_PER_YEAR;
-  const savings = standardCost - realmCost;
-  const annualSavings = standardAnnual - realmAnnual;
-  const savingsPercentage = standardAnnual > 0 ? (annualSavings / standardAnnual) * 100 : 0;
-  const roiMultiple = realmAnnual > 0 ? annualSavings / realmAnnual : 0;
-
-  return {
-    standardCost,
-    realmCost,
-    savings,
-    savingsPercentage,
-    annualSavings,
-    standardAnnual,
-    realmAnnual,
-    roiMultiple,
-    baselineTerabytes,
-    optimizedTerabytes,
-    billedTerabytes,
-    dataReductionTb,
-    dataReductionPercentage,
-    realmRatePerTb: REALM_ANNUAL_COST_PER_TB,
-    baselineRatePerTb: SIEM_ANNUAL_COST_PER_TB,
-    averageOptimization: appliedOptimization,
-    calibrationNote: override?.note ?? '',
-  };
+  element.textContent = text ? `Range: ${text}` : '';
+  element.classList.toggle('field--hidden', text === '');
 };
 
-type CalculationResult = ReturnType<typeof calculate>;
-
-type ExportSnapshot = CalculationResult & {
+type ExportSnapshot = ScenarioResult & {
   sources: SourceEndpoint[];
   destination: DestinationEndpoint;
   trafficUnit: TrafficUnit;
@@ -334,11 +326,16 @@ type ExportSnapshot = CalculationResult & {
   dailyInput: number;
   dailyEvents: number;
   dailyTerabytes: number;
+  sourceVolumes: Record<string, number>;
+  projection: ScenarioProjection | null;
+  investment: InvestmentAnalysis;
+  burst: BurstAnalysis;
+  commitment: CommitmentAnalysis | null;
+  currency: CurrencyConversion;
+  competitors: CompetitorComparison[];
   billedTerabytes: number;
   averageEventSizeKb: number;
   annualSavings: number;
-  criblCost: number;
-  criblEstimateUnlocked: boolean;
 };
 
 type ExportContactDetails = {
@@ -362,6 +359,9 @@ const sourceList = document.querySelector<HTMLElement>('#sourceList');
 const sourceSearchInput = document.querySelector<HTMLInputElement>('[data-role="source-search"]');
 const destinationSelect = document.querySelector<HTMLSelectElement>('#destinationSelect');
 const organizationSizeSelect = document.querySelector<HTMLSelectElement>('#organizationSize');
+const employeeCountInput = document.querySelector<HTMLInputElement>('#employeeCountInput');
+const inventoryFieldEl = document.querySelector<HTMLElement>('[data-role="inventory-field"]');
+const inventoryListEl = document.querySelector<HTMLElement>('#inventoryList');
 const trafficInput = document.querySelector<HTMLInputElement>('#trafficInput');
 const trafficUnitSelect = document.querySelector<HTMLSelectElement>('#trafficUnit');
 const eventSizeInput = document.querySelector<HTMLInputElement>('#eventSizeInput');
@@ -370,31 +370,115 @@ const sourceSummary = document.querySelector<HTMLSpanElement>('#sourceSummary');
 const destinationSummary = document.querySelector<HTMLSpanElement>('#destinationSummary');
 const trafficError = document.querySelector<HTMLSpanElement>('#trafficError');
 const standardCostEl = document.querySelector<HTMLElement>('#standardCost');
+const standardCostLabelEl = document.querySelector<HTMLElement>('#standardCostLabel');
 const realmCostEl = document.querySelector<HTMLElement>('#realmCost');
 const savingsEl = document.querySelector<HTMLElement>('#savings');
 const roiMultipleEl = document.querySelector<HTMLElement>('#roiMultiple');
 const dataReductionEl = document.querySelector<HTMLElement>('#dataReduction');
 const annualSavingsEl = document.querySelector<HTMLElement>('#annualSavings');
 const calibrationNoteEl = document.querySelector<HTMLElement>('#calibrationNote');
+const annualSavingsRangeEl = document.querySelector<HTMLElement>('#annualSavingsRange');
+const roiRangeEl = document.querySelector<HTMLElement>('#roiRange');
+const dataReductionRangeEl = document.querySelector<HTMLElement>('#dataReductionRange');
+const sourceVolumeFieldEl = document.querySelector<HTMLElement>('[data-role="source-volume-field"]');
+const sourceVolumeListEl = document.querySelector<HTMLElement>('#sourceVolumeList');
+const sourceBreakdownEl = document.querySelector<HTMLElement>('[data-role="source-breakdown"]');
+const sourceBreakdownListEl = document.querySelector<HTMLElement>('#sourceBreakdown');
+const techniqueBreakdownEl = document.querySelector<HTMLElement>('[data-role="technique-breakdown"]');
+const techniqueBreakdownListEl = document.querySelector<HTMLElement>('#techniqueBreakdown');
+const projectionYearsSelectEl = document.querySelector<HTMLSelectElement>('#projectionYears');
+const growthRateInputEl = document.querySelector<HTMLInputElement>('#growthRateInput');
+const siemEscalatorInputEl = document.querySelector<HTMLInputElement>('#siemEscalatorInput');
+const projectionErrorEl = document.querySelector<HTMLElement>('#projectionError');
+const projectionResultsEl = document.querySelector<HTMLElement>('[data-role="projection-results"]');
+const projectionTableBodyEl = document.querySelector<HTMLElement>('#projectionTableBody');
+const projectionSummaryEl = document.querySelector<HTMLElement>('#projectionSummary');
+const archiveDestinationSelectEl = document.querySelector<HTMLSelectElement>('#archiveDestinationSelect');
+const archiveModeSelectEl = document.querySelector<HTMLSelectElement>('#archiveModeSelect');
+const archiveModeFieldEl = document.querySelector<HTMLElement>('[data-role="archive-mode-field"]');
+const archiveRoutingFieldEl = document.querySelector<HTMLElement>('[data-role="archive-routing-field"]');
+const archiveRoutingListEl = document.querySelector<HTMLElement>('#archiveRoutingList');
+const hotRetentionInputEl = document.querySelector<HTMLInputElement>('#hotRetentionInput');
+const archiveRetentionInputEl = document.querySelector<HTMLInputElement>('#archiveRetentionInput');
+const archiveRetentionFieldEl = document.querySelector<HTMLElement>('[data-role="archive-retention-field"]');
+const retentionErrorEl = document.querySelector<HTMLElement>('#retentionError');
+const retentionMetricEl = document.querySelector<HTMLElement>('[data-role="retention-metric"]');
+const retentionCostEl = document.querySelector<HTMLElement>('#retentionCost');
+const retentionDetailEl = document.querySelector<HTMLElement>('#retentionDetail');
+const licensedVolumeInputEl = document.querySelector<HTMLInputElement>('#licensedVolumeInput');
+const licensedVolumeErrorEl = document.querySelector<HTMLElement>('#licensedVolumeError');
+const contractPriceInputEl = document.querySelector<HTMLInputElement>('#contractPriceInput');
+const renewalDateInputEl = document.querySelector<HTMLInputElement>('#renewalDateInput');
+const commitmentGrowthInputEl = document.querySelector<HTMLInputElement>('#commitmentGrowthInput');
+const commitmentErrorEl = document.querySelector<HTMLElement>('#commitmentError');
+const commitmentMetricEl = document.querySelector<HTMLElement>('[data-role="commitment-metric"]');
+const avoidedUpgradeEl = document.querySelector<HTMLElement>('#avoidedUpgrade');
+const commitmentDetailEl = document.querySelector<HTMLElement>('#commitmentDetail');
+const burstMetricEl = document.querySelector<HTMLElement>('[data-role="burst-metric"]');
+const overageDaysEl = document.querySelector<HTMLElement>('#overageDays');
+const burstDetailEl = document.querySelector<HTMLElement>('#burstDetail');
+const infrastructureSelectEl = document.querySelector<HTMLSelectElement>('#infrastructureSelect');
+const peakRatioFieldEl = document.querySelector<HTMLElement>('[data-role="peak-ratio-field"]');
+const peakRatioInputEl = document.querySelector<HTMLInputElement>('#peakRatioInput');
+const infrastructureErrorEl = document.querySelector<HTMLElement>('#infrastructureError');
+const infrastructureMetricEl = document.querySelector<HTMLElement>('[data-role="infrastructure-metric"]');
+const infrastructureCostEl = document.querySelector<HTMLElement>('#infrastructureCost');
+const infrastructureDetailEl = document.querySelector<HTMLElement>('#infrastructureDetail');
+const archiveMetricEl = document.querySelector<HTMLElement>('[data-role="archive-metric"]');
+const archiveCostLabelEl = document.querySelector<HTMLElement>('#archiveCostLabel');
+const archiveCostEl = document.querySelector<HTMLElement>('#archiveCost');
+const archiveDetailEl = document.querySelector<HTMLElement>('#archiveDetail');
+const onboardingCostInputEl = document.querySelector<HTMLInputElement>('#onboardingCostInput');
+const collectorCostInputEl = document.querySelector<HTMLInputElement>('#collectorCostInput');
+const migrationCostInputEl = document.querySelector<HTMLInputElement>('#migrationCostInput');
+const discountRateInputEl = document.querySelector<HTMLInputElement>('#discountRateInput');
+const implementationErrorEl = document.querySelector<HTMLElement>('#implementationError');
+const currencySelectEl = document.querySelector<HTMLSelectElement>('#currencySelect');
+const fxRateFieldEl = document.querySelector<HTMLElement>('#fxRateField');
+const fxRateInputEl = document.querySelector<HTMLInputElement>('#fxRateInput');
+const fxRateHintEl = document.querySelector<HTMLElement>('#fxRateHint');
+const currencyErrorEl = document.querySelector<HTMLElement>('#currencyError');
+const investmentResultsEl = document.querySelector<HTMLElement>('[data-role="investment-results"]');
+const paybackPeriodEl = document.querySelector<HTMLElement>('#paybackPeriod');
+const netPresentValueEl = document.querySelector<HTMLElement>('#netPresentValue');
+const netPresentValueLabelEl = document.querySelector<HTMLElement>('#netPresentValueLabel');
+const breakEvenVolumeEl = document.querySelector<HTMLElement>('#breakEvenVolume');
+const investmentSummaryEl = document.querySelector<HTMLElement>('#investmentSummary');
+const simulationEl = document.querySelector<HTMLElement>('[data-role="simulation"]');
+const simulationIterationsSelectEl = document.querySelector<HTMLSelectElement>('#simulationIterations');
+const simulationRunButtonEl = document.querySelector<HTMLButtonElement>('[data-role="simulation-run"]');
+const simulationStatusEl = document.querySelector<HTMLElement>('#simulationStatus');
+const simulationResultsEl = document.querySelector<HTMLElement>('[data-role="simulation-results"]');
+const simulationP10El = document.querySelector<HTMLElement>('#simulationP10');
+const simulationP50El = document.querySelector<HTMLElement>('#simulationP50');
+const simulationP90El = document.querySelector<HTMLElement>('#simulationP90');
+const simulationHistogramEl = document.querySelector<HTMLElement>('#simulationHistogram');
+const competitorComparisonEl = document.querySelector<HTMLElement>('[data-role="competitor-comparison"]');
+const competitorTableBodyEl = document.querySelector<HTMLElement>('#competitorTableBody');
+const customKindSelectEl = document.querySelector<HTMLSelectElement>('#customKindSelect');
+const customLabelInputEl = document.querySelector<HTMLInputElement>('#customLabelInput');
+const customCategorySelectEl = document.querySelector<HTMLSelectElement>('#customCategorySelect');
+const customReductionInputEl = document.querySelector<HTMLInputElement>('#customReductionInput');
+const customPricingSelectEl = document.querySelector<HTMLSelectElement>('#customPricingSelect');
+const customRateFieldEl = document.querySelector<HTMLElement>('[data-role="custom-rate-field"]');
+const customRateLabelEl = document.querySelector<HTMLElement>('#customRateLabel');
+const customRateInputEl = document.querySelector<HTMLInputElement>('#customRateInput');
+const customAddButtonEl = document.querySelector<HTMLButtonElement>('[data-role="custom-add"]');
+const customIntegrationErrorEl = document.querySelector<HTMLElement>('#customIntegrationError');
+const customIntegrationListEl = document.querySelector<HTMLElement>('#customIntegrationList');
+const customSourceFieldEls = Array.from(document.querySelectorAll<HTMLElement>('[data-role="custom-source-field"]'));
+const sampleLogInputEl = document.querySelector<HTMLInputElement>('#sampleLogInput');
+const sampleLogErrorEl = document.querySelector<HTMLElement>('#sampleLogError');
+const sampleResultEl = document.querySelector<HTMLElement>('[data-role="sample-result"]');
+const sampleLogSummaryEl = document.querySelector<HTMLElement>('#sampleLogSummary');
+const sampleFieldListEl = document.querySelector<HTMLElement>('#sampleFieldList');
+const sampleSourceSelectEl = document.querySelector<HTMLSelectElement>('#sampleSourceSelect');
+const sampleApplyButtonEl = document.querySelector<HTMLButtonElement>('[data-role="sample-apply"]');
+const sampleOverrideListEl = document.querySelector<HTMLElement>('#sampleOverrideList');
+const customDestinationFieldEls = Array.from(
+  document.querySelectorAll<HTMLElement>('[data-role="custom-destination-field"]'),
+);
 const trafficRecommendationEl = document.querySelector<HTMLParagraphElement>('#trafficRecommendation');
-const criblCostEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLElement>('#criblCost')
-  : null;
-const criblRevealButtonEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLButtonElement>('[data-role="cribl-reveal-button"]')
-  : null;
-const criblRevealContainerEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLElement>('#criblRevealForm')
-  : null;
-const criblRevealFormEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLFormElement>('[data-role="cribl-reveal-form"]')
-  : null;
-const criblEmailInputEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLInputElement>('#criblEmailInput')
-  : null;
-const criblErrorMessageEl = ENABLE_CRIBL_COMPARISON
-  ? document.querySelector<HTMLParagraphElement>('[data-role="cribl-error-message"]')
-  : null;
 const exportPdfFormEl = document.querySelector<HTMLFormElement>('[data-role="export-pdf-form"]');
 const exportCompanyInputEl = document.querySelector<HTMLInputElement>('#exportCompanyInput');
 const exportContactInputEl = document.querySelector<HTMLInputElement>('#exportContactInput');
@@ -418,6 +502,9 @@ const requiredTrafficInput = assertElement(trafficInput, 'Traffic input');
 const requiredTrafficUnit = assertElement(trafficUnitSelect, 'Traffic unit select');
 const optionalSourceSearchInput = sourceSearchInput ?? null;
 const optionalEventSizeInput = eventSizeInput ?? null;
+const optionalEmployeeCountInput = employeeCountInput ?? null;
+const optionalInventoryField = inventoryFieldEl ?? null;
+const optionalInventoryList = inventoryListEl ?? null;
 const optionalEventSizeField = eventSizeField ?? null;
 const requiredSourceSummary = assertElement(sourceSummary, 'Source summary');
 const requiredDestinationSummary = assertElement(destinationSummary, 'Destination summary');
@@ -438,6 +525,86 @@ const requiredExportContactInput = assertElement(exportContactInputEl, 'Export c
 const requiredExportEmailInput = assertElement(exportEmailInputEl, 'Export email input');
 const requiredExportPdfButton = assertElement(exportPdfButtonEl, 'Export PDF button');
 const optionalCalibrationNote = calibrationNoteEl ?? null;
+const optionalStandardCostLabel = standardCostLabelEl ?? null;
+const optionalAnnualSavingsRange = annualSavingsRangeEl ?? null;
+const optionalRoiRange = roiRangeEl ?? null;
+const optionalDataReductionRange = dataReductionRangeEl ?? null;
+const optionalSourceVolumeField = sourceVolumeFieldEl ?? null;
+const optionalSourceVolumeList = sourceVolumeListEl ?? null;
+const optionalSourceBreakdown = sourceBreakdownEl ?? null;
+const optionalSourceBreakdownList = sourceBreakdownListEl ?? null;
+const optionalTechniqueBreakdown = techniqueBreakdownEl ?? null;
+const optionalTechniqueBreakdownList = techniqueBreakdownListEl ?? null;
+const optionalProjectionYearsSelect = projectionYearsSelectEl ?? null;
+const optionalGrowthRateInput = growthRateInputEl ?? null;
+const optionalSiemEscalatorInput = siemEscalatorInputEl ?? null;
+const optionalProjectionError = projectionErrorEl ?? null;
+const optionalProjectionResults = projectionResultsEl ?? null;
+const optionalProjectionTableBody = projectionTableBodyEl ?? null;
+const optionalProjectionSummary = projectionSummaryEl ?? null;
+const optionalArchiveDestinationSelect = archiveDestinationSelectEl ?? null;
+const optionalArchiveModeSelect = archiveModeSelectEl ?? null;
+const optionalArchiveModeField = archiveModeFieldEl ?? null;
+const optionalArchiveRoutingField = archiveRoutingFieldEl ?? null;
+const optionalArchiveRoutingList = archiveRoutingListEl ?? null;
+const optionalArchiveMetric = archiveMetricEl ?? null;
+const optionalHotRetentionInput = hotRetentionInputEl ?? null;
+const optionalArchiveRetentionInput = archiveRetentionInputEl ?? null;
+const optionalArchiveRetentionField = archiveRetentionFieldEl ?? null;
+const optionalRetentionError = retentionErrorEl ?? null;
+const optionalRetentionMetric = retentionMetricEl ?? null;
+const optionalLicensedVolumeInput = licensedVolumeInputEl ?? null;
+const optionalLicensedVolumeError = licensedVolumeErrorEl ?? null;
+const optionalBurstMetric = burstMetricEl ?? null;
+const optionalContractPriceInput = contractPriceInputEl ?? null;
+const optionalRenewalDateInput = renewalDateInputEl ?? null;
+const optionalCommitmentGrowthInput = commitmentGrowthInputEl ?? null;
+const optionalCommitmentError = commitmentErrorEl ?? null;
+const optionalCommitmentMetric = commitmentMetricEl ?? null;
+const optionalInfrastructureSelect = infrastructureSelectEl ?? null;
+const optionalPeakRatioField = peakRatioFieldEl ?? null;
+const optionalPeakRatioInput = peakRatioInputEl ?? null;
+const optionalInfrastructureError = infrastructureErrorEl ?? null;
+const optionalInfrastructureMetric = infrastructureMetricEl ?? null;
+const optionalOnboardingCostInput = onboardingCostInputEl ?? null;
+const optionalCollectorCostInput = collectorCostInputEl ?? null;
+const optionalMigrationCostInput = migrationCostInputEl ?? null;
+const optionalDiscountRateInput = discountRateInputEl ?? null;
+const optionalImplementationError = implementationErrorEl ?? null;
+const optionalCurrencySelect = currencySelectEl ?? null;
+const optionalFxRateField = fxRateFieldEl ?? null;
+const optionalFxRateInput = fxRateInputEl ?? null;
+const optionalFxRateHint = fxRateHintEl ?? null;
+const optionalCurrencyError = currencyErrorEl ?? null;
+const optionalInvestmentResults = investmentResultsEl ?? null;
+const optionalInvestmentSummary = investmentSummaryEl ?? null;
+const optionalSimulation = simulationEl ?? null;
+const optionalSimulationIterationsSelect = simulationIterationsSelectEl ?? null;
+const optionalSimulationRunButton = simulationRunButtonEl ?? null;
+const optionalSimulationStatus = simulationStatusEl ?? null;
+const optionalSimulationResults = simulationResultsEl ?? null;
+const optionalSimulationHistogram = simulationHistogramEl ?? null;
+const optionalCompetitorComparison = competitorComparisonEl ?? null;
+const optionalCompetitorTableBody = competitorTableBodyEl ?? null;
+const optionalCustomKindSelect = customKindSelectEl ?? null;
+const optionalCustomLabelInput = customLabelInputEl ?? null;
+const optionalCustomCategorySelect = customCategorySelectEl ?? null;
+const optionalCustomReductionInput = customReductionInputEl ?? null;
+const optionalCustomPricingSelect = customPricingSelectEl ?? null;
+const optionalCustomRateField = customRateFieldEl ?? null;
+const optionalCustomRateLabel = customRateLabelEl ?? null;
+const optionalCustomRateInput = customRateInputEl ?? null;
+const optionalCustomAddButton = customAddButtonEl ?? null;
+const optionalCustomIntegrationError = customIntegrationErrorEl ?? null;
+const optionalCustomIntegrationList = customIntegrationListEl ?? null;
+const optionalSampleLogInput = sampleLogInputEl ?? null;
+const optionalSampleLogError = sampleLogErrorEl ?? null;
+const optionalSampleResult = sampleResultEl ?? null;
+const optionalSampleLogSummary = sampleLogSummaryEl ?? null;
+const optionalSampleFieldList = sampleFieldListEl ?? null;
+const optionalSampleSourceSelect = sampleSourceSelectEl ?? null;
+const optionalSampleApplyButton = sampleApplyButtonEl ?? null;
+const optionalSampleOverrideList = sampleOverrideListEl ?? null;
 const exportFormInputs = [
   requiredExportCompanyInput,
   requiredExportContactInput,
@@ -445,9 +612,30 @@ const exportFormInputs = [
 ];
 let sourceSearchRecords: { id: string; element: HTMLElement; tokens: string }[] = [];
 const selectedSourceIds = new Set<string>();
+// Entries a rep added for tools the catalog does not list; they live for the page session only.
+const customSources: SourceEndpoint[] = [];
+const customDestinations: DestinationEndpoint[] = [];
+
+const getSourceCatalog = (): SourceEndpoint[] => [...sources, ...customSources];
+const getDestinationCatalog = (): DestinationEndpoint[] => [...destinations, ...customDestinations];
+
+const formatEndpointLabel = (endpoint: SelectableEndpoint): string =>
+  endpoint.custom ? `${endpoint.label} (custom)` : endpoint.label;
+// Fraction of the daily volume each selected source contributes; always sums to 1.
+const sourceVolumeShares = new Map<string, number>();
+// Per-source archive rules; sources without an entry follow the default rule.
+const archiveSourceModes = new Map<string, ArchiveRoutingMode>();
+// Asset inventory counts per source; sources without a count are sized by headcount.
+const inventoryCounts = new Map<string, InventoryCount>();
+// Sources whose reduction was replaced by a sample measurement, keyed by id.
+const sampleMeasuredSources = new Map<string, SourceEndpoint>();
+let currentSample: { analysis: SampleLogAnalysis; fileName: string } | null = null;
 let userTrafficEdited = false;
 let userEventSizeEdited = false;
 let currentRecommendation: TrafficRecommendation | null = null;
+// update() runs on every keystroke, mostly in the volume field, which the break-even search
+// ignores; keep the last answer for an otherwise unchanged scenario.
+let breakEvenCache: { key: string; breakEvenDailyTerabytes: number | null } | null = null;
 let sourceScrollTop = 0;
 
 const normalizeSearchTerm = (value: string): string =>
@@ -461,7 +649,7 @@ const buildSourceSearchRecords = (): void => {
     requiredSourceList.querySelectorAll<HTMLElement>('[data-source-id]'),
   ).map((element) => {
     const id = element.dataset.sourceId ?? '';
-    const endpoint = sources.find((source) => source.id === id);
+    const endpoint = getSourceCatalog().find((source) => source.id === id);
     const tokens = normalizeSearchTerm(
       `${element.textContent ?? ''} ${endpoint?.description ?? ''}`,
     );
@@ -560,34 +748,6 @@ const setTooltipContent = (targetId: string, text: string): void => {
   }
 };
 
-type CriblUiElements = {
-  cost: HTMLElement;
-  button: HTMLButtonElement;
-  container: HTMLElement;
-  form: HTMLFormElement;
-  input: HTMLInputElement;
-  error: HTMLParagraphElement;
-};
-
-const criblUi: CriblUiElements | null =
-  ENABLE_CRIBL_COMPARISON &&
-  criblCostEl &&
-  criblRevealButtonEl &&
-  criblRevealContainerEl &&
-  criblRevealFormEl &&
-  criblEmailInputEl &&
-  criblErrorMessageEl
-    ? {
-        cost: criblCostEl,
-        button: criblRevealButtonEl,
-        container: criblRevealContainerEl,
-        form: criblRevealFormEl,
-        input: criblEmailInputEl,
-        error: criblErrorMessageEl,
-      }
-    : null;
-
-let hasUnlockedCriblEstimate = false;
 const exportButtonLabelDefault =
   requiredExportPdfButton.textContent?.trim() || EXPORT_BUTTON_DEFAULT_LABEL;
 requiredExportPdfButton.textContent = exportButtonLabelDefault;
@@ -621,86 +781,129 @@ const setExportButtonState = (enabled: boolean) => {
 setExportButtonState(false);
 
 let lastSnapshot: ExportSnapshot | null = null;
+type SimulationBasis = Pick<SimulationRequest, 'input'> & {
+  settings: Omit<SimulationSettings, 'iterations'>;
+};
 
-const clearCriblError = () => {
-  if (!criblUi) {
-    return;
+// Inputs for the next simulation run; refreshed by every successful update().
+let simulationBasis: SimulationBasis | null = null;
+let simulationWorker: Worker | null = null;
+let simulationRequestId = 0;
+
+const setSimulationStatus = (text: string): void => {
+  if (optionalSimulationStatus) {
+    optionalSimulationStatus.textContent = text;
   }
-  criblUi.error.textContent = '';
-  criblUi.error.classList.add('field--hidden');
 };
 
-const hideCriblForm = () => {
-  if (!criblUi) {
-    return;
+const clearSimulationResults = (): void => {
+  // Bumping the id drops any in-flight result computed from stale inputs.
+  simulationRequestId += 1;
+  optionalSimulationResults?.classList.add('field--hidden');
+  if (optionalSimulationHistogram) {
+    optionalSimulationHistogram.innerHTML = '';
   }
-  criblUi.container.classList.add('field--hidden');
-  criblUi.button.setAttribute('aria-expanded', 'false');
+  if (optionalSimulationRunButton) {
+    optionalSimulationRunButton.disabled = false;
+  }
+  setSimulationStatus('');
 };
 
-const showCriblForm = () => {
-  if (!criblUi) {
-    return;
+const renderSimulationResult = (result: SimulationResult): void => {
+  for (const [element, value] of [
+    [simulationP10El, result.p10],
+    [simulationP50El, result.p50],
+    [simulationP90El, result.p90],
+  ] as const) {
+    if (element) {
+      element.textContent = formatCurrency(value);
+    }
+  }
+  optionalSimulationResults?.classList.remove('field--hidden');
+
+  if (optionalSimulationHistogram) {
+    optionalSimulationHistogram.innerHTML = '';
+    const tallest = Math.max(1, ...result.histogram.map((bin) => bin.count));
+    for (const bin of result.histogram) {
+      const bar = document.createElement('span');
+      bar.className = 'simulation__bar';
+      bar.classList.toggle('simulation__bar--loss', bin.to <= 0);
+      bar.style.height = `${(bin.count / tallest) * 100}%`;
+      bar.title = `${formatCurrency(bin.from)} to ${formatCurrency(bin.to)}: ${formatNumber(bin.count)} runs`;
+      optionalSimulationHistogram.appendChild(bar);
+    }
   }
-  criblUi.container.classList.remove('field--hidden');
-  criblUi.button.setAttribute('aria-expanded', 'true');
-  criblUi.input.focus();
+
+  setSimulationStatus(
+    `${formatNumber(result.iterations)} runs: mean ${formatCurrency(result.mean)}, ${formatDecimal(
+      result.probabilityOfSavings * 100,
+      { maximumFractionDigits: 1 },
+    )}% of runs save money (range ${formatCurrency(result.min)} to ${formatCurrency(result.max)}).`,
+  );
 };
 
-const updateCriblDisplay = (formattedCost: string) => {
-  if (!criblUi) {
+const handleSimulationResponse = (event: MessageEvent<SimulationResponse>): void => {
+  const response = event.data;
+  if (response.id !== simulationRequestId) {
     return;
   }
-
-  const displayValue = hasUnlockedCriblEstimate ? formattedCost : '--';
-  criblUi.cost.textContent = displayValue;
-  criblUi.cost.setAttribute('data-unlocked', hasUnlockedCriblEstimate ? 'true' : 'false');
-  if (hasUnlockedCriblEstimate) {
-    criblUi.button.dataset.preview = '';
-    criblUi.button.classList.add('metrics__veil-button--unlocked');
-    criblUi.button.disabled = true;
-    criblUi.button.setAttribute('aria-hidden', 'true');
-    criblUi.button.textContent = CRIBL_UNLOCKED_LABEL;
+  if (optionalSimulationRunButton) {
+    optionalSimulationRunButton.disabled = false;
+  }
+  if (response.ok) {
+    renderSimulationResult(response.result);
   } else {
-    criblUi.button.dataset.preview = formattedCost;
-    criblUi.button.classList.remove('metrics__veil-button--unlocked');
-    criblUi.button.disabled = false;
-    criblUi.button.removeAttribute('aria-hidden');
-    criblUi.button.textContent = CRIBL_REVEAL_LABEL;
+    setSimulationStatus(`Simulation failed: ${response.error}`);
   }
 };
 
-const estimateCriblCost = (dailyTerabytes: number): number => {
-  if (dailyTerabytes <= 0) {
-    return 0;
+const getSimulationWorker = (): Worker => {
+  if (!simulationWorker) {
+    simulationWorker = new Worker(new URL('./engine/simulation.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    simulationWorker.addEventListener('message', handleSimulationResponse);
+    simulationWorker.addEventListener('error', () => {
+      simulationWorker?.terminate();
+      simulationWorker = null;
+      if (optionalSimulationRunButton) {
+        optionalSimulationRunButton.disabled = false;
+      }
+      setSimulationStatus('Simulation worker stopped unexpectedly. Try running it again.');
+    });
   }
-
-  const adjustedAnnualRatePerTb = REALM_ANNUAL_COST_PER_TB * (1 + CRIBL_MARKUP_RATE);
-  const annualCost = dailyTerabytes * adjustedAnnualRatePerTb;
-  return annualCost / DAYS_PER_YEAR;
+  return simulationWorker;
 };
 
-const isConsumerDomain = (domain: string): boolean => CONSUMER_EMAIL_DOMAINS.has(domain);
-
-const validateWorkEmail = (value: string): string | null => {
-  if (!value.trim()) {
-    return 'Enter your work email to unlock the estimate.';
-  }
-
-  if (!WORK_EMAIL_PATTERN.test(value)) {
-    return 'Use a valid business email address.';
+const runSimulation = (): void => {
+  if (!simulationBasis) {
+    return;
   }
+  const iterations = Number.parseInt(
+    optionalSimulationIterationsSelect?.value ?? String(SIMULATION_ITERATION_OPTIONS[0]),
+    10,
+  );
+  clearSimulationResults();
+  const request: SimulationRequest = {
+    id: simulationRequestId,
+    input: simulationBasis.input,
+    settings: { ...simulationBasis.settings, iterations },
+  };
 
-  const domain = value.trim().split('@')[1]?.toLowerCase() ?? '';
-  if (!domain) {
-    return 'Use a valid business email address.';
+  let worker: Worker;
+  try {
+    worker = getSimulationWorker();
+  } catch (error) {
+    console.error('Unable to start the simulation worker', error);
+    setSimulationStatus('Simulation is unavailable in this browser.');
+    return;
   }
 
-  if (isConsumerDomain(domain)) {
-    return 'Enter a company email rather than a personal domain.';
+  if (optionalSimulationRunButton) {
+    optionalSimulationRunButton.disabled = true;
   }
-
-  return null;
+  setSimulationStatus(`Running ${formatNumber(iterations)} iterations...`);
+  worker.postMessage(request);
 };
 
 const getCookieValue = (name: string): string | undefined => {
@@ -748,20 +951,6 @@ const dispatchHubSpotSubmissionEvent = (detail: { ok: boolean; retried?: boolean
   window.dispatchEvent(new CustomEvent('realm:hubspot-submission', { detail }));
 };
 
-const mapOrganizationSizeToEmployeeCount = (size: OrganizationSizeKey): string => {
-  switch (size) {
-    case 'under-1000-gb':
-      return '999';
-    case '1000-5000-gb':
-      return '3000';
-    case 'over-5000-gb':
-      return '5001';
-    default: {
-      const exhaustiveCheck: never = size;
-      return exhaustiveCheck;
-    }
-  }
-};
 
 const buildHubSpotPayload = (
   snapshot: ExportSnapshot,
@@ -769,15 +958,23 @@ const buildHubSpotPayload = (
   options?: { includeExecutiveSummary?: boolean },
 ): HubSpotSubmissionPayload => {
   const { firstName, lastName } = splitContactName(contactDetails.contactName);
-  const sourceLabels = snapshot.sources.map((endpoint) => endpoint.label);
-  const sourceIds = snapshot.sources.map((endpoint) => endpoint.id);
-  const dataSources = truncateValue(sourceIds.join(';'), 5000);
+  // Custom entries have no HubSpot option value, so they go through as `custom:<label>`.
+  const toHubSpotValue = (endpoint: SelectableEndpoint): string =>
+    endpoint.custom ? `custom:${endpoint.label}` : endpoint.id;
+  const dataSources = truncateValue(snapshot.sources.map(toHubSpotValue).join(';'), 5000);
   const executiveSummary = [
     'Realm Cost Calculator Executive Summary',
     '',
     ...buildScenarioLines(snapshot),
     '',
     ...buildFinancialLines(snapshot),
+    ...(snapshot.projection ? ['', ...buildProjectionLines(snapshot.projection)] : []),
+    '',
+    ...buildInvestmentLines(snapshot),
+    ...(snapshot.competitors.length > 0
+      ? ['', 'Competitive comparison', COMPETITOR_BASIS_NOTE, ...buildCompetitorLines(snapshot)]
+      : []),
+    ...(snapshot.calibrations.length > 0 ? ['', 'Calibration', ...buildCalibrationLines(snapshot)] : []),
   ].join('\n');
 
   const fields: HubSpotSubmissionField[] = [
@@ -785,9 +982,9 @@ const buildHubSpotPayload = (
     { name: 'email', value: contactDetails.contactEmail },
     { name: 'firstname', value: firstName },
     { name: 'lastname', value: lastName },
-    { name: 'siem', value: snapshot.destination.id },
+    { name: 'siem', value: toHubSpotValue(snapshot.destination) },
     { name: 'data_sources', value: dataSources },
-    { name: 'numemployees', value: mapOrganizationSizeToEmployeeCount(snapshot.organizationSize) },
+    { name: 'numemployees', value: String(snapshot.recommendation.employeeCount) },
     { name: 'data_volume', value: snapshot.dailyTerabytes.toFixed(3) },
   ];
 
@@ -852,27 +1049,6 @@ const submitHubSpotExport = async (
   dispatchHubSpotSubmissionEvent({ ok: false, retried: true });
 };
 
-const unlockCriblEstimate = () => {
-  if (!criblUi) {
-    return;
-  }
-  hasUnlockedCriblEstimate = true;
-  if (lastSnapshot) {
-    lastSnapshot = { ...lastSnapshot, criblEstimateUnlocked: true };
-  }
-  hideCriblForm();
-  clearCriblError();
-  criblUi.button.classList.add('metrics__veil-button--unlocked');
-  criblUi.button.disabled = true;
-  criblUi.button.setAttribute('aria-hidden', 'true');
-  criblUi.button.dataset.preview = '';
-  criblUi.button.blur();
-  const snapshotCost = lastSnapshot
-    ? formatCurrency(Math.max(0, lastSnapshot.criblCost))
-    : '--';
-  updateCriblDisplay(snapshotCost);
-};
-
 const populateSelect = (select: HTMLSelectElement, items: SelectableEndpoint[]) => {
   select.innerHTML = '';
   for (const endpoint of items) {
@@ -903,14 +1079,47 @@ const getEndpoint = <T extends SelectableEndpoint>(list: T[], id: string): T =>
 };
 
 const describeSourceReduction = (endpoint: SourceEndpoint): string => {
-  const percentage = (endpoint.realmOptimization * 100).toFixed(0);
-  return `${endpoint.description} - ~${percentage}% Realm reduction assumption`;
+  const { factor, basis } = endpoint.realmReduction;
+  const percentage = (factor * 100).toFixed(0);
+  const basisLabel = basis === 'empirical' ? 'measured' : basis === 'user-supplied' ? 'rep-supplied' : 'assumption';
+  return `${endpoint.description} - ~${percentage}% Realm reduction ${basisLabel}`;
+};
+
+const describePricingModel = (model: DestinationPricingModel): string => {
+  switch (model.kind) {
+    case 'flat-per-tb':
+      return `modeled at ${formatCurrency(model.annualCostPerTb)} annually per 1 TB/day of raw ingest`;
+    case 'license-bands': {
+      const rates = model.bands.map((band) => band.annualCostPerTb);
+      return `licensed in volume bands from ${formatCurrency(Math.max(...rates))} down to ${formatCurrency(
+        Math.min(...rates),
+      )} annually per 1 TB/day of raw ingest`;
+    }
+    case 'ingest-commitment': {
+      const tierSizes = model.commitmentTiers.map((tier) => tier.gigabytesPerDay);
+      return `billed at ${formatUnitRate(model.payAsYouGoPerGb)}/GB pay-as-you-go or the cheapest commitment tier (${formatNumber(
+        Math.min(...tierSizes),
+      )}-${formatNumber(Math.max(...tierSizes))} GB/day)`;
+    }
+    case 'per-employee':
+      return `licensed at ${formatCurrency(model.annualCostPerEmployee)} per employee annually with ${formatDecimal(
+        model.includedGigabytesPerEmployeePerDay,
+      )} GB/employee/day of fair-use ingest, then ${formatCurrency(
+        model.overageAnnualCostPerTb,
+      )} annually per 1 TB/day of overage`;
+    case 'storage-only':
+      return `storage-only at ${formatUnitRate(
+        model.storagePerGbMonth,
+      )}/GB-month of retained data (no analytics license)`;
+    default: {
+      const exhaustiveCheck: never = model;
+      return exhaustiveCheck;
+    }
+  }
 };
 
 const renderDestinationSummary = (element: HTMLElement, endpoint: DestinationEndpoint) => {
-  element.textContent = `${endpoint.description} - modeled at ${formatCurrency(
-    SIEM_ANNUAL_COST_PER_TB,
-  )} annually per 1 TB/day of raw ingest`;
+  element.textContent = `${endpoint.description} - ${describePricingModel(getDestinationPricingModel(endpoint))}`;
 };
 
 const updateSourceSelectionVisual = (button: HTMLButtonElement, isSelected: boolean): void => {
@@ -919,24 +1128,55 @@ const updateSourceSelectionVisual = (button: HTMLButtonElement, isSelected: bool
   button.setAttribute('data-selected', isSelected ? 'true' : 'false');
 };
 
+const INGESTION_METHOD_BADGES: Record<IngestionMethod, string> = {
+  'syslog-collector': 'Syslog',
+  'object-storage': 'Storage',
+  'api-pull': 'API',
+  'event-stream': 'Stream',
+};
+
+const describeSourcePriority = (endpoint: SourceEndpoint): string => {
+  const parts = [endpoint.description];
+  if (endpoint.priority?.ingestionNotes) {
+    parts.push(`Ingestion: ${endpoint.priority.ingestionNotes}`);
+  }
+  if (endpoint.priority && endpoint.priority.outputFormats.length > 0) {
+    parts.push(`Formats: ${endpoint.priority.outputFormats.map((format) => format.toUpperCase()).join(', ')}`);
+  }
+  return parts.join('\n');
+};
+
 const buildSourceList = (): void => {
   requiredSourceList.innerHTML = '';
   sourceSearchRecords = [];
 
-  for (const endpoint of sources) {
+  for (const endpoint of getSourceCatalog()) {
     const button = document.createElement('button');
     button.type = 'button';
     button.className = 'source-list__item';
     button.dataset.sourceId = endpoint.id;
     button.setAttribute('role', 'option');
     button.setAttribute('aria-label', endpoint.label);
-    button.setAttribute('title', endpoint.description);
+    button.setAttribute('title', describeSourcePriority(endpoint));
 
     const label = document.createElement('span');
     label.className = 'source-list__label';
     label.textContent = endpoint.label;
     button.appendChild(label);
 
+    if (endpoint.custom) {
+      const badge = document.createElement('span');
+      badge.className = 'source-list__badge source-list__badge--custom';
+      badge.textContent = 'Custom';
+      button.appendChild(badge);
+    } else if (endpoint.ingestionMethod) {
+      const badge = document.createElement('span');
+      badge.className = 'source-list__badge';
+      badge.dataset.ingestionMethod = endpoint.ingestionMethod;
+      badge.textContent = INGESTION_METHOD_BADGES[endpoint.ingestionMethod];
+      button.appendChild(badge);
+    }
+
     const isSelected = selectedSourceIds.has(endpoint.id);
     updateSourceSelectionVisual(button, isSelected);
 
@@ -958,7 +1198,9 @@ const buildSourceList = (): void => {
     sourceSearchRecords.push({
       id: endpoint.id,
       element: button,
-      tokens: normalizeSearchTerm(`${endpoint.label} ${endpoint.description}`),
+      tokens: normalizeSearchTerm(
+        [endpoint.label, endpoint.description, endpoint.priority?.productType ?? '', endpoint.ingestionMethod ?? ''].join(' '),
+      ),
     });
   }
 
@@ -972,182 +1214,1095 @@ const getSelectedSources = (): SourceEndpoint[] => {
   if (selectedIds.length === 0) {
     return [];
   }
-  return selectedIds.map((id) => getEndpoint(sources, id));
+  return selectedIds.map((id) => sampleMeasuredSources.get(id) ?? getEndpoint(getSourceCatalog(), id));
 };
 
-const renderSourcesSummary = (element: HTMLElement, selectedSources: SourceEndpoint[]) => {
-  if (selectedSources.length === 0) {
-    element.textContent = 'Select at least one source.';
-    element.removeAttribute('title');
-    return;
+const rebalanceSourceVolumeShares = (selectedIds: string[]): void => {
+  for (const id of Array.from(sourceVolumeShares.keys())) {
+    if (!selectedIds.includes(id)) {
+      sourceVolumeShares.delete(id);
+    }
   }
 
-  if (selectedSources.length === 1) {
-    element.textContent = describeSourceReduction(selectedSources[0]);
-    element.title = selectedSources[0].label;
+  if (selectedIds.length === 0) {
     return;
   }
 
-  const combined = summarizeSources(selectedSources);
-  const averageReduction = (combined.realmOptimization * 100).toFixed(0);
-  element.textContent = `${selectedSources.length} sources selected - Avg Realm reduction ~${averageReduction}%`;
-  element.title = selectedSources.map((endpoint) => endpoint.label).join(', ');
+  const addedIds = selectedIds.filter((id) => !sourceVolumeShares.has(id));
+  const retainedTotal = Array.from(sourceVolumeShares.values()).reduce((sum, share) => sum + share, 0);
+  // New sources join with an even share; existing sources keep their relative split.
+  const retainedScale = (selectedIds.length - addedIds.length) / selectedIds.length;
+  for (const [id, share] of sourceVolumeShares) {
+    sourceVolumeShares.set(
+      id,
+      retainedTotal > 0 ? (share / retainedTotal) * retainedScale : retainedScale / sourceVolumeShares.size,
+    );
+  }
+  for (const id of addedIds) {
+    sourceVolumeShares.set(id, 1 / selectedIds.length);
+  }
 };
 
-const resetOutputs = () => {
-  lastSnapshot = null;
-  setExportButtonState(false);
-  requiredStandardCost.textContent = '--';
-  requiredRealmCost.textContent = '--';
-  requiredSavings.textContent = '--';
-  requiredAnnualSavings.textContent = '--';
-  requiredRoiMultiple.textContent = '--';
-  requiredDataReduction.textContent = '--';
-  setTooltipContent('standardBreakdown', '');
-  setTooltipContent('realmBreakdown', '');
-  setTooltipContent('savingsPercent', '');
-  setTooltipContent('annualSavingsBreakdown', '');
-  setTooltipContent('roiBreakdown', '');
-  setTooltipContent('reductionBreakdown', '');
-  updateCriblDisplay('--');
-  clearCriblError();
-  if (!hasUnlockedCriblEstimate) {
-    hideCriblForm();
+const getSourceVolumeWeights = (): Record<string, number> => Object.fromEntries(sourceVolumeShares);
+
+// Event-count units skip the event-size input; bytes come from the recommended event size.
+const isEventCountUnit = (unit: TrafficUnit): boolean => unit === 'events' || unit === 'eps';
+
+const formatTrafficInputValue = (value: number, unit: TrafficUnit): string => {
+  if (isEventCountUnit(unit)) {
+    return Math.round(value).toString();
   }
-  if (optionalCalibrationNote) {
-    optionalCalibrationNote.textContent = '';
-    optionalCalibrationNote.classList.add('field--hidden');
+  if (value > 0 && value < 1) {
+    // Per-employee baselines can be a few GB a day, which rounds to zero terabytes at fixed decimals.
+    return Number(value.toPrecision(2)).toString();
   }
+  const decimals = value >= 100 ? 0 : value >= 10 ? 1 : 2;
+  return Number(value.toFixed(decimals)).toString();
 };
 
-const applyRecommendation = (
-  {
-    overrideTraffic,
-    overrideEventSize,
-  }: { overrideTraffic?: boolean; overrideEventSize?: boolean } = {},
-) => {
-  const size = requiredOrganizationSizeSelect.value as OrganizationSizeKey;
-  const selectedSources = getSelectedSources();
-  const primarySource = selectedSources[0] ?? null;
-  if (!primarySource) {
-    currentRecommendation = null;
-    requiredTrafficRecommendation.textContent =
-      'Select at least one source to view recommended traffic.';
+const TRAFFIC_UNIT_LABELS: Record<TrafficUnit, string> = {
+  events: 'events/day',
+  eps: 'EPS',
+  gigabytes: 'GB/day',
+  terabytes: 'TB/day',
+};
+
+const buildSourceVolumeInputs = (selectedSources: SourceEndpoint[]): void => {
+  if (!optionalSourceVolumeList) {
     return;
   }
 
-  const recommendation = getTrafficRecommendation(primarySource, size);
-  currentRecommendation = recommendation;
-
-  const unitValue = requiredTrafficUnit.value as TrafficUnit;
-  const shouldOverrideTraffic =
-    overrideTraffic ?? (!userTrafficEdited || requiredTrafficInput.value.trim() === '');
-  const shouldOverrideEventSize =
-    optionalEventSizeInput && unitValue !== 'events'
-      ? overrideEventSize ?? (!userEventSizeEdited || optionalEventSizeInput.value.trim() === '')
-      : false;
-
-  if (shouldOverrideTraffic) {
-    if (unitValue === 'events') {
-      requiredTrafficInput.value = Math.round(recommendation.dailyEvents).toString();
-    } else if (unitValue === 'gigabytes') {
-      const volumeInUnits = recommendation.dailyGigabytes;
-      const decimals = volumeInUnits >= 100 ? 0 : volumeInUnits >= 10 ? 1 : 2;
-      requiredTrafficInput.value = Number(volumeInUnits.toFixed(decimals)).toString();
-    } else {
-      const volumeInUnits = recommendation.dailyGigabytes / 1_024;
-      const decimals = volumeInUnits >= 100 ? 0 : volumeInUnits >= 10 ? 1 : 2;
-      requiredTrafficInput.value = Number(volumeInUnits.toFixed(decimals)).toString();
-    }
-    userTrafficEdited = false;
+  optionalSourceVolumeList.innerHTML = '';
+  optionalSourceVolumeField?.classList.toggle('field--hidden', selectedSources.length < 2);
+  if (selectedSources.length < 2) {
+    return;
   }
 
-  if (shouldOverrideEventSize && optionalEventSizeInput) {
-    optionalEventSizeInput.value = recommendation.averageEventSizeKb.toFixed(1);
-    userEventSizeEdited = false;
-  }
+  for (const endpoint of selectedSources) {
+    const row = document.createElement('label');
+    row.className = 'source-volumes__row';
 
-  const recommendationSummary = describeTrafficRecommendation(recommendation);
-  requiredTrafficRecommendation.textContent =
-    selectedSources.length > 1
-      ? `${recommendationSummary} (baseline uses ${primarySource.label}; adjust for additional sources as needed.)`
-      : recommendationSummary;
-};
+    const label = document.createElement('span');
+    label.className = 'source-volumes__label';
+    label.textContent = endpoint.label;
+    row.appendChild(label);
 
-const update = () => {
-  const selectedSources = getSelectedSources();
-  const primarySource = selectedSources[0] ?? null;
-  const destinationId = requiredDestinationSelect.value;
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0';
+    input.className = 'field__input source-volumes__input';
+    input.dataset.sourceVolumeId = endpoint.id;
+    input.setAttribute('aria-label', `${endpoint.label} daily volume`);
+    input.addEventListener('input', handleSourceVolumeInput);
+    row.appendChild(input);
 
-  renderSourcesSummary(requiredSourceSummary, selectedSources);
+    const unit = document.createElement('span');
+    unit.className = 'source-volumes__unit';
+    unit.dataset.role = 'source-volume-unit';
+    row.appendChild(unit);
 
-  let destination: DestinationEndpoint | null = null;
-  if (destinationId) {
-    destination = getEndpoint(destinations, destinationId);
-    renderDestinationSummary(requiredDestinationSummary, destination);
-    requiredDestinationSummary.title = destination.label;
-  } else {
-    requiredDestinationSummary.textContent = 'Select a destination.';
-    requiredDestinationSummary.removeAttribute('title');
+    optionalSourceVolumeList.appendChild(row);
   }
+};
 
-  if (!primarySource || !destination) {
-    currentRecommendation = primarySource ? currentRecommendation : null;
-    requiredTrafficError.textContent = '';
-    if (!primarySource) {
-      requiredTrafficRecommendation.textContent =
-        'Select at least one source to view recommended traffic.';
-    } else {
-      requiredTrafficRecommendation.textContent = 'Select a destination to calculate costs.';
-    }
-    resetOutputs();
+const buildInventoryInputs = (selectedSources: SourceEndpoint[]): void => {
+  if (!optionalInventoryList) {
     return;
   }
 
-  const organizationSizeKey = requiredOrganizationSizeSelect.value as OrganizationSizeKey;
-  const recommendation =
-    currentRecommendation ?? getTrafficRecommendation(primarySource, organizationSizeKey);
-  currentRecommendation = recommendation;
-  const recommendationSummary = describeTrafficRecommendation(recommendation);
-  requiredTrafficRecommendation.textContent =
-    selectedSources.length > 1
-      ? `${recommendationSummary} (baseline uses ${primarySource.label}; adjust for additional sources as needed.)`
-      : recommendationSummary;
+  optionalInventoryList.innerHTML = '';
+  const sizable = selectedSources.flatMap((endpoint) => {
+    const rule = getInventorySizingRule(endpoint);
+    return rule ? [{ endpoint, rule }] : [];
+  });
+  optionalInventoryField?.classList.toggle('field--hidden', sizable.length === 0);
 
-  const unit = requiredTrafficUnit.value as TrafficUnit;
+  for (const { endpoint, rule } of sizable) {
+    const { unitLabel } = inventoryDrivers[rule.driver];
+    const row = document.createElement('label');
+    row.className = 'source-volumes__row';
 
-  const isEventsUnit = unit === 'events';
-  optionalEventSizeField?.classList.toggle('field--hidden', isEventsUnit);
+    const label = document.createElement('span');
+    label.className = 'source-volumes__label';
+    label.textContent = formatEndpointLabel(endpoint);
+    label.title = rule.reference;
+    row.appendChild(label);
+
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.min = '0';
+    input.step = '1';
+    input.placeholder = unitLabel;
+    input.className = 'field__input source-volumes__input';
+    input.dataset.inventorySourceId = endpoint.id;
+    input.setAttribute('aria-label', `${endpoint.label} ${unitLabel}`);
+    input.value = inventoryCounts.get(endpoint.id)?.units.toString() ?? '';
+    row.appendChild(input);
+
+    let classSelect: HTMLSelectElement | null = null;
+    if (rule.driver === 'firewall-appliances') {
+      classSelect = document.createElement('select');
+      classSelect.className = 'field__input source-volumes__input';
+      classSelect.setAttribute('aria-label', `${endpoint.label} throughput class`);
+      for (const profile of Object.values(firewallThroughputClasses)) {
+        const option = document.createElement('option');
+        option.value = profile.id;
+        option.textContent = profile.label;
+        classSelect.appendChild(option);
+      }
+      classSelect.value = inventoryCounts.get(endpoint.id)?.throughputClass ?? 'campus';
+      row.appendChild(classSelect);
+    } else {
+      const unit = document.createElement('span');
+      unit.className = 'source-volumes__unit';
+      unit.textContent = unitLabel;
+      row.appendChild(unit);
+    }
 
-  if (isEventsUnit) {
-    requiredTrafficInput.step = '1000';
-    requiredTrafficInput.placeholder = 'e.g. 2500000';
-  } else if (unit === 'gigabytes') {
-    requiredTrafficInput.step = '1';
-    requiredTrafficInput.placeholder = 'e.g. 750';
-  } else {
-    requiredTrafficInput.step = '0.1';
-    requiredTrafficInput.placeholder = 'e.g. 6.5';
+    const handleChange = () => {
+      const units = Number.parseFloat(input.value);
+      if (Number.isFinite(units) && units > 0) {
+        inventoryCounts.set(endpoint.id, {
+          units,
+          throughputClass: classSelect ? (classSelect.value as FirewallThroughputClass) : undefined,
+        });
+      } else {
+        inventoryCounts.delete(endpoint.id);
+      }
+      applyRecommendation({ overrideTraffic: true, overrideEventSize: true });
+      update();
+    };
+    input.addEventListener('input', handleChange);
+    classSelect?.addEventListener('change', handleChange);
+
+    optionalInventoryList.appendChild(row);
   }
+};
 
-  const rawTraffic = requiredTrafficInput.value.trim();
-  const parsedTraffic = rawTraffic === '' ? 0 : Number.parseFloat(rawTraffic);
+const ARCHIVE_MODE_LABELS: Record<ArchiveRoutingMode, string> = {
+  reduced: 'Data Realm removes',
+  'full-fidelity': 'Full-fidelity raw copy',
+  none: 'Nothing (drop removed data)',
+};
 
-  if (!Number.isFinite(parsedTraffic) || parsedTraffic < 0) {
-    requiredTrafficError.textContent = 'Enter a positive number for daily volume.';
-    resetOutputs();
+const buildArchiveRoutingInputs = (selectedSources: SourceEndpoint[]): void => {
+  if (!optionalArchiveRoutingList) {
     return;
   }
 
-  requiredTrafficError.textContent = '';
+  optionalArchiveRoutingList.innerHTML = '';
+  for (const endpoint of selectedSources) {
+    const row = document.createElement('label');
+    row.className = 'source-volumes__row';
 
-  let averageEventSizeUsed =
-    recommendation.averageEventSizeKb > 0 ? recommendation.averageEventSizeKb : DEFAULT_EVENT_SIZE_KB;
-  if (!isEventsUnit) {
-    if (optionalEventSizeInput) {
-      const rawEventSize = optionalEventSizeInput.value.trim();
-      const parsedEventSize = rawEventSize === '' ? averageEventSizeUsed : Number.parseFloat(rawEventSize);
-      if (!Number.isFinite(parsedEventSize) || parsedEventSize <= 0) {
+    const label = document.createElement('span');
+    label.className = 'source-volumes__label';
+    label.textContent = endpoint.label;
+    row.appendChild(label);
+
+    const select = document.createElement('select');
+    select.className = 'field__input source-volumes__input';
+    select.dataset.archiveSourceId = endpoint.id;
+    select.setAttribute('aria-label', `${endpoint.label} archive routing`);
+    const defaultOption = document.createElement('option');
+    defaultOption.value = '';
+    defaultOption.textContent = 'Default rule';
+    select.appendChild(defaultOption);
+    for (const [mode, modeLabel] of Object.entries(ARCHIVE_MODE_LABELS)) {
+      const option = document.createElement('option');
+      option.value = mode;
+      option.textContent = modeLabel;
+      select.appendChild(option);
+    }
+    select.value = archiveSourceModes.get(endpoint.id) ?? '';
+    select.addEventListener('change', () => {
+      if (select.value === '') {
+        archiveSourceModes.delete(endpoint.id);
+      } else {
+        archiveSourceModes.set(endpoint.id, select.value as ArchiveRoutingMode);
+      }
+      update();
+    });
+    row.appendChild(select);
+
+    optionalArchiveRoutingList.appendChild(row);
+  }
+};
+
+const readArchiveRouting = (selectedSources: SourceEndpoint[]): ArchiveRouting | undefined => {
+  const archiveId = optionalArchiveDestinationSelect?.value ?? '';
+  const hasArchive = archiveId !== '';
+  optionalArchiveModeField?.classList.toggle('field--hidden', !hasArchive);
+  optionalArchiveRetentionField?.classList.toggle('field--hidden', !hasArchive);
+  optionalArchiveRoutingField?.classList.toggle('field--hidden', !hasArchive || selectedSources.length < 2);
+  if (!hasArchive) {
+    return undefined;
+  }
+
+  const sourceModes = Object.fromEntries(
+    selectedSources.flatMap((endpoint) => {
+      const mode = archiveSourceModes.get(endpoint.id);
+      return mode ? [[endpoint.id, mode] as const] : [];
+    }),
+  );
+  return {
+    destination: getEndpoint(archiveDestinations, archiveId),
+    mode: (optionalArchiveModeSelect?.value as ArchiveRoutingMode | undefined) ?? 'reduced',
+    sourceModes,
+  };
+};
+
+const DEFAULT_HOT_RETENTION_DAYS = 90;
+const DEFAULT_ARCHIVE_RETENTION_DAYS = 365;
+
+const parseDaysInput = (input: HTMLInputElement | null, fallback: number): number | null => {
+  const raw = input?.value.trim() ?? '';
+  if (raw === '') {
+    return fallback;
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed) : null;
+};
+
+const readRetentionSettings = (): RetentionSettings | null => {
+  const hotDays = parseDaysInput(optionalHotRetentionInput, DEFAULT_HOT_RETENTION_DAYS);
+  const archiveDays = parseDaysInput(optionalArchiveRetentionInput, DEFAULT_ARCHIVE_RETENTION_DAYS);
+  return hotDays === null || archiveDays === null ? null : { hotDays, archiveDays };
+};
+
+/** Licensed TB/day typed as GB/day; undefined when blank, null when invalid. */
+const readLicensedDailyTerabytes = (): number | undefined | null => {
+  const raw = optionalLicensedVolumeInput?.value.trim() ?? '';
+  if (raw === '') {
+    return undefined;
+  }
+  const gigabytes = Number.parseFloat(raw);
+  return Number.isFinite(gigabytes) && gigabytes > 0 ? gigabytes / 1_024 : null;
+};
+
+/**
+ * Undefined until the commitment, contract price, and renewal date are all filled in; null when
+ * any of them (or the growth override) is invalid.
+ */
+const readLicenseCommitment = (
+  committedDailyTerabytes: number | undefined,
+  defaultGrowthRate: number,
+): LicenseCommitment | undefined | null => {
+  const rawPrice = optionalContractPriceInput?.value.trim() ?? '';
+  const renewalDate = optionalRenewalDateInput?.value ?? '';
+  if (committedDailyTerabytes === undefined || rawPrice === '' || renewalDate === '') {
+    return undefined;
+  }
+  const annualContractPrice = parseCurrencyInput(optionalContractPriceInput);
+  const annualGrowthRate = parsePercentInput(optionalCommitmentGrowthInput, defaultGrowthRate);
+  if (annualContractPrice === null || annualGrowthRate === null || !Number.isFinite(Date.parse(renewalDate))) {
+    return null;
+  }
+  return { committedDailyTerabytes, annualContractPrice, renewalDate, annualGrowthRate };
+};
+
+const formatMonths = (months: number | null): string =>
+  months === null ? 'no limit' : `${formatDecimal(months, { maximumFractionDigits: 0 })} months`;
+
+const describeCommitmentPosition = (label: string, position: CommitmentPosition): string =>
+  `${label} uses ${formatPercent(position.utilization, 0)} of the commitment today and reaches ${formatDecimal(
+    position.renewalTerabytes,
+    { maximumFractionDigits: 2 },
+  )} TB/day at renewal (${
+    position.upgradeRequired ? `upgrade to ${formatCurrency(position.renewalAnnual)}` : 'fits'
+  }; runway ${formatMonths(position.monthsOfHeadroom)})`;
+
+const describeCommitment = ({
+  commitment,
+  monthsToRenewal,
+  baseline,
+  realm,
+  headroomRegainedTerabytes,
+}: CommitmentAnalysis): string =>
+  `${formatDecimal(commitment.committedDailyTerabytes, { maximumFractionDigits: 2 })} TB/day at ${formatCurrency(
+    commitment.annualContractPrice,
+  )} per year, renewing in ${formatDecimal(monthsToRenewal, {
+    maximumFractionDigits: 0,
+  })} months at ${formatPercent(commitment.annualGrowthRate)} growth. ${describeCommitmentPosition(
+    'Raw volume',
+    baseline,
+  )}; ${describeCommitmentPosition('with Realm the optimized volume', realm)}. Realm regains ${formatDecimal(
+    headroomRegainedTerabytes,
+    { maximumFractionDigits: 2 },
+  )} TB/day of headroom.`;
+
+const renderCommitment = (commitment: CommitmentAnalysis | null): void => {
+  optionalCommitmentMetric?.classList.toggle('field--hidden', commitment === null);
+  if (!commitment) {
+    return;
+  }
+  if (avoidedUpgradeEl) {
+    avoidedUpgradeEl.textContent = formatCurrency(commitment.avoidedUpgradeAnnual);
+  }
+  if (commitmentDetailEl) {
+    commitmentDetailEl.textContent = describeCommitment(commitment);
+  }
+};
+
+const formatOverageDays = (days: number): string =>
+  days > 0 && days < 0.1 ? '<0.1' : formatDecimal(days, { maximumFractionDigits: 1 });
+
+const describeBurstRisk = ({ shape, licensedDailyTerabytes, baseline, realm }: BurstAnalysis): string =>
+  `Peak ~${formatNumber(Math.round(baseline.peakEventsPerSecond))} EPS raw (~${formatNumber(
+    Math.round(realm.peakEventsPerSecond),
+  )} after Realm) at ${formatDecimal(shape.peakToAverageRatio, {
+    maximumFractionDigits: 1,
+  })}x the daily average. Against a ${formatNumber(
+    Math.round(licensedDailyTerabytes * 1_024),
+  )} GB/day license with ${formatPercent(shape.dailyVariation, 0)} day-to-day swing: ${formatPercent(
+    baseline.overageProbability,
+  )} of days over today (${formatOverageDays(baseline.overageDaysPerYear)} per year) vs ${formatPercent(
+    realm.overageProbability,
+  )} with Realm (${formatOverageDays(realm.overageDaysPerYear)} per year).`;
+
+const renderBurstRisk = (burst: BurstAnalysis | null): void => {
+  optionalBurstMetric?.classList.toggle('field--hidden', burst === null);
+  if (!burst) {
+    return;
+  }
+  if (overageDaysEl) {
+    overageDaysEl.textContent = `${formatOverageDays(burst.baseline.overageDaysPerYear)} → ${formatOverageDays(
+      burst.realm.overageDaysPerYear,
+    )}`;
+  }
+  if (burstDetailEl) {
+    burstDetailEl.textContent = describeBurstRisk(burst);
+  }
+};
+
+/** Undefined when collectors are left out; null when the peak ratio is invalid. */
+const readInfrastructureSettings = (averageEventSizeKb: number): InfrastructureSettings | undefined | null => {
+  const included = optionalInfrastructureSelect?.value === 'included';
+  optionalPeakRatioField?.classList.toggle('field--hidden', !included);
+  if (!included) {
+    return undefined;
+  }
+  const raw = optionalPeakRatioInput?.value.trim() ?? '';
+  if (raw === '') {
+    return { averageEventSizeKb };
+  }
+  const peakToAverageRatio = Number.parseFloat(raw);
+  return Number.isFinite(peakToAverageRatio) && peakToAverageRatio >= 1
+    ? { averageEventSizeKb, peakToAverageRatio }
+    : null;
+};
+
+const describeCollectors = ({ collectors }: InfrastructureEstimate): string =>
+  collectors
+    .map((row) => {
+      const hosting =
+        row.nodes > 0 ? `${formatNumber(row.nodes)} node${row.nodes === 1 ? '' : 's'}` : 'run by Realm';
+      return `${row.profile.label} ${hosting}${
+        row.egressAnnual > 0 ? ` + ${formatCurrency(row.egressAnnual)} egress` : ''
+      }`;
+    })
+    .join(', ');
+
+const describeInfrastructure = (result: Pick<ScenarioResult, 'infrastructure'>): string => {
+  const { infrastructure } = result;
+  if (!infrastructure) {
+    return '';
+  }
+  return `Peak ~${formatNumber(Math.round(infrastructure.peakEventsPerSecond))} EPS at ${formatDecimal(
+    infrastructure.peakToAverageRatio,
+    { maximumFractionDigits: 1 },
+  )}x the daily average. Without Realm: ${formatCurrency(infrastructure.baseline.annualCost)} (${describeCollectors(
+    infrastructure.baseline,
+  )}). With Realm: ${formatCurrency(infrastructure.realm.annualCost)} (${describeCollectors(infrastructure.realm)}).`;
+};
+
+const renderInfrastructure = (result: ScenarioResult | null): void => {
+  const infrastructure = result?.infrastructure ?? null;
+  optionalInfrastructureMetric?.classList.toggle('field--hidden', infrastructure === null);
+  if (!result || !infrastructure) {
+    return;
+  }
+  if (infrastructureCostEl) {
+    infrastructureCostEl.textContent = formatCurrency(result.infrastructureAnnual);
+  }
+  if (infrastructureDetailEl) {
+    infrastructureDetailEl.textContent = describeInfrastructure(result);
+  }
+};
+
+const renderRetention = (result: ScenarioResult | null): void => {
+  const retention = result?.retention ?? null;
+  const hasExtendedRetention = retention !== null && retention.extendedHotDays > 0;
+  optionalRetentionMetric?.classList.toggle('field--hidden', !hasExtendedRetention);
+  if (!retention || !hasExtendedRetention) {
+    return;
+  }
+  if (retentionCostEl) {
+    retentionCostEl.textContent = formatCurrency(retention.optimizedAnnual);
+  }
+  if (retentionDetailEl) {
+    retentionDetailEl.textContent = `${retention.extendedHotDays} days beyond the ${
+      retention.pricing.includedHotDays
+    } included at ${formatUnitRate(retention.pricing.extendedHotPerGbMonth)}/GB-month: ${formatCurrency(
+      retention.baselineAnnual,
+    )} on raw volume today vs ${formatCurrency(retention.optimizedAnnual)} on Realm-optimized volume.`;
+  }
+};
+
+const renderArchive = (result: ScenarioResult | null): void => {
+  const archive = result?.archive ?? null;
+  optionalArchiveMetric?.classList.toggle('field--hidden', archive === null);
+  if (!archive) {
+    return;
+  }
+  if (archiveCostLabelEl) {
+    archiveCostLabelEl.textContent = `Archive tier: ${archive.destination.label} (annual)`;
+  }
+  if (archiveCostEl) {
+    archiveCostEl.textContent = formatCurrency(archive.annualCost);
+  }
+  if (archiveDetailEl) {
+    archiveDetailEl.textContent = `${formatDecimal(archive.archivedTerabytes, {
+      maximumFractionDigits: 3,
+    })} TB/day routed to the archive${
+      archive.pricing.tierLabel ? ` with ${archive.pricing.tierLabel}` : ''
+    }; ${describePricingModel(archive.pricing.model)}.`;
+  }
+};
+
+const syncSourceVolumeInputs = (totalVolume: number, unit: TrafficUnit): void => {
+  if (!optionalSourceVolumeList) {
+    return;
+  }
+
+  for (const input of Array.from(
+    optionalSourceVolumeList.querySelectorAll<HTMLInputElement>('[data-source-volume-id]'),
+  )) {
+    input.step = requiredTrafficInput.step;
+    // Leave the field being edited alone so typing is not overwritten mid-keystroke.
+    if (input !== document.activeElement) {
+      const share = sourceVolumeShares.get(input.dataset.sourceVolumeId ?? '') ?? 0;
+      input.value = formatTrafficInputValue(totalVolume * share, unit);
+    }
+  }
+  for (const unitLabel of Array.from(
+    optionalSourceVolumeList.querySelectorAll<HTMLElement>('[data-role="source-volume-unit"]'),
+  )) {
+    unitLabel.textContent = TRAFFIC_UNIT_LABELS[unit];
+  }
+};
+
+const handleSourceVolumeInput = (): void => {
+  if (!optionalSourceVolumeList) {
+    return;
+  }
+
+  const entries = Array.from(
+    optionalSourceVolumeList.querySelectorAll<HTMLInputElement>('[data-source-volume-id]'),
+  ).map((input) => {
+    const parsed = Number.parseFloat(input.value.trim());
+    return {
+      id: input.dataset.sourceVolumeId ?? '',
+      value: Number.isFinite(parsed) && parsed > 0 ? parsed : 0,
+    };
+  });
+  const total = entries.reduce((sum, entry) => sum + entry.value, 0);
+  if (total > 0) {
+    for (const entry of entries) {
+      sourceVolumeShares.set(entry.id, entry.value / total);
+    }
+  }
+
+  requiredTrafficInput.value = formatTrafficInputValue(total, requiredTrafficUnit.value as TrafficUnit);
+  userTrafficEdited = true;
+  update();
+};
+
+const renderSourceBreakdown = (breakdown: ScenarioResult['sourceBreakdown']): void => {
+  if (!optionalSourceBreakdown || !optionalSourceBreakdownList) {
+    return;
+  }
+
+  optionalSourceBreakdownList.innerHTML = '';
+  optionalSourceBreakdown.classList.toggle('field--hidden', breakdown.length < 2);
+  if (breakdown.length < 2) {
+    return;
+  }
+
+  for (const row of breakdown) {
+    const item = document.createElement('li');
+    item.className = 'metrics__breakdown-item';
+    item.dataset.sourceBreakdownId = row.source.id;
+    item.textContent = `${formatEndpointLabel(row.source)}: ${formatDecimal(row.dailyTerabytes, {
+      maximumFractionDigits: 3,
+    })} TB/day (${formatDecimal(row.share * 100, {
+      maximumFractionDigits: 1,
+      minimumFractionDigits: 1,
+    })}% of volume) reduced ${formatDecimal(row.reduction * 100, {
+      maximumFractionDigits: 1,
+      minimumFractionDigits: 1,
+    })}% (range ${formatPercentValue(row.reductionRange.low * 100)} - ${formatPercentValue(
+      row.reductionRange.high * 100,
+    )}) to ${formatDecimal(row.optimizedTerabytes, { maximumFractionDigits: 3 })} TB/day${
+      row.archivedTerabytes > 0
+        ? `; ${formatDecimal(row.archivedTerabytes, { maximumFractionDigits: 3 })} TB/day to archive`
+        : ''
+    }${row.calibration ? `; calibrated to ${row.calibration.provenance.customer}` : ''}`;
+    optionalSourceBreakdownList.appendChild(item);
+  }
+};
+
+const TECHNIQUE_LABELS: Record<ReductionTechnique, string> = {
+  deduplication: 'dedupe',
+  'field-pruning': 'field pruning',
+  aggregation: 'aggregation',
+  'noise-filtering': 'noise filtering',
+  'archive-routing': 'routing to archive',
+};
+
+const describeTechniques = (techniques: TechniqueContribution[]): string =>
+  techniques
+    .map((entry) => `${formatPercent(entry.reduction, 0)} ${TECHNIQUE_LABELS[entry.technique]}`)
+    .join(', ');
+
+const renderTechniqueBreakdown = (breakdown: ScenarioResult['sourceBreakdown']): void => {
+  if (!optionalTechniqueBreakdown || !optionalTechniqueBreakdownList) {
+    return;
+  }
+
+  optionalTechniqueBreakdownList.innerHTML = '';
+  optionalTechniqueBreakdown.classList.toggle('field--hidden', breakdown.length === 0);
+
+  for (const row of breakdown) {
+    const item = document.createElement('li');
+    item.className = 'metrics__breakdown-item';
+    item.dataset.techniqueSourceId = row.source.id;
+    const summary = document.createElement('span');
+    summary.textContent = `${row.source.label}: ${describeTechniques(row.techniques)}`;
+    const bar = document.createElement('div');
+    bar.className = 'technique__bar';
+    bar.setAttribute('aria-hidden', 'true');
+    for (const entry of row.techniques) {
+      const segment = document.createElement('span');
+      segment.className = 'technique__segment';
+      segment.dataset.technique = entry.technique;
+      segment.style.width = `${entry.reduction * 100}%`;
+      segment.title = `${TECHNIQUE_LABELS[entry.technique]}: ${formatPercent(entry.reduction)}`;
+      bar.appendChild(segment);
+    }
+    item.append(summary, bar);
+    optionalTechniqueBreakdownList.appendChild(item);
+  }
+};
+
+const parsePercentInput = (input: HTMLInputElement | null, fallback: number): number | null => {
+  const raw = input?.value.trim() ?? '';
+  if (raw === '') {
+    return fallback;
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && parsed > -100 ? parsed / 100 : null;
+};
+
+const readProjectionSettings = (): ProjectionSettings | null => {
+  const years = Number.parseInt(optionalProjectionYearsSelect?.value ?? '1', 10);
+  const annualGrowthRate = parsePercentInput(optionalGrowthRateInput, DEFAULT_ANNUAL_GROWTH_RATE);
+  const siemPriceEscalator = parsePercentInput(optionalSiemEscalatorInput, DEFAULT_SIEM_PRICE_ESCALATOR);
+  if (annualGrowthRate === null || siemPriceEscalator === null) {
+    return null;
+  }
+  return { years: Number.isFinite(years) ? years : 1, annualGrowthRate, siemPriceEscalator };
+};
+
+const formatPercent = (value: number, maximumFractionDigits = 1): string =>
+  `${formatDecimal(value * 100, { maximumFractionDigits })}%`;
+
+/** Reads an amount typed in the selected currency and returns it in USD for the engine. */
+const parseCurrencyInput = (input: HTMLInputElement | null): number | null => {
+  const raw = input?.value.trim() ?? '';
+  if (raw === '') {
+    return 0;
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && parsed >= 0 ? convertToUsd(parsed, activeCurrency) : null;
+};
+
+const getSelectedCurrency = (): CurrencyCode => {
+  const value = optionalCurrencySelect?.value ?? BASE_CURRENCY;
+  return isCurrencyCode(value) ? value : BASE_CURRENCY;
+};
+
+const readCurrencyConversion = (): CurrencyConversion | null => {
+  const currency = getSelectedCurrency();
+  const raw = optionalFxRateInput?.value.trim() ?? '';
+  if (currency === BASE_CURRENCY || raw === '') {
+    return getCurrencyConversion(currency);
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isFinite(parsed) && parsed > 0 ? getCurrencyConversion(currency, parsed) : null;
+};
+
+const syncCurrencyControls = () => {
+  const currency = getSelectedCurrency();
+  const tableRate = FX_RATE_TABLE.unitsPerUsd[currency];
+  optionalFxRateField?.classList.toggle('field--hidden', currency === BASE_CURRENCY);
+  if (optionalFxRateInput) {
+    optionalFxRateInput.value = String(tableRate);
+  }
+  if (optionalFxRateHint) {
+    optionalFxRateHint.textContent =
+      currency === BASE_CURRENCY
+        ? `Other currencies use FX table ${FX_RATE_TABLE.version} (rates as of ${FX_RATE_TABLE.rateDate}).`
+        : `FX table ${FX_RATE_TABLE.version}: ${tableRate} ${currency} per USD as of ${FX_RATE_TABLE.rateDate} (${FX_RATE_TABLE.reference}). Edit the rate to quote at a deal-specific rate.`;
+  }
+  for (const label of Array.from(document.querySelectorAll<HTMLElement>('[data-role="currency-code"]'))) {
+    label.textContent = currency;
+  }
+};
+
+/** Keeps typed implementation costs worth the same amount when the quote currency changes. */
+const rescaleCurrencyInputs = (previous: CurrencyConversion, next: CurrencyConversion) => {
+  for (const input of [
+    optionalOnboardingCostInput,
+    optionalCollectorCostInput,
+    optionalMigrationCostInput,
+    optionalContractPriceInput,
+  ]) {
+    const parsed = Number.parseFloat(input?.value.trim() ?? '');
+    if (input && Number.isFinite(parsed) && parsed > 0) {
+      input.value = String(Math.round(convertFromUsd(convertToUsd(parsed, previous), next)));
+    }
+  }
+};
+
+const readInvestmentSettings = (): InvestmentSettings | null => {
+  const onboarding = parseCurrencyInput(optionalOnboardingCostInput);
+  const collectorInfrastructure = parseCurrencyInput(optionalCollectorCostInput);
+  const migration = parseCurrencyInput(optionalMigrationCostInput);
+  const discountRate = parsePercentInput(optionalDiscountRateInput, DEFAULT_DISCOUNT_RATE);
+  if (onboarding === null || collectorInfrastructure === null || migration === null || discountRate === null) {
+    return null;
+  }
+  return { implementationCosts: { onboarding, collectorInfrastructure, migration }, discountRate };
+};
+
+const formatPaybackPeriod = (paybackMonths: number | null): string => {
+  if (paybackMonths === null) {
+    return 'Not reached';
+  }
+  if (paybackMonths === 0) {
+    return 'Immediate';
+  }
+  if (paybackMonths < 1) {
+    return 'Under 1 month';
+  }
+  return `${formatDecimal(paybackMonths, { maximumFractionDigits: 1, minimumFractionDigits: 1 })} months`;
+};
+
+const formatBreakEvenVolume = (breakEvenDailyTerabytes: number | null): string =>
+  breakEvenDailyTerabytes === null
+    ? 'Not reached'
+    : `${formatDecimal(breakEvenDailyTerabytes, { maximumFractionDigits: 3 })} TB/day`;
+
+const describeBreakEven = (investment: InvestmentAnalysis, destination: DestinationEndpoint): string => {
+  if (investment.breakEvenDailyTerabytes === null) {
+    return `Realm does not keep undercutting ${destination.label} at any modeled volume.`;
+  }
+  if (investment.breakEvenDailyTerabytes === 0) {
+    return `Realm undercuts ${destination.label} at every volume, including the ${REALM_MIN_BILLED_TB} TB/day Realm minimum.`;
+  }
+  return `Above ${formatBreakEvenVolume(investment.breakEvenDailyTerabytes)} of raw volume, Realm (billed from a ${REALM_MIN_BILLED_TB} TB/day minimum) costs less than ${destination.label} at every volume.`;
+};
+
+const renderInvestment = (investment: InvestmentAnalysis | null, destination?: DestinationEndpoint): void => {
+  optionalInvestmentResults?.classList.toggle('field--hidden', investment === null);
+  if (paybackPeriodEl) {
+    paybackPeriodEl.textContent = investment ? formatPaybackPeriod(investment.paybackMonths) : '--';
+  }
+  if (netPresentValueEl) {
+    netPresentValueEl.textContent = investment ? formatCurrency(investment.netPresentValue) : '--';
+  }
+  if (netPresentValueLabelEl) {
+    netPresentValueLabelEl.textContent = investment
+      ? `${investment.years}-year NPV @ ${formatPercent(investment.discountRate)}`
+      : 'NPV';
+  }
+  if (breakEvenVolumeEl) {
+    breakEvenVolumeEl.textContent = investment ? formatBreakEvenVolume(investment.breakEvenDailyTerabytes) : '--';
+  }
+  if (optionalInvestmentSummary) {
+    optionalInvestmentSummary.textContent =
+      investment && destination
+        ? `One-time implementation costs of ${formatCurrency(investment.oneTimeCost)}. ${describeBreakEven(
+            investment,
+            destination,
+          )}`
+        : '';
+  }
+};
+
+const renderProjection = (projection: ScenarioProjection | null): void => {
+  if (!optionalProjectionResults || !optionalProjectionTableBody) {
+    return;
+  }
+
+  optionalProjectionTableBody.innerHTML = '';
+  optionalProjectionResults.classList.toggle('field--hidden', projection === null);
+  if (optionalProjectionSummary) {
+    optionalProjectionSummary.textContent = '';
+  }
+  if (!projection) {
+    return;
+  }
+
+  const realmHeader = document.querySelector<HTMLElement>('#projectionRealmHeader');
+  if (realmHeader) {
+    realmHeader.textContent = [
+      'Realm',
+      ...(projection.totalArchive + projection.totalRetention > 0 ? ['storage'] : []),
+      ...(projection.totalInfrastructure > 0 ? ['collectors'] : []),
+    ].join(' + ');
+  }
+
+  for (const year of projection.years) {
+    const row = document.createElement('tr');
+    const cells = [
+      `Year ${year.year}`,
+      formatDecimal(year.dailyTerabytes, { maximumFractionDigits: 2 }),
+      formatCurrency(year.standardAnnual),
+      formatCurrency(getRealmSideAnnual(year)),
+      formatCurrency(year.annualSavings),
+      formatCurrency(year.cumulativeSavings),
+    ];
+    for (const value of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = value;
+      row.appendChild(cell);
+    }
+    optionalProjectionTableBody.appendChild(row);
+  }
+
+  if (optionalProjectionSummary) {
+    optionalProjectionSummary.textContent = `${projection.years.length}-year cumulative savings of ${formatCurrency(
+      projection.totalSavings,
+    )} assuming ${formatPercent(projection.annualGrowthRate)} annual volume growth and a ${formatPercent(
+      projection.siemPriceEscalator,
+    )} yearly SIEM price escalator.`;
+  }
+};
+
+const formatRealmDifference = (realmAdvantage: number): string =>
+  realmAdvantage >= 0 ? `+${formatCurrency(realmAdvantage)}` : `-${formatCurrency(Math.abs(realmAdvantage))}`;
+
+const COMPETITOR_BASIS_NOTE =
+  'Alternatives pay the destination license on the volume they leave behind. ' +
+  "Realm's all-in price includes it, so Realm's destination cost is archive and extended retention only.";
+
+/**
+ * Rows shared by the results table and the PDF: the status quo, Realm, then each competitor.
+ * "vs Realm" is how much more (+) or less (-) the approach costs per year than Realm.
+ */
+const buildCompetitorRows = (snapshot: ExportSnapshot): string[][] => {
+  const realmSideAnnual = getRealmSideAnnual(snapshot);
+  const storageAnnual = snapshot.archiveAnnual + snapshot.retentionAnnual;
+  const baselineInfrastructure = snapshot.infrastructure?.baseline.annualCost ?? 0;
+  return [
+    [
+      `${snapshot.destination.label} only`,
+      '0%',
+      '--',
+      baselineInfrastructure > 0 ? formatCurrency(baselineInfrastructure) : '--',
+      '--',
+      formatCurrency(snapshot.standardAnnual - baselineInfrastructure),
+      formatCurrency(snapshot.standardAnnual),
+      formatRealmDifference(snapshot.standardAnnual - realmSideAnnual),
+    ],
+    [
+      'Realm Focus',
+      formatPercent(snapshot.averageOptimization, 0),
+      formatCurrency(snapshot.realmAnnual),
+      snapshot.infrastructureAnnual > 0 ? formatCurrency(snapshot.infrastructureAnnual) : '--',
+      '--',
+      storageAnnual > 0 ? formatCurrency(storageAnnual) : '--',
+      formatCurrency(realmSideAnnual),
+      '--',
+    ],
+    ...snapshot.competitors.map((comparison) => [
+      comparison.competitor.label,
+      formatPercent(comparison.reduction, 0),
+      comparison.licenseAnnual > 0 ? formatCurrency(comparison.licenseAnnual) : '--',
+      comparison.infrastructureAnnual > 0 ? formatCurrency(comparison.infrastructureAnnual) : '--',
+      formatCurrency(comparison.operationsAnnual),
+      formatCurrency(comparison.destinationAnnual),
+      formatCurrency(comparison.totalAnnual),
+      formatRealmDifference(comparison.realmAdvantage),
+    ]),
+  ];
+};
+
+const describeCompetitorAssumptions = ({ competitor }: CompetitorComparison): string =>
+  `${competitor.label}: license - ${competitor.licensing.reference} Infrastructure - ${
+    competitor.infrastructure.reference
+  } Operations - ${competitor.operations.engineerFte} FTE; ${competitor.operations.reference} Reduction (${
+    competitor.reduction.basis
+  }) - ${competitor.reduction.reference}`;
+
+const renderCompetitorComparison = (snapshot: ExportSnapshot | null): void => {
+  if (!optionalCompetitorComparison || !optionalCompetitorTableBody) {
+    return;
+  }
+
+  optionalCompetitorTableBody.innerHTML = '';
+  const hasComparisons = snapshot !== null && snapshot.competitors.length > 0;
+  optionalCompetitorComparison.classList.toggle('field--hidden', !hasComparisons);
+  if (!snapshot || !hasComparisons) {
+    return;
+  }
+
+  const rowIds = ['status-quo', 'realm', ...snapshot.competitors.map((comparison) => comparison.competitor.id)];
+  const assumptions = ['', '', ...snapshot.competitors.map(describeCompetitorAssumptions)];
+  buildCompetitorRows(snapshot).forEach((cells, index) => {
+    const row = document.createElement('tr');
+    row.dataset.competitorRow = rowIds[index];
+    if (assumptions[index]) {
+      row.title = assumptions[index];
+    }
+    for (const value of cells) {
+      const cell = document.createElement('td');
+      cell.textContent = value;
+      row.appendChild(cell);
+    }
+    optionalCompetitorTableBody.appendChild(row);
+  });
+};
+
+const buildCompetitorLines = (snapshot: ExportSnapshot): string[] =>
+  snapshot.competitors.map(
+    (comparison) =>
+      `${comparison.competitor.label}: ${formatCurrency(comparison.totalAnnual)} per year (license ${formatCurrency(
+        comparison.licenseAnnual,
+      )}, infrastructure ${formatCurrency(comparison.infrastructureAnnual)}, operations ${formatCurrency(
+        comparison.operationsAnnual,
+      )}, destination ${formatCurrency(comparison.destinationAnnual)} after removing ${formatPercent(
+        comparison.reduction,
+        0,
+      )}); ${
+        comparison.realmAdvantage >= 0
+          ? `Realm costs ${formatCurrency(comparison.realmAdvantage)} less`
+          : `Realm costs ${formatCurrency(Math.abs(comparison.realmAdvantage))} more`
+      }.`,
+  );
+
+const renderSourcesSummary = (element: HTMLElement, selectedSources: SourceEndpoint[]) => {
+  if (selectedSources.length === 0) {
+    element.textContent = 'Select at least one source.';
+    element.removeAttribute('title');
+    return;
+  }
+
+  if (selectedSources.length === 1) {
+    element.textContent = describeSourceReduction(selectedSources[0]);
+    element.title = formatEndpointLabel(selectedSources[0]);
+    return;
+  }
+
+  const combined = summarizeSources(selectedSources, getSourceVolumeWeights());
+  const averageReduction = (combined.realmOptimization * 100).toFixed(0);
+  element.textContent = `${selectedSources.length} sources selected - Volume-weighted Realm reduction ~${averageReduction}%`;
+  element.title = selectedSources.map(formatEndpointLabel).join(', ');
+};
+
+const resetOutputs = () => {
+  lastSnapshot = null;
+  setExportButtonState(false);
+  requiredStandardCost.textContent = '--';
+  requiredRealmCost.textContent = '--';
+  requiredSavings.textContent = '--';
+  requiredAnnualSavings.textContent = '--';
+  requiredRoiMultiple.textContent = '--';
+  requiredDataReduction.textContent = '--';
+  setTooltipContent('standardBreakdown', '');
+  setTooltipContent('realmBreakdown', '');
+  setTooltipContent('savingsPercent', '');
+  setTooltipContent('annualSavingsBreakdown', '');
+  setTooltipContent('roiBreakdown', '');
+  setTooltipContent('reductionBreakdown', '');
+  renderMetricRange(optionalAnnualSavingsRange, '');
+  renderMetricRange(optionalRoiRange, '');
+  renderMetricRange(optionalDataReductionRange, '');
+  renderSourceBreakdown([]);
+  renderTechniqueBreakdown([]);
+  renderProjection(null);
+  renderInvestment(null);
+  renderArchive(null);
+  renderRetention(null);
+  renderInfrastructure(null);
+  renderBurstRisk(null);
+  renderCommitment(null);
+  simulationBasis = null;
+  clearSimulationResults();
+  optionalSimulation?.classList.add('field--hidden');
+  renderCompetitorComparison(null);
+  if (optionalCalibrationNote) {
+    optionalCalibrationNote.textContent = '';
+    optionalCalibrationNote.classList.add('field--hidden');
+  }
+};
+
+/** The exact headcount when entered, else the selected band's representative headcount. */
+const readEmployeeCount = (): number => {
+  const employeeCount = Number.parseFloat(optionalEmployeeCountInput?.value ?? '');
+  return Number.isFinite(employeeCount) && employeeCount > 0
+    ? Math.round(employeeCount)
+    : getOrganizationSizeMeta(requiredOrganizationSizeSelect.value as OrganizationSizeKey).representativeEmployeeCount;
+};
+
+const applyOrganizationSizePreset = (): void => {
+  if (optionalEmployeeCountInput) {
+    optionalEmployeeCountInput.value = String(
+      getOrganizationSizeMeta(requiredOrganizationSizeSelect.value as OrganizationSizeKey).representativeEmployeeCount,
+    );
+  }
+};
+
+const applyRecommendation = (
+  {
+    overrideTraffic,
+    overrideEventSize,
+  }: { overrideTraffic?: boolean; overrideEventSize?: boolean } = {},
+) => {
+  const selectedSources = getSelectedSources();
+  if (selectedSources.length === 0) {
+    currentRecommendation = null;
+    requiredTrafficRecommendation.textContent =
+      'Select at least one source to view recommended traffic.';
+    return;
+  }
+
+  const recommendation = getInventoryRecommendation(
+    selectedSources,
+    Object.fromEntries(inventoryCounts),
+    readEmployeeCount(),
+  );
+  currentRecommendation = recommendation;
+
+  const unitValue = requiredTrafficUnit.value as TrafficUnit;
+  const shouldOverrideTraffic =
+    overrideTraffic ?? (!userTrafficEdited || requiredTrafficInput.value.trim() === '');
+  const shouldOverrideEventSize =
+    optionalEventSizeInput && !isEventCountUnit(unitValue)
+      ? overrideEventSize ?? (!userEventSizeEdited || optionalEventSizeInput.value.trim() === '')
+      : false;
+
+  if (shouldOverrideTraffic) {
+    const volumeInUnits = {
+      events: recommendation.dailyEvents,
+      eps: recommendation.dailyEvents / SECONDS_PER_DAY,
+      gigabytes: recommendation.dailyGigabytes,
+      terabytes: recommendation.dailyGigabytes / 1_024,
+    }[unitValue];
+    requiredTrafficInput.value = formatTrafficInputValue(volumeInUnits, unitValue);
+    userTrafficEdited = false;
+    if (recommendation.inventory.length > 0 && recommendation.dailyGigabytes > 0) {
+      // Inventory sizes sources individually, so it also sets the split across them.
+      const sourceGigabytes = getRecommendedSourceVolumes(recommendation, selectedSources);
+      for (const source of selectedSources) {
+        sourceVolumeShares.set(source.id, (sourceGigabytes[source.id] ?? 0) / recommendation.dailyGigabytes);
+      }
+    }
+  }
+
+  if (shouldOverrideEventSize && optionalEventSizeInput) {
+    optionalEventSizeInput.value = formatEventSizeKb(recommendation.averageEventSizeKb);
+    userEventSizeEdited = false;
+  }
+
+  requiredTrafficRecommendation.textContent = describeTrafficRecommendation(recommendation);
+};
+
+const getCachedBreakEven = (scenarioInput: ScenarioInput): number | null => {
+  const key = JSON.stringify({ ...scenarioInput, dailyTerabytes: 0 });
+  if (breakEvenCache?.key !== key) {
+    breakEvenCache = { key, breakEvenDailyTerabytes: findBreakEvenDailyTerabytes(scenarioInput) };
+  }
+  return breakEvenCache.breakEvenDailyTerabytes;
+};
+
+const update = () => {
+  const selectedSources = getSelectedSources();
+  const primarySource = selectedSources[0] ?? null;
+  const destinationId = requiredDestinationSelect.value;
+
+  renderSourcesSummary(requiredSourceSummary, selectedSources);
+
+  let destination: DestinationEndpoint | null = null;
+  if (destinationId) {
+    destination = getEndpoint(getDestinationCatalog(), destinationId);
+    renderDestinationSummary(requiredDestinationSummary, destination);
+    requiredDestinationSummary.title = destination.label;
+  } else {
+    requiredDestinationSummary.textContent = 'Select a destination.';
+    requiredDestinationSummary.removeAttribute('title');
+  }
+
+  if (!primarySource || !destination) {
+    currentRecommendation = primarySource ? currentRecommendation : null;
+    requiredTrafficError.textContent = '';
+    if (!primarySource) {
+      requiredTrafficRecommendation.textContent =
+        'Select at least one source to view recommended traffic.';
+    } else {
+      requiredTrafficRecommendation.textContent = 'Select a destination to calculate costs.';
+    }
+    resetOutputs();
+    return;
+  }
+
+  const employeeCount = readEmployeeCount();
+  const organizationSizeKey = getOrganizationSizeForEmployees(employeeCount).id;
+  const recommendation =
+    currentRecommendation ??
+    getInventoryRecommendation(selectedSources, Object.fromEntries(inventoryCounts), employeeCount);
+  currentRecommendation = recommendation;
+  requiredTrafficRecommendation.textContent = describeTrafficRecommendation(recommendation);
+
+  const unit = requiredTrafficUnit.value as TrafficUnit;
+
+  const isEventsUnit = isEventCountUnit(unit);
+  optionalEventSizeField?.classList.toggle('field--hidden', isEventsUnit);
+
+  if (unit === 'events') {
+    requiredTrafficInput.step = '1000';
+    requiredTrafficInput.placeholder = 'e.g. 2500000';
+  } else if (unit === 'eps') {
+    requiredTrafficInput.step = '100';
+    requiredTrafficInput.placeholder = 'e.g. 25000';
+  } else if (unit === 'gigabytes') {
+    requiredTrafficInput.step = '1';
+    requiredTrafficInput.placeholder = 'e.g. 750';
+  } else {
+    requiredTrafficInput.step = '0.1';
+    requiredTrafficInput.placeholder = 'e.g. 6.5';
+  }
+
+  const rawTraffic = requiredTrafficInput.value.trim();
+  const parsedTraffic = rawTraffic === '' ? 0 : Number.parseFloat(rawTraffic);
+
+  if (!Number.isFinite(parsedTraffic) || parsedTraffic < 0) {
+    requiredTrafficError.textContent = 'Enter a positive number for daily volume.';
+    resetOutputs();
+    return;
+  }
+
+  requiredTrafficError.textContent = '';
+
+  let averageEventSizeUsed =
+    recommendation.averageEventSizeKb > 0 ? recommendation.averageEventSizeKb : DEFAULT_EVENT_SIZE_KB;
+  if (!isEventsUnit) {
+    if (optionalEventSizeInput) {
+      const rawEventSize = optionalEventSizeInput.value.trim();
+      const parsedEventSize = rawEventSize === '' ? averageEventSizeUsed : Number.parseFloat(rawEventSize);
+      if (!Number.isFinite(parsedEventSize) || parsedEventSize <= 0) {
         requiredTrafficError.textContent = 'Enter a positive average event size in KB.';
         resetOutputs();
         return;
@@ -1156,37 +2311,146 @@ const update = () => {
     }
   }
 
-  let dailyEvents = parsedTraffic;
-  if (!isEventsUnit) {
-    const kbPerUnit = unit === 'gigabytes' ? KB_PER_GIGABYTE : KB_PER_TERABYTE;
-    dailyEvents = averageEventSizeUsed > 0 ? (parsedTraffic * kbPerUnit) / averageEventSizeUsed : 0;
+  const { dailyEvents, dailyTerabytes } = convertDailyVolume(parsedTraffic, unit, averageEventSizeUsed);
+
+  const projectionSettings = readProjectionSettings();
+  for (const field of Array.from(
+    document.querySelectorAll<HTMLElement>('[data-role="projection-rate-field"]'),
+  )) {
+    field.classList.toggle('field--hidden', (projectionSettings?.years ?? 1) <= 1);
+  }
+  if (!projectionSettings) {
+    if (optionalProjectionError) {
+      optionalProjectionError.textContent = 'Enter growth and escalator rates as percentages above -100.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalProjectionError) {
+    optionalProjectionError.textContent = '';
+  }
+
+  const currencyConversion = readCurrencyConversion();
+  if (!currencyConversion) {
+    if (optionalCurrencyError) {
+      optionalCurrencyError.textContent = 'Enter a positive exchange rate.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalCurrencyError) {
+    optionalCurrencyError.textContent = '';
+  }
+  activeCurrency = currencyConversion;
+
+  const investmentSettings = readInvestmentSettings();
+  if (!investmentSettings) {
+    if (optionalImplementationError) {
+      optionalImplementationError.textContent =
+        'Enter implementation costs as positive amounts and a discount rate above -100%.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalImplementationError) {
+    optionalImplementationError.textContent = '';
+  }
+
+  const retentionSettings = readRetentionSettings();
+  if (!retentionSettings) {
+    if (optionalRetentionError) {
+      optionalRetentionError.textContent = 'Enter retention as a whole number of days (0 or more).';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalRetentionError) {
+    optionalRetentionError.textContent = '';
+  }
+
+  const licensedDailyTerabytes = readLicensedDailyTerabytes();
+  if (licensedDailyTerabytes === null) {
+    if (optionalLicensedVolumeError) {
+      optionalLicensedVolumeError.textContent = 'Enter the licensed daily ingest as a positive number of GB.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalLicensedVolumeError) {
+    optionalLicensedVolumeError.textContent = '';
+  }
+
+  const licenseCommitment = readLicenseCommitment(licensedDailyTerabytes, projectionSettings.annualGrowthRate);
+  if (licenseCommitment === null) {
+    if (optionalCommitmentError) {
+      optionalCommitmentError.textContent =
+        'Enter a positive contract price, a valid renewal date, and growth above -100%.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalCommitmentError) {
+    optionalCommitmentError.textContent = '';
   }
-  const dailyGigabytes = (dailyEvents * averageEventSizeUsed) / KB_PER_GIGABYTE;
-  const dailyTerabytes = dailyGigabytes / 1_024;
 
+  const infrastructureSettings = readInfrastructureSettings(averageEventSizeUsed);
+  if (infrastructureSettings === null) {
+    if (optionalInfrastructureError) {
+      optionalInfrastructureError.textContent = 'Enter a peak-to-average ratio of 1 or more.';
+    }
+    resetOutputs();
+    return;
+  }
+  if (optionalInfrastructureError) {
+    optionalInfrastructureError.textContent = '';
+  }
+
+  syncSourceVolumeInputs(parsedTraffic, unit);
+  const sourceVolumes = getSourceVolumeWeights();
+  const scenarioInput: ScenarioInput = {
+    sources: selectedSources,
+    destination,
+    dailyTerabytes,
+    sourceVolumes,
+    employeeCount,
+    archive: readArchiveRouting(selectedSources),
+    retention: retentionSettings,
+    infrastructure: infrastructureSettings,
+  };
+  const result = calculate(scenarioInput);
+  const projection =
+    projectionSettings.years > 1 ? projectScenario(scenarioInput, projectionSettings) : null;
+  const investment = analyzeInvestment(
+    scenarioInput,
+    projectionSettings,
+    investmentSettings,
+    getCachedBreakEven(scenarioInput),
+  );
+  const commitment =
+    licenseCommitment && dailyTerabytes > 0
+      ? analyzeCommitment(scenarioInput, licenseCommitment, new Date().toISOString().slice(0, 10))
+      : null;
+  const burst = analyzeBurstRisk(scenarioInput, { averageEventSizeKb: averageEventSizeUsed, licensedDailyTerabytes });
   const {
-  standardCost,
-    realmCost,
-  savings,
-  savingsPercentage,
-  annualSavings,
-  standardAnnual,
+    standardAnnual,
     realmAnnual,
-  roiMultiple,
-  baselineTerabytes,
-  optimizedTerabytes,
-  billedTerabytes,
-  dataReductionTb,
-  dataReductionPercentage,
+    annualSavings,
+    savingsPercentage,
+    roiMultiple,
+    baselineTerabytes,
+    optimizedTerabytes,
+    billedTerabytes,
+    dataReductionTb,
+    dataReductionPercentage,
     baselineRatePerTb,
     realmRatePerTb,
     averageOptimization,
     calibrationNote,
-  } = calculate({
-    sources: selectedSources,
-    destination,
-    dailyTerabytes,
-  });
+    ranges,
+    archiveAnnual,
+  } = result;
+  const rangeText = describeScenarioRanges(ranges);
+  const hasVolume = baselineTerabytes > 0;
 
   requiredStandardCost.textContent = formatCurrency(Math.max(0, standardAnnual));
   requiredRealmCost.textContent = formatCurrency(Math.max(0, realmAnnual));
@@ -1204,12 +2468,30 @@ const update = () => {
           { maximumFractionDigits: 1, minimumFractionDigits: 1 },
         )}% less)`
       : '--';
-  const standardTooltipMessage = `${destination.label} modeled at ${formatCurrency(
-    baselineRatePerTb,
-  )} annually per 1 TB/day = ${formatCurrency(standardAnnual)} per year at ${formatDecimal(
-    baselineTerabytes,
-    { maximumFractionDigits: 3 },
-  )} TB/day.`;
+  renderMetricRange(optionalAnnualSavingsRange, hasVolume ? rangeText.annualSavings : '');
+  renderMetricRange(optionalRoiRange, roiMultiple > 0 ? rangeText.roiMultiple : '');
+  renderMetricRange(optionalDataReductionRange, hasVolume ? rangeText.dataReduction : '');
+  const { tierLabel } = result.destinationPricing;
+  const standardTooltipMessage = `${destination.label}${
+    tierLabel ? ` (${tierLabel})` : ''
+  } = ${formatCurrency(standardAnnual)} per year at ${formatDecimal(baselineTerabytes, {
+    maximumFractionDigits: 3,
+  })} TB/day, an effective ${formatCurrency(baselineRatePerTb)} annually per 1 TB/day${
+    result.retention && result.retention.baselineAnnual > 0
+      ? ` (includes ${formatCurrency(result.retention.baselineAnnual)} for ${
+          result.retention.extendedHotDays
+        } days of extended retention)`
+      : ''
+  }${
+    result.infrastructure
+      ? ` (includes ${formatCurrency(result.infrastructure.baseline.annualCost)} of collector infrastructure)`
+      : ''
+  }.`;
+  if (optionalStandardCostLabel) {
+    optionalStandardCostLabel.textContent = `Traditional ${destination.label} (annual @ ${formatCompactCurrency(
+      baselineRatePerTb,
+    )} per 1 TB/day)`;
+  }
   setTooltipContent('standardBreakdown', standardTooltipMessage);
   const realmTooltipMessageParts = [
     `Realm trims ${(averageOptimization * 100).toFixed(0)}% of daily volume to ${formatDecimal(
@@ -1222,6 +2504,20 @@ const update = () => {
     )} TB/day billed at ${formatCurrency(realmRatePerTb)} annually per 1 TB/day = ${formatCurrency(
       realmAnnual,
     )} per year.`,
+    ...(result.archive
+      ? [
+          `${result.archive.destination.label} archive: ${formatCurrency(archiveAnnual)} per year for ${formatDecimal(
+            result.archive.archivedTerabytes,
+            { maximumFractionDigits: 3 },
+          )} TB/day.`,
+        ]
+      : []),
+    ...(result.retentionAnnual > 0
+      ? [`Extended retention on the optimized volume: ${formatCurrency(result.retentionAnnual)} per year.`]
+      : []),
+    ...(result.infrastructure
+      ? [`Collector infrastructure still hosted: ${formatCurrency(result.infrastructureAnnual)} per year.`]
+      : []),
   ];
   const realmTooltipMessage =
     !optionalCalibrationNote && calibrationNote
@@ -1235,27 +2531,59 @@ const update = () => {
         })} TB/day in raw telemetry reduced by ${formatDecimal(reductionPercentDisplay, {
           maximumFractionDigits: 1,
           minimumFractionDigits: 1,
-        })}% to ${formatDecimal(optimizedTerabytes, { maximumFractionDigits: 3 })} TB.`
+        })}% to ${formatDecimal(optimizedTerabytes, { maximumFractionDigits: 3 })} TB. Low to high: ${
+          rangeText.dataReduction
+        }.`
       : '';
   setTooltipContent('reductionBreakdown', reductionTooltipMessage);
+  // The same terms getRealmSideAnnual sums, so both tooltips add up to the headline figures.
+  const realmSideTerms = [
+    { label: 'Realm', annual: realmAnnual },
+    { label: 'archive', annual: archiveAnnual },
+    { label: 'extended retention', annual: result.retentionAnnual },
+    { label: 'collector infrastructure', annual: result.infrastructureAnnual },
+  ].filter((term, index) => index === 0 || term.annual > 0);
   const annualSavingsTooltip =
     annualSavings > 0
-      ? `Annual savings = ${formatCurrency(standardAnnual)} (traditional) minus ${formatCurrency(
-          realmAnnual,
-        )} (Realm).`
+      ? `Annual savings = ${formatCurrency(standardAnnual)} (traditional)${realmSideTerms
+          .map((term) => ` minus ${formatCurrency(term.annual)} (${term.label})`)
+          .join('')}. Low to high: ${rangeText.annualSavings}.`
       : 'Annual savings will appear after you enter a positive daily volume.';
   setTooltipContent('dailySavingsBreakdown', annualSavingsTooltip);
   const roiTooltipMessage =
     roiMultiple > 0
       ? `ROI = savings (${formatCurrency(annualSavings)}) divided by Realm cost (${formatCurrency(
-          realmAnnual,
-        )}).`
+          getRealmSideAnnual(result),
+        )}${
+          realmSideTerms.length > 1
+            ? `: ${realmSideTerms.map((term) => `${formatCurrency(term.annual)} ${term.label}`).join(' + ')}`
+            : ''
+        }). Low to high: ${rangeText.roiMultiple}.`
       : 'ROI becomes available after entering a valid volume.';
   setTooltipContent('roiBreakdown', roiTooltipMessage);
-  const averageEventSizeForSnapshot = averageEventSizeUsed;
-  const criblCost = estimateCriblCost(dailyTerabytes);
+  renderSourceBreakdown(result.sourceBreakdown);
+  renderTechniqueBreakdown(result.sourceBreakdown);
+  renderArchive(result);
+  renderRetention(result);
+  renderInfrastructure(result);
+  renderBurstRisk(baselineTerabytes > 0 ? burst : null);
+  renderCommitment(commitment);
+  renderProjection(projection);
+  renderInvestment(investment, destination);
+  simulationBasis = {
+    input: scenarioInput,
+    settings: {
+      annualGrowthRate: projectionSettings.annualGrowthRate,
+      averageEventSizeKb: averageEventSizeUsed,
+      dailyEvents: isEventsUnit ? dailyEvents : undefined,
+    },
+  };
+  clearSimulationResults();
+  optionalSimulation?.classList.toggle('field--hidden', baselineTerabytes <= 0);
+  const competitorComparisons = baselineTerabytes > 0 ? compareCompetitors(scenarioInput) : [];
 
   lastSnapshot = {
+    ...result,
     sources: selectedSources,
     destination,
     trafficUnit: unit,
@@ -1264,30 +2592,18 @@ const update = () => {
     dailyInput: parsedTraffic,
     dailyEvents,
     dailyTerabytes,
-    averageEventSizeKb: averageEventSizeForSnapshot,
-    annualSavings,
-    standardAnnual,
-    realmAnnual,
-    criblCost,
-    criblEstimateUnlocked: hasUnlockedCriblEstimate,
-    standardCost,
-    realmCost,
-    savings,
-    savingsPercentage,
-    roiMultiple,
-    baselineTerabytes,
-    optimizedTerabytes,
-    billedTerabytes,
-    dataReductionTb,
-    dataReductionPercentage,
-    baselineRatePerTb,
-    realmRatePerTb,
-    averageOptimization,
-    calibrationNote,
+    sourceVolumes,
+    projection,
+    investment,
+    burst,
+    commitment,
+    currency: currencyConversion,
+    competitors: competitorComparisons,
+    averageEventSizeKb: averageEventSizeUsed,
   };
   setExportButtonState(true);
 
-  updateCriblDisplay(formatCurrency(Math.max(0, criblCost)));
+  renderCompetitorComparison(lastSnapshot);
   if (optionalCalibrationNote) {
     optionalCalibrationNote.textContent = calibrationNote;
     optionalCalibrationNote.classList.toggle('field--hidden', calibrationNote === '');
@@ -1295,19 +2611,27 @@ const update = () => {
   const savingsTooltipMessage = savingsPercentage
     ? `${savingsPercentage >= 0 ? 'Savings of' : 'Increase of'} ${Math.abs(
         savingsPercentage,
-      ).toFixed(1)}% vs traditional SIEM pricing at ${formatCurrency(baselineRatePerTb)} per TB.`
+      ).toFixed(1)}% vs traditional SIEM pricing at ${formatCurrency(
+        baselineRatePerTb,
+      )} per TB. Low to high: ${rangeText.annualSavings} (${rangeText.savingsPercentage}).`
     : 'No savings at current volume.';
   setTooltipContent('savingsPercent', savingsTooltipMessage);
 };
 
 const describeDailyVolume = (snapshot: ExportSnapshot): string => {
   const averageSize = formatDecimal(snapshot.averageEventSizeKb, { maximumFractionDigits: 2 });
-  if (snapshot.trafficUnit === 'events') {
+  if (isEventCountUnit(snapshot.trafficUnit)) {
     const dailyGigabytes = (snapshot.dailyEvents * snapshot.averageEventSizeKb) / KB_PER_GIGABYTE;
     const volumeDisplay = formatDecimal(dailyGigabytes, {
       maximumFractionDigits: dailyGigabytes >= 10 ? 1 : 2,
     });
-    return `${formatNumber(Math.round(snapshot.dailyInput))} events/day (~${volumeDisplay} GB at ${averageSize} KB per event)`;
+    const eventsDisplay =
+      snapshot.trafficUnit === 'eps'
+        ? `${formatNumber(Math.round(snapshot.dailyInput))} EPS average (${formatNumber(
+            Math.round(snapshot.dailyEvents),
+          )} events/day)`
+        : `${formatNumber(Math.round(snapshot.dailyInput))} events/day`;
+    return `${eventsDisplay} (~${volumeDisplay} GB at ${averageSize} KB per event)`;
   }
 
   const unitLabel = snapshot.trafficUnit === 'gigabytes' ? 'GB' : 'TB';
@@ -1321,11 +2645,41 @@ const buildStakeholderLines = (details: ExportContactDetails): string[] => [
   `Work email: ${details.contactEmail}`,
 ];
 
+const describeCustomSource = (source: SourceEndpoint): string =>
+  `${trafficCategoryLabels[source.trafficCategory ?? FALLBACK_TRAFFIC_CATEGORY]}; ${formatPercent(
+    source.realmReduction.factor,
+    0,
+  )} Realm reduction (${source.realmReduction.basis === 'user-supplied' ? 'rep-supplied' : 'category default'})`;
+
+const describeCustomDestination = (destination: DestinationEndpoint): string =>
+  destination.pricing ? describePricingModel(destination.pricing) : 'priced at the traditional SIEM benchmark';
+
+const buildCustomIntegrationLines = (snapshot: ExportSnapshot): string[] => [
+  ...snapshot.sources
+    .filter((source) => source.custom)
+    .map((source) => `Custom source (${source.label}): ${describeCustomSource(source)}.`),
+  ...(snapshot.destination.custom
+    ? [`Custom destination (${snapshot.destination.label}): ${describeCustomDestination(snapshot.destination)}.`]
+    : []),
+];
+
+const buildSampleAnalysisLines = (snapshot: ExportSnapshot): string[] =>
+  snapshot.sources
+    .filter((source) => sampleMeasuredSources.has(source.id))
+    .map(
+      (source) =>
+        `Sample-measured reduction (${source.label}): ${formatPercent(source.realmReduction.factor, 0)}. ${
+          source.realmReduction.reference
+        }`,
+    );
+
 const buildScenarioLines = (snapshot: ExportSnapshot): string[] => {
-  const sourceLabels = snapshot.sources.map((endpoint) => endpoint.label);
+  const sourceLabels = snapshot.sources.map(formatEndpointLabel);
   const lines = [
     `Sources (${snapshot.sources.length}): ${sourceLabels.join(', ')}`,
-    `Destination: ${snapshot.destination.label}`,
+    `Destination: ${formatEndpointLabel(snapshot.destination)}`,
+    ...buildCustomIntegrationLines(snapshot),
+    ...buildSampleAnalysisLines(snapshot),
   ];
 
   for (const source of snapshot.sources) {
@@ -1339,11 +2693,31 @@ const buildScenarioLines = (snapshot: ExportSnapshot): string[] => {
   }
 
   if (snapshot.sources.length > 1) {
-    const combined = summarizeSources(snapshot.sources);
     lines.push(
-      `Average Realm reduction across sources: ${(combined.realmOptimization * 100).toFixed(0)}% typical.`,
-      'Scenario assumes evenly distributed volume across selected sources.',
+      `Volume-weighted Realm reduction across sources: ${(snapshot.averageOptimization * 100).toFixed(0)}% typical.`,
     );
+    for (const row of snapshot.sourceBreakdown) {
+      lines.push(
+        `Volume allocation (${formatEndpointLabel(row.source)}): ${formatDecimal(row.dailyTerabytes, {
+          maximumFractionDigits: 3,
+        })} TB/day (${(row.share * 100).toFixed(1)}% of volume) reduced ${(row.reduction * 100).toFixed(
+          1,
+        )}% to ${formatDecimal(row.optimizedTerabytes, { maximumFractionDigits: 3 })} TB/day${
+          row.archivedTerabytes > 0
+            ? `; ${formatDecimal(row.archivedTerabytes, { maximumFractionDigits: 3 })} TB/day to archive`
+            : ''
+        }.`,
+      );
+    }
+  }
+
+  for (const row of snapshot.sourceBreakdown) {
+    if (row.techniques.length > 0) {
+      lines.push(`Reduction techniques (${row.source.label}): ${describeTechniques(row.techniques)}.`);
+    }
+  }
+  if (snapshot.sources.length > 1 && snapshot.techniques.length > 0) {
+    lines.push(`Reduction techniques across sources (share of raw volume): ${describeTechniques(snapshot.techniques)}.`);
   }
 
   lines.push(
@@ -1360,6 +2734,26 @@ const buildScenarioLines = (snapshot: ExportSnapshot): string[] => {
   return lines;
 };
 
+const buildCalibrationLines = (snapshot: ExportSnapshot): string[] =>
+  snapshot.calibrations.map(({ calibration, sourceIds, share }) => {
+    const { provenance } = calibration;
+    const sourceLabels = snapshot.sources
+      .filter((source) => sourceIds.includes(source.id))
+      .map((source) => source.label)
+      .join(' + ');
+    const sample =
+      provenance.sampleDays !== undefined && provenance.sampleTerabytesPerDay !== undefined
+        ? `${provenance.sampleDays} days at ${formatDecimal(provenance.sampleTerabytesPerDay, {
+            maximumFractionDigits: 3,
+          })} TB/day`
+        : 'not recorded';
+    return `${provenance.customer} (${sourceLabels}): ${formatPercent(
+      calibration.measuredReduction,
+    )} measured reduction applied to ${formatPercent(share)} of volume; measured ${
+      provenance.measuredOn ?? 'on an unrecorded date'
+    }; sample ${sample}. ${provenance.reference}`;
+  });
+
 const buildFinancialLines = (snapshot: ExportSnapshot): string[] => {
   const absoluteSavingsPercent = Math.abs(snapshot.savingsPercentage);
   const annualSavingsLine =
@@ -1374,8 +2768,19 @@ const buildFinancialLines = (snapshot: ExportSnapshot): string[] => {
         })}x (savings divided by Realm cost).`
       : 'ROI unavailable without a Realm cost.';
 
+  const { tierLabel } = snapshot.destinationPricing;
   const lines = [
-    `Traditional SIEM (annual @ ${formatCurrency(snapshot.baselineRatePerTb)} per 1 TB/day): ${formatCurrency(
+    describeCurrencyConversion(snapshot.currency),
+    `Destination pricing (${snapshot.destination.label}): ${describePricingModel(snapshot.destinationPricing.model)}${
+      tierLabel ? `; scenario lands in the ${tierLabel}` : ''
+    }${
+      snapshot.destination.freeTier && snapshot.destinationPricing.freeTerabytes > 0
+        ? `; first ${formatNumber(snapshot.destination.freeTier.includedGigabytesPerDay)} GB/day free (${
+            snapshot.destination.freeTier.notes
+          })`
+        : ''
+    }.`,
+    `Traditional SIEM (annual @ effective ${formatCurrency(snapshot.baselineRatePerTb)} per 1 TB/day): ${formatCurrency(
       Math.max(0, snapshot.standardAnnual),
     )} per year.`,
     `Realm total (annual @ ${formatCurrency(snapshot.realmRatePerTb)} per 1 TB/day, billed in ${REALM_BILLING_INCREMENT_TB} TB/day increments with ${REALM_MIN_BILLED_TB} TB/day minimum): ${formatCurrency(
@@ -1384,6 +2789,35 @@ const buildFinancialLines = (snapshot: ExportSnapshot): string[] => {
       maximumFractionDigits: 1,
       minimumFractionDigits: 1,
     })} TB/day).`,
+    ...(snapshot.retention && snapshot.retention.extendedHotDays > 0
+      ? [
+          `Extended hot retention (${snapshot.retention.hotDays} days, ${
+            snapshot.retention.pricing.includedHotDays
+          } included): ${formatCurrency(snapshot.retention.baselineAnnual)} per year on raw volume vs ${formatCurrency(
+            snapshot.retention.optimizedAnnual,
+          )} on Realm-optimized volume.`,
+        ]
+      : []),
+    ...(snapshot.archive
+      ? [
+          `Archive tier (${snapshot.archive.destination.label}): ${formatCurrency(
+            snapshot.archive.annualCost,
+          )} per year for ${formatDecimal(snapshot.archive.archivedTerabytes, {
+            maximumFractionDigits: 3,
+          })} TB/day routed (${describePricingModel(snapshot.archive.pricing.model)}${
+            snapshot.archive.pricing.tierLabel ? `, ${snapshot.archive.pricing.tierLabel}` : ''
+          }).`,
+        ]
+      : []),
+    ...(snapshot.infrastructure ? [`Collector infrastructure: ${describeInfrastructure(snapshot)}`] : []),
+    ...(snapshot.baselineTerabytes > 0 ? [`Peak load and license overage: ${describeBurstRisk(snapshot.burst)}`] : []),
+    ...(snapshot.commitment
+      ? [
+          `Current commitment: ${describeCommitment(snapshot.commitment)} Avoided upgrade at renewal: ${formatCurrency(
+            snapshot.commitment.avoidedUpgradeAnnual,
+          )} per year.`,
+        ]
+      : []),
     `Projected annual savings vs traditional: ${formatCurrency(snapshot.annualSavings)} (${absoluteSavingsPercent.toFixed(
       1,
     )}%).`,
@@ -1396,15 +2830,61 @@ const buildFinancialLines = (snapshot: ExportSnapshot): string[] => {
     roiLine,
   ];
 
-  const criblLine = snapshot.criblEstimateUnlocked
-    ? `Estimated Cribl cost: ${formatCurrency(Math.max(0, snapshot.criblCost))}`
-    : 'Estimated Cribl cost: Unlock with a work email to include this comparison.';
+  if (snapshot.baselineTerabytes > 0) {
+    const rangeText = describeScenarioRanges(snapshot.ranges);
+    lines.push(
+      `Low / high range from per-source reduction bands: savings ${rangeText.annualSavings} (${rangeText.savingsPercentage}); ROI ${rangeText.roiMultiple}; data reduced ${rangeText.dataReduction} per day.`,
+    );
+  }
+
+  return lines;
+};
+
+const buildProjectionLines = (projection: ScenarioProjection): string[] => {
+  const horizon = projection.years.length;
+  const lines = [
+    `${horizon}-year projection at ${formatPercent(projection.annualGrowthRate)} annual volume growth and a ${formatPercent(
+      projection.siemPriceEscalator,
+    )} yearly SIEM price escalator (Realm held at its contracted rate).`,
+  ];
+
+  for (const year of projection.years) {
+    lines.push(
+      `Year ${year.year}: ${formatDecimal(year.dailyTerabytes, {
+        maximumFractionDigits: 2,
+      })} TB/day raw; traditional ${formatCurrency(year.standardAnnual)} vs Realm ${formatCurrency(
+        getRealmSideAnnual(year),
+      )} = ${formatCurrency(year.annualSavings)} savings (cumulative ${formatCurrency(year.cumulativeSavings)}).`,
+    );
+  }
 
-  lines.push(criblLine);
+  lines.push(
+    `${horizon}-year total: traditional ${formatCurrency(projection.totalStandard)} vs Realm ${formatCurrency(
+      projection.totalRealm + projection.totalArchive + projection.totalRetention + projection.totalInfrastructure,
+    )} = ${formatCurrency(projection.totalSavings)} cumulative savings.`,
+  );
 
   return lines;
 };
 
+const buildInvestmentLines = (snapshot: ExportSnapshot): string[] => {
+  const { investment } = snapshot;
+  const { onboarding, collectorInfrastructure, migration } = investment.implementationCosts;
+  return [
+    `One-time implementation costs: ${formatCurrency(investment.oneTimeCost)} (onboarding ${formatCurrency(
+      onboarding,
+    )}, collector infrastructure ${formatCurrency(collectorInfrastructure)}, migration ${formatCurrency(migration)}).`,
+    `Payback period: ${formatPaybackPeriod(investment.paybackMonths)}.`,
+    `${investment.years}-year NPV at a ${formatPercent(investment.discountRate)} discount rate: ${formatCurrency(
+      investment.netPresentValue,
+    )}.`,
+    `Break-even raw volume: ${formatBreakEvenVolume(investment.breakEvenDailyTerabytes)}. ${describeBreakEven(
+      investment,
+      snapshot.destination,
+    )}`,
+  ];
+};
+
 const createExecutiveSummaryPdf = async (
   snapshot: ExportSnapshot,
   contact: ExportContactDetails,
@@ -1487,21 +2967,69 @@ const createExecutiveSummaryPdf = async (
     cursorY += sectionSpacing;
   };
 
-  addSection('Stakeholder Details', buildStakeholderLines(contact));
-  addSection('Scenario Inputs', buildScenarioLines(snapshot));
-  addSection('Financial Impact', buildFinancialLines(snapshot));
+  // First column holds the label; the rest are right-aligned amounts sharing the remaining width.
+  const addTable = (heading: string, header: string[], rows: string[][], notes: string[]) => {
+    const labelWidth = 120;
+    const columnWidth = (textWidth - labelWidth) / (header.length - 1);
+    const tableLineHeight = 14;
+    const drawRow = (cells: string[]) => {
+      ensureSpace(tableLineHeight);
+      cells.forEach((cell, index) => {
+        if (index === 0) {
+          doc.text(doc.splitTextToSize(cell, labelWidth - 6)[0] ?? '', margin, cursorY);
+        } else {
+          doc.text(cell, margin + labelWidth + columnWidth * index, cursorY, { align: 'right' });
+        }
+      });
+      cursorY += tableLineHeight;
+    };
 
-  if (snapshot.calibrationNote) {
-    doc.setFont('Helvetica', 'italic');
-    doc.setFontSize(10);
+    doc.setFont('Helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(15, 23, 42);
+    ensureSpace(18);
+    doc.text(heading, margin, cursorY);
+    cursorY += 18;
+
+    doc.setFontSize(9);
+    doc.setTextColor(51, 65, 85);
+    drawRow(header);
+    doc.setFont('Helvetica', 'normal');
+    rows.forEach(drawRow);
+    cursorY += 6;
+
+    doc.setFontSize(9);
     doc.setTextColor(100, 116, 139);
-    const noteLines = doc.splitTextToSize(`Calibration note: ${snapshot.calibrationNote}`, textWidth);
-    for (const noteLine of noteLines) {
-      ensureSpace(lineHeight);
-      doc.text(noteLine, margin, cursorY);
-      cursorY += lineHeight;
+    for (const note of notes) {
+      for (const segment of doc.splitTextToSize(note, textWidth)) {
+        ensureSpace(12);
+        doc.text(segment, margin, cursorY);
+        cursorY += 12;
+      }
+      cursorY += 2;
     }
+
     cursorY += sectionSpacing;
+  };
+
+  addSection('Stakeholder Details', buildStakeholderLines(contact));
+  addSection('Scenario Inputs', buildScenarioLines(snapshot));
+  addSection('Financial Impact', buildFinancialLines(snapshot));
+  if (snapshot.projection) {
+    addSection('Multi-Year Projection', buildProjectionLines(snapshot.projection));
+  }
+  addSection('Payback & Break-even', buildInvestmentLines(snapshot));
+  if (snapshot.competitors.length > 0) {
+    addTable(
+      'Competitive Comparison (annual)',
+      ['Approach', 'Removes', 'License', 'Infra.', 'Operations', 'Destination', 'Total', 'vs Realm'],
+      buildCompetitorRows(snapshot),
+      [COMPETITOR_BASIS_NOTE, ...snapshot.competitors.map(describeCompetitorAssumptions)],
+    );
+  }
+
+  if (snapshot.calibrations.length > 0) {
+    addSection('Calibration', buildCalibrationLines(snapshot));
   }
 
   const totalPages = doc.getNumberOfPages();
@@ -1592,11 +3120,304 @@ const setupFaqAccordion = () => {
   }
 };
 
+const CUSTOM_RATE_LABELS: Record<'flat-per-tb' | 'storage-only', string> = {
+  'flat-per-tb': 'Annual price per 1 TB/day',
+  'storage-only': 'Storage price per GB-month',
+};
+// Same window as the catalog's storage-only destinations; the hot retention input overrides it.
+const CUSTOM_STORAGE_RETENTION_DAYS = 90;
+
+// Own keys only, so a tampered value such as "constructor" falls back to the default category.
+const isTrafficCategory = (value: string): value is TrafficCategory =>
+  Object.prototype.hasOwnProperty.call(trafficCategoryLabels, value);
+
+const getCustomPricingKind = (): 'benchmark' | 'flat-per-tb' | 'storage-only' => {
+  const value = optionalCustomPricingSelect?.value;
+  return value === 'flat-per-tb' || value === 'storage-only' ? value : 'benchmark';
+};
+
+const syncCustomIntegrationFields = (): void => {
+  const isDestination = optionalCustomKindSelect?.value === 'destination';
+  const pricingKind = getCustomPricingKind();
+  customSourceFieldEls.forEach((field) => field.classList.toggle('field--hidden', isDestination));
+  customDestinationFieldEls.forEach((field) => field.classList.toggle('field--hidden', !isDestination));
+  optionalCustomRateField?.classList.toggle('field--hidden', !isDestination || pricingKind === 'benchmark');
+  if (optionalCustomRateLabel && pricingKind !== 'benchmark') {
+    optionalCustomRateLabel.textContent = CUSTOM_RATE_LABELS[pricingKind];
+  }
+};
+
+/** Rates are typed in the quote currency and stored in USD like the rest of the catalog. */
+const readCustomDestinationPricing = (): DestinationPricingModel | undefined => {
+  const pricingKind = getCustomPricingKind();
+  if (pricingKind === 'benchmark') {
+    return undefined;
+  }
+  const rate = Number.parseFloat(optionalCustomRateInput?.value.trim() ?? '');
+  if (!(Number.isFinite(rate) && rate > 0)) {
+    throw new Error('Enter a positive rate for the custom destination.');
+  }
+  const reference = 'Rep-supplied pricing for a custom destination.';
+  return pricingKind === 'flat-per-tb'
+    ? { kind: 'flat-per-tb', annualCostPerTb: convertToUsd(rate, activeCurrency), reference }
+    : {
+        kind: 'storage-only',
+        storagePerGbMonth: convertToUsd(rate, activeCurrency),
+        retentionDays: CUSTOM_STORAGE_RETENTION_DAYS,
+        reference,
+      };
+};
+
+const readCustomReductionFactor = (): number | undefined => {
+  const raw = optionalCustomReductionInput?.value.trim() ?? '';
+  if (raw === '') {
+    return undefined;
+  }
+  const parsed = Number.parseFloat(raw);
+  if (!Number.isFinite(parsed)) {
+    throw new Error('Enter the reduction as a percentage, or leave it blank for the category default.');
+  }
+  return parsed / 100;
+};
+
+const appendDestinationOption = (endpoint: DestinationEndpoint): void => {
+  const option = document.createElement('option');
+  option.value = endpoint.id;
+  option.textContent = formatEndpointLabel(endpoint);
+  requiredDestinationSelect.appendChild(option);
+};
+
+const renderCustomIntegrationList = (): void => {
+  if (!optionalCustomIntegrationList) {
+    return;
+  }
+  optionalCustomIntegrationList.innerHTML = '';
+  const entries: { endpoint: SelectableEndpoint; detail: string }[] = [
+    ...customSources.map((source) => ({ endpoint: source, detail: `Source - ${describeCustomSource(source)}` })),
+    ...customDestinations.map((destination) => ({
+      endpoint: destination,
+      detail: `Destination - ${describeCustomDestination(destination)}`,
+    })),
+  ];
+  for (const { endpoint, detail } of entries) {
+    const item = document.createElement('li');
+    item.className = 'custom-list__item';
+    item.dataset.customId = endpoint.id;
+    const text = document.createElement('span');
+    text.textContent = `${endpoint.label}: ${detail}`;
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'custom-list__remove';
+    remove.textContent = 'Remove';
+    remove.setAttribute('aria-label', `Remove ${endpoint.label}`);
+    remove.addEventListener('click', () => removeCustomIntegration(endpoint.id));
+    item.append(text, remove);
+    optionalCustomIntegrationList.appendChild(item);
+  }
+};
+
+const addCustomIntegration = (): void => {
+  const label = optionalCustomLabelInput?.value ?? '';
+  try {
+    if (optionalCustomKindSelect?.value === 'destination') {
+      const destination = createCustomDestination(
+        { label, pricing: readCustomDestinationPricing() },
+        getDestinationCatalog().map((entry) => entry.id),
+      );
+      customDestinations.push(destination);
+      appendDestinationOption(destination);
+      requiredDestinationSelect.value = destination.id;
+    } else {
+      const selectedCategory = optionalCustomCategorySelect?.value ?? '';
+      const trafficCategory = isTrafficCategory(selectedCategory) ? selectedCategory : FALLBACK_TRAFFIC_CATEGORY;
+      const source = createCustomSource(
+        { label, trafficCategory, reductionFactor: readCustomReductionFactor() },
+        getSourceCatalog().map((entry) => entry.id),
+      );
+      customSources.push(source);
+      selectedSourceIds.add(source.id);
+      buildSourceList();
+      handleSourceSelectionChange(requiredSourceList.scrollTop);
+    }
+  } catch (error) {
+    if (optionalCustomIntegrationError) {
+      optionalCustomIntegrationError.textContent = error instanceof Error ? error.message : String(error);
+    }
+    return;
+  }
+
+  if (optionalCustomIntegrationError) {
+    optionalCustomIntegrationError.textContent = '';
+  }
+  for (const input of [optionalCustomLabelInput, optionalCustomReductionInput, optionalCustomRateInput]) {
+    if (input) {
+      input.value = '';
+    }
+  }
+  renderCustomIntegrationList();
+  update();
+};
+
+const removeCustomIntegration = (id: string): void => {
+  const sourceIndex = customSources.findIndex((source) => source.id === id);
+  if (sourceIndex >= 0) {
+    customSources.splice(sourceIndex, 1);
+    selectedSourceIds.delete(id);
+    sampleMeasuredSources.delete(id);
+    buildSourceList();
+    handleSourceSelectionChange(requiredSourceList.scrollTop);
+  }
+  const destinationIndex = customDestinations.findIndex((destination) => destination.id === id);
+  if (destinationIndex >= 0) {
+    customDestinations.splice(destinationIndex, 1);
+    const wasSelected = requiredDestinationSelect.value === id;
+    requiredDestinationSelect.querySelector(`option[value="${CSS.escape(id)}"]`)?.remove();
+    if (wasSelected) {
+      requiredDestinationSelect.value = destinations[0]?.id ?? '';
+    }
+  }
+  renderCustomIntegrationList();
+  update();
+};
+
+const SAMPLE_FIELD_STATUS_LABELS: Record<SampleFieldStatus, string> = {
+  empty: 'always empty',
+  constant: 'same value in every event',
+  unique: 'unique per event',
+  variable: 'varies',
+};
+const SAMPLE_FIELD_LIST_LIMIT = 8;
+
+const syncSampleSourceOptions = (): void => {
+  if (!optionalSampleSourceSelect) {
+    return;
+  }
+  const previous = optionalSampleSourceSelect.value;
+  optionalSampleSourceSelect.innerHTML = '';
+  for (const endpoint of getSelectedSources()) {
+    const option = document.createElement('option');
+    option.value = endpoint.id;
+    option.textContent = formatEndpointLabel(endpoint);
+    optionalSampleSourceSelect.appendChild(option);
+  }
+  if (Array.from(optionalSampleSourceSelect.options).some((option) => option.value === previous)) {
+    optionalSampleSourceSelect.value = previous;
+  }
+  if (optionalSampleApplyButton) {
+    optionalSampleApplyButton.disabled = !currentSample || optionalSampleSourceSelect.options.length === 0;
+  }
+};
+
+const renderSampleAnalysis = (): void => {
+  optionalSampleResult?.classList.toggle('field--hidden', !currentSample);
+  if (!currentSample) {
+    return;
+  }
+  const { analysis, fileName } = currentSample;
+  if (optionalSampleLogSummary) {
+    const formatLabel = SAMPLE_LOG_FORMAT_LABELS[analysis.format];
+    const eventSize = formatEventSizeKb(analysis.averageEventSizeKb);
+    optionalSampleLogSummary.textContent = [
+      `${fileName}: ${formatNumber(analysis.eventCount)} ${formatLabel} events averaging ${eventSize} KB.`,
+      `Pruning empty and constant fields removes ${formatPercent(analysis.pruningReduction)};`,
+      `collapsing ${formatNumber(analysis.duplicateEvents)} duplicate events removes`,
+      `${formatPercent(analysis.dedupeReduction)} more (${formatPercent(analysis.estimatedReduction)} estimated).`,
+      ...analysis.warnings,
+    ].join(' ');
+  }
+  if (optionalSampleFieldList) {
+    optionalSampleFieldList.innerHTML = '';
+    for (const field of analysis.fields.slice(0, SAMPLE_FIELD_LIST_LIMIT)) {
+      const item = document.createElement('li');
+      item.className = 'custom-list__item';
+      item.textContent = `${field.name}: ${SAMPLE_FIELD_STATUS_LABELS[field.status]}, ${formatNumber(
+        field.distinctValues,
+      )} distinct values, ${formatPercent(field.prunableShare, 1)} prunable`;
+      optionalSampleFieldList.appendChild(item);
+    }
+  }
+  syncSampleSourceOptions();
+};
+
+const renderSampleOverrideList = (): void => {
+  if (!optionalSampleOverrideList) {
+    return;
+  }
+  optionalSampleOverrideList.innerHTML = '';
+  for (const source of sampleMeasuredSources.values()) {
+    const item = document.createElement('li');
+    item.className = 'custom-list__item';
+    const text = document.createElement('span');
+    text.textContent = `${formatEndpointLabel(source)}: ${formatPercent(
+      source.realmReduction.factor,
+      0,
+    )} measured reduction`;
+    text.title = source.realmReduction.reference;
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'custom-list__remove';
+    remove.textContent = 'Use category default';
+    remove.setAttribute('aria-label', `Use the category default reduction for ${source.label}`);
+    remove.addEventListener('click', () => {
+      sampleMeasuredSources.delete(source.id);
+      renderSampleOverrideList();
+      update();
+    });
+    item.append(text, remove);
+    optionalSampleOverrideList.appendChild(item);
+  }
+};
+
+const loadSampleLog = async (file: File): Promise<void> => {
+  if (optionalSampleLogError) {
+    optionalSampleLogError.textContent = '';
+  }
+  try {
+    currentSample = { analysis: analyzeSampleLog(await file.text()), fileName: file.name };
+  } catch (error) {
+    currentSample = null;
+    if (optionalSampleLogError) {
+      optionalSampleLogError.textContent = error instanceof Error ? error.message : String(error);
+    }
+  }
+  renderSampleAnalysis();
+};
+
+const applySampleToScenario = (): void => {
+  const sourceId = optionalSampleSourceSelect?.value ?? '';
+  if (!currentSample || sourceId === '') {
+    return;
+  }
+  const { analysis, fileName } = currentSample;
+  sampleMeasuredSources.set(
+    sourceId,
+    applySampleAnalysis(getEndpoint(getSourceCatalog(), sourceId), analysis, fileName),
+  );
+  if (optionalEventSizeInput) {
+    optionalEventSizeInput.value = formatEventSizeKb(analysis.averageEventSizeKb);
+    userEventSizeEdited = true;
+  }
+  renderSampleOverrideList();
+  update();
+};
+
 const initialize = () => {
   selectedSourceIds.clear();
+  sourceVolumeShares.clear();
+  inventoryCounts.clear();
   buildSourceList();
+  buildSourceVolumeInputs([]);
+  buildInventoryInputs([]);
 
   populateSelect(requiredDestinationSelect, destinations);
+  if (optionalArchiveDestinationSelect) {
+    for (const endpoint of archiveDestinations) {
+      const option = document.createElement('option');
+      option.value = endpoint.id;
+      option.textContent = endpoint.label;
+      optionalArchiveDestinationSelect.appendChild(option);
+    }
+  }
   const destinationPlaceholder = document.createElement('option');
   destinationPlaceholder.value = '';
   destinationPlaceholder.textContent = 'Select a destination';
@@ -1619,16 +3440,34 @@ const initialize = () => {
     requiredDestinationSelect.value = '';
   }
 
+  if (optionalCustomCategorySelect) {
+    optionalCustomCategorySelect.innerHTML = '';
+    for (const [category, label] of Object.entries(trafficCategoryLabels)) {
+      const option = document.createElement('option');
+      option.value = category;
+      option.textContent = label;
+      optionalCustomCategorySelect.appendChild(option);
+    }
+    optionalCustomCategorySelect.value = FALLBACK_TRAFFIC_CATEGORY;
+  }
+  syncCustomIntegrationFields();
+
   populateOrganizationSizeSelect(requiredOrganizationSizeSelect);
   requiredTrafficUnit.value = 'terabytes';
   requiredOrganizationSizeSelect.value =
     organizationSizeOptions[0]?.id ?? requiredOrganizationSizeSelect.value;
+  applyOrganizationSizePreset();
   applyRecommendation({ overrideTraffic: true, overrideEventSize: true });
   update();
 };
 
 const handleSourceSelectionChange = (scrollSnapshot: number): void => {
   const previousScrollTop = scrollSnapshot || sourceScrollTop || requiredSourceList.scrollTop;
+  rebalanceSourceVolumeShares(getSelectedSourceIds());
+  buildSourceVolumeInputs(getSelectedSources());
+  buildInventoryInputs(getSelectedSources());
+  buildArchiveRoutingInputs(getSelectedSources());
+  syncSampleSourceOptions();
   applyRecommendation({ overrideEventSize: !userEventSizeEdited });
   update();
   requiredSourceList.scrollTop = previousScrollTop;
@@ -1649,7 +3488,36 @@ requiredSourceList.addEventListener('scroll', () => {
 });
 
 requiredDestinationSelect.addEventListener('change', update);
+optionalArchiveDestinationSelect?.addEventListener('change', update);
+optionalArchiveModeSelect?.addEventListener('change', update);
+optionalHotRetentionInput?.addEventListener('input', update);
+optionalArchiveRetentionInput?.addEventListener('input', update);
+optionalLicensedVolumeInput?.addEventListener('input', update);
+optionalContractPriceInput?.addEventListener('input', update);
+optionalRenewalDateInput?.addEventListener('change', update);
+optionalCommitmentGrowthInput?.addEventListener('input', update);
+optionalInfrastructureSelect?.addEventListener('change', update);
+optionalPeakRatioInput?.addEventListener('input', update);
+optionalCustomKindSelect?.addEventListener('change', syncCustomIntegrationFields);
+optionalCustomPricingSelect?.addEventListener('change', syncCustomIntegrationFields);
+optionalCustomAddButton?.addEventListener('click', addCustomIntegration);
+optionalSampleLogInput?.addEventListener('change', () => {
+  const file = optionalSampleLogInput.files?.[0];
+  if (file) {
+    void loadSampleLog(file);
+  }
+});
+optionalSampleApplyButton?.addEventListener('click', applySampleToScenario);
 requiredOrganizationSizeSelect.addEventListener('change', () => {
+  applyOrganizationSizePreset();
+  applyRecommendation({ overrideTraffic: true, overrideEventSize: true });
+  update();
+});
+optionalEmployeeCountInput?.addEventListener('input', () => {
+  const employeeCount = Number.parseFloat(optionalEmployeeCountInput.value);
+  if (Number.isFinite(employeeCount) && employeeCount > 0) {
+    requiredOrganizationSizeSelect.value = getOrganizationSizeForEmployees(employeeCount).id;
+  }
   applyRecommendation({ overrideTraffic: true, overrideEventSize: true });
   update();
 });
@@ -1674,6 +3542,40 @@ if (optionalSourceSearchInput) {
     }
   });
 }
+optionalProjectionYearsSelect?.addEventListener('change', update);
+if (optionalSimulationIterationsSelect) {
+  optionalSimulationIterationsSelect.innerHTML = SIMULATION_ITERATION_OPTIONS.map(
+    (iterations) => `<option value="${iterations}">${formatNumber(iterations)}</option>`,
+  ).join('');
+}
+optionalSimulationRunButton?.addEventListener('click', runSimulation);
+for (const input of [
+  optionalOnboardingCostInput,
+  optionalCollectorCostInput,
+  optionalMigrationCostInput,
+  optionalDiscountRateInput,
+]) {
+  input?.addEventListener('input', update);
+}
+optionalGrowthRateInput?.addEventListener('input', update);
+optionalSiemEscalatorInput?.addEventListener('input', update);
+if (optionalCurrencySelect) {
+  optionalCurrencySelect.innerHTML = currencyOptions
+    .map((option) => `<option value="${option.code}">${option.label}</option>`)
+    .join('');
+  optionalCurrencySelect.value = BASE_CURRENCY;
+  optionalCurrencySelect.addEventListener('change', () => {
+    const previous = activeCurrency;
+    syncCurrencyControls();
+    const next = readCurrencyConversion();
+    if (next) {
+      rescaleCurrencyInputs(previous, next);
+    }
+    update();
+  });
+}
+optionalFxRateInput?.addEventListener('input', update);
+syncCurrencyControls();
 if (optionalEventSizeInput) {
   optionalEventSizeInput.addEventListener('input', () => {
     userEventSizeEdited = true;
@@ -1705,54 +3607,5 @@ requiredExportPdfForm.addEventListener('submit', (event) => {
   void handleExportPdf(contactDetails);
 });
 
-if (criblUi) {
-  const { button, container, form, input, error } = criblUi;
-
-  button.addEventListener('click', () => {
-    if (hasUnlockedCriblEstimate) {
-      return;
-    }
-
-    if (container.classList.contains('field--hidden')) {
-      showCriblForm();
-      clearCriblError();
-    } else {
-      hideCriblForm();
-      clearCriblError();
-    }
-  });
-
-  form.addEventListener('submit', (event) => {
-    event.preventDefault();
-    const email = input.value;
-    const validationError = validateWorkEmail(email);
-    if (validationError) {
-      error.textContent = validationError;
-      error.classList.remove('field--hidden');
-      return;
-    }
-
-    unlockCriblEstimate();
-  });
-}
-
 setupFaqAccordion();
 initialize();
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
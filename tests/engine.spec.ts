@@ -0,0 +1,741 @@
+import { readFileSync } from 'node:fs';
+import { test, expect } from '@playwright/test';
+import { getInventoryRecommendation, getRecommendedSourceVolumes } from '../src/data/asset-inventory.ts';
+import { destinations, sources } from '../src/data/catalog.ts';
+import { getShippedCatalog, validateCatalog } from '../src/data/catalog-validation.ts';
+import {
+  applyDestinationDirective,
+  deploymentProfiles,
+  isDeploymentId,
+  resolveVisibleDestinations,
+} from '../src/data/deployments.ts';
+import { FX_RATE_TABLE } from '../src/data/fx-rates.ts';
+import { getTrafficRecommendation } from '../src/data/traffic-profiles.ts';
+import {
+  analyzeBurstRisk,
+  analyzeCommitment,
+  analyzeInvestment,
+  analyzeSampleLog,
+  applySampleAnalysis,
+  calculate,
+  compareCompetitors,
+  convertDailyVolume,
+  convertFromUsd,
+  convertToUsd,
+  createCustomDestination,
+  createCustomSource,
+  detectSampleFormat,
+  findBreakEvenDailyTerabytes,
+  getCurrencyConversion,
+  getExceedanceProbability,
+  getFixedReduction,
+  matchCalibrations,
+  priceDestination,
+  projectScenario,
+  simulateScenario,
+  summarizeSources,
+} from '../src/engine/index.ts';
+
+const findSource = (id: string) => {
+  const source = sources.find((entry) => entry.id === id);
+  if (!source) {
+    throw new Error(`Missing source fixture: ${id}`);
+  }
+  return source;
+};
+
+const findDestination = (id: string) => {
+  const destination = destinations.find((entry) => entry.id === id);
+  if (!destination) {
+    throw new Error(`Missing destination fixture: ${id}`);
+  }
+  return destination;
+};
+
+test.describe('Pricing engine', () => {
+  test('prices a single firewall source without a browser', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    });
+
+    expect(result.standardAnnual).toBe(5_000_000);
+    expect(result.realmAnnual).toBe(700_000);
+    expect(result.annualSavings).toBe(4_300_000);
+    expect(result.averageOptimization).toBeCloseTo(0.7);
+    expect(result.optimizedTerabytes).toBeCloseTo(3);
+  });
+
+  test('applies the calibrated override for a matching single-source scenario', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('sumo-logic-siem'),
+      dailyTerabytes: 2,
+    });
+
+    expect(result.averageOptimization).toBeCloseTo(0.2099);
+    expect(result.calibrationNote).toContain('Vensure');
+  });
+
+  test('blends a matching calibration with heuristic sources by volume', () => {
+    const okta = findSource('okta');
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate'), okta],
+      destination: findDestination('sumo-logic-siem'),
+      dailyTerabytes: 4,
+      sourceVolumes: { 'fortinet-fortigate': 3, okta: 1 },
+    });
+
+    expect(result.calibrations).toHaveLength(1);
+    expect(result.calibrations[0].calibration.provenance.customer).toBe('Vensure');
+    expect(result.calibrations[0].share).toBeCloseTo(0.75);
+    expect(result.averageOptimization).toBeCloseTo(0.75 * 0.2099 + 0.25 * getFixedReduction(okta));
+  });
+
+  test('prefers calibrations measured on the wider source set', () => {
+    const provenance = { customer: 'Example', reference: 'Fixture' };
+    const assignments = matchCalibrations(['a', 'b', 'c'], 'splunk-es', [
+      { id: 'single', sourceIds: ['a'], measuredReduction: 0.4, provenance },
+      { id: 'pair', sourceIds: ['a', 'b'], measuredReduction: 0.6, provenance },
+      { id: 'overlap', sourceIds: ['b', 'c'], destinationIds: ['splunk-es'], measuredReduction: 0.5, provenance },
+      { id: 'other-destination', sourceIds: ['c'], destinationIds: ['sumo-logic-siem'], measuredReduction: 0.3, provenance },
+    ]);
+
+    expect(assignments.get('a')?.id).toBe('pair');
+    expect(assignments.get('b')?.id).toBe('pair');
+    expect(assignments.has('c')).toBe(false);
+  });
+
+  test('splits each source reduction across optimization techniques', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate'), findSource('okta')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    });
+    const [fortinet] = result.sourceBreakdown;
+    const sum = (entries: { reduction: number }[]) => entries.reduce((total, entry) => total + entry.reduction, 0);
+
+    expect(fortinet.techniques[0].technique).toBe('field-pruning');
+    expect(sum(fortinet.techniques)).toBeCloseTo(fortinet.reduction);
+    expect(sum(result.techniques)).toBeCloseTo(result.averageOptimization);
+  });
+
+  test('averages reductions across multiple sources', () => {
+    const combined = summarizeSources([findSource('fortinet-fortigate'), findSource('okta')]);
+    expect(combined.realmOptimization).toBeCloseTo(0.6);
+  });
+
+  test('weights the blended reduction by per-source volume', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate'), findSource('okta')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+      sourceVolumes: { 'fortinet-fortigate': 8, okta: 2 },
+    });
+
+    expect(result.averageOptimization).toBeCloseTo(0.66);
+    expect(result.sourceBreakdown.map((row) => row.dailyTerabytes)).toEqual([8, 2]);
+    expect(result.sourceBreakdown[0].optimizedTerabytes).toBeCloseTo(2.4);
+    expect(result.sourceBreakdown[1].optimizedTerabytes).toBeCloseTo(1);
+
+    // Sources left blank take the mean of the entered weights instead of dropping out.
+    const partial = calculate({
+      sources: [findSource('fortinet-fortigate'), findSource('okta'), findSource('crowdstrike-falcon')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+      sourceVolumes: { 'fortinet-fortigate': 6, okta: 2 },
+    });
+    // CrowdStrike takes the mean weight of 4, so the split is 6:2:4.
+    [5, 5 / 3, 10 / 3].forEach((dailyTerabytes, index) =>
+      expect(partial.sourceBreakdown[index].dailyTerabytes).toBeCloseTo(dailyTerabytes),
+    );
+    expect(partial.averageOptimization).toBeCloseTo(0.5 * 0.7 + (1 / 6) * 0.5 + (1 / 3) * 0.5);
+  });
+
+  test('projects growth and SIEM price escalation across a multi-year horizon', () => {
+    const projection = projectScenario(
+      {
+        sources: [findSource('fortinet-fortigate')],
+        destination: findDestination('splunk-es'),
+        dailyTerabytes: 10,
+      },
+      { years: 3, annualGrowthRate: 0.1, siemPriceEscalator: 0.05 },
+    );
+
+    expect(projection.years).toHaveLength(3);
+    expect(projection.years[0].annualSavings).toBe(4_300_000);
+    expect(projection.years[1].dailyTerabytes).toBeCloseTo(11);
+    // Growth pushes year two past 10 TB/day into the next Splunk license band, where 11 TB/day at
+    // $450k is still below the 10 TB/day band's $5M cap.
+    expect(projection.years[1].standardAnnual).toBeCloseTo(5_000_000 * 1.05);
+    expect(projection.years[1].realmAnnual).toBe(11 * 70_000);
+    expect(projection.years[2].cumulativeSavings).toBeCloseTo(projection.totalSavings);
+
+    // Retention beyond the included window is a SIEM charge on both sides, so both escalate.
+    const retained = projectScenario(
+      {
+        sources: [findSource('fortinet-fortigate')],
+        destination: findDestination('splunk-es'),
+        dailyTerabytes: 10,
+        retention: { hotDays: 365, archiveDays: 0 },
+      },
+      { years: 2, annualGrowthRate: 0, siemPriceEscalator: 0.05 },
+    );
+    const [first, second] = retained.years;
+    expect(first.retentionAnnual).toBeGreaterThan(0);
+    expect(second.retentionAnnual).toBeCloseTo(first.retentionAnnual * 1.05);
+    expect(second.annualSavings).toBeCloseTo(first.annualSavings * 1.05 + first.realmAnnual * 0.05);
+
+    // Syslog collectors stay on the customer's network either way, so they cancel in every year.
+    const settings = { years: 3, annualGrowthRate: 0.2, siemPriceEscalator: 0.5 };
+    const base = {
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    };
+    const withCollectors = projectScenario(
+      { ...base, infrastructure: { averageEventSizeKb: 1, peakToAverageRatio: 3 } },
+      settings,
+    );
+    const withoutCollectors = projectScenario(base, settings);
+    withCollectors.years.forEach((year, index) => {
+      expect(year.infrastructureAnnual).toBeGreaterThan(0);
+      expect(year.annualSavings).toBeCloseTo(withoutCollectors.years[index].annualSavings);
+    });
+  });
+
+  test('brackets savings, ROI, and data reduction with low and high reduction bands', () => {
+    const { ranges, annualSavings, roiMultiple } = calculate({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    });
+
+    expect(ranges.reduction.low).toBeCloseTo(0.6);
+    expect(ranges.reduction.high).toBeCloseTo(0.75);
+    expect(ranges.dataReductionTb.low).toBeCloseTo(6);
+    expect(ranges.annualSavings.expected).toBeCloseTo(annualSavings);
+    expect(ranges.annualSavings.low).toBeCloseTo(3_800_000);
+    expect(ranges.annualSavings.high).toBeCloseTo(4_550_000);
+    expect(ranges.roiMultiple.expected).toBeCloseTo(roiMultiple);
+    expect(ranges.roiMultiple.low).toBeLessThan(roiMultiple);
+  });
+
+  test('simulates savings percentiles reproducibly from a seed', () => {
+    const input = {
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    };
+    const settings = { iterations: 2_000, annualGrowthRate: 0, averageEventSizeKb: 1, seed: 42 };
+    const result = simulateScenario(input, settings);
+
+    expect(simulateScenario(input, settings).p50).toBe(result.p50);
+    expect(result.p10).toBeLessThanOrEqual(result.p50);
+    expect(result.p50).toBeLessThanOrEqual(result.p90);
+    // With flat volume, savings stay inside the low/high reduction band.
+    expect(result.min).toBeGreaterThanOrEqual(3_800_000 - 1);
+    expect(result.max).toBeLessThanOrEqual(4_550_000 + 1);
+    expect(result.histogram.reduce((sum, bin) => sum + bin.count, 0)).toBe(2_000);
+  });
+
+  test('computes payback and NPV net of implementation costs', () => {
+    const analysis = analyzeInvestment(
+      {
+        sources: [findSource('fortinet-fortigate')],
+        destination: findDestination('splunk-es'),
+        dailyTerabytes: 10,
+      },
+      { years: 1, annualGrowthRate: 0, siemPriceEscalator: 0 },
+      {
+        implementationCosts: { onboarding: 200_000, collectorInfrastructure: 100_000, migration: 130_000 },
+        discountRate: 0.1,
+      },
+    );
+
+    expect(analysis.oneTimeCost).toBe(430_000);
+    expect(analysis.paybackMonths).toBeCloseTo(1.2);
+    expect(analysis.netPresentValue).toBeCloseTo(4_300_000 / 1.1 - 430_000);
+    expect(analysis.breakEvenDailyTerabytes).toBeCloseTo(70_000 / 600_000, 2);
+  });
+
+  test('finds the break-even volume created by the Realm minimum', () => {
+    const splunk = findBreakEvenDailyTerabytes({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 0,
+    });
+    // 1 TB/day minimum at $70k vs the sub-1 TB Splunk band at $600k per TB/day.
+    expect(splunk).toBeCloseTo(70_000 / 600_000, 2);
+
+    const storageOnly = findBreakEvenDailyTerabytes({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('aws-s3-logs'),
+      dailyTerabytes: 0,
+    });
+    expect(storageOnly).toBeNull();
+
+    // 20,000 Chronicle seats cost $1M and include ~19.5 TB/day, so Realm saves below ~14 TB/day,
+    // loses until fair-use overage kicks in, and only keeps saving once overage outgrows it.
+    const chronicle = {
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('google-chronicle'),
+      dailyTerabytes: 0,
+      employeeCount: 20_000,
+    };
+    expect(calculate({ ...chronicle, dailyTerabytes: 0.5 }).annualSavings).toBeGreaterThan(0);
+    expect(calculate({ ...chronicle, dailyTerabytes: 18 }).annualSavings).toBeLessThan(0);
+    const breakEven = findBreakEvenDailyTerabytes(chronicle);
+    expect(breakEven).toBeCloseTo(21.69, 2);
+    for (const volume of [22, 25, 100]) {
+      expect(calculate({ ...chronicle, dailyTerabytes: volume }).annualSavings).toBeGreaterThanOrEqual(0);
+    }
+  });
+
+  test('prices the archive tier for data routed away from the SIEM', () => {
+    const base = {
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    };
+    const reduced = calculate({
+      ...base,
+      archive: { destination: findDestination('aws-s3-logs'), mode: 'reduced' },
+    });
+    expect(reduced.archive?.archivedTerabytes).toBeCloseTo(7);
+    expect(reduced.archiveAnnual).toBeCloseTo(7 * 1_024 * 90 * 0.023 * 12);
+    expect(reduced.annualSavings).toBeCloseTo(4_300_000 - reduced.archiveAnnual);
+
+    const fullFidelity = calculate({
+      ...base,
+      archive: { destination: findDestination('hydrolix'), mode: 'full-fidelity' },
+    });
+    expect(fullFidelity.archive?.archivedTerabytes).toBeCloseTo(10);
+    expect(fullFidelity.archiveAnnual).toBe(250_000);
+
+    expect(() =>
+      calculate({ ...base, archive: { destination: findDestination('splunk-es'), mode: 'reduced' } }),
+    ).toThrow(/not an archive destination/);
+  });
+
+  test('bills retention beyond the included window on raw and optimized volume', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+      retention: { hotDays: 180, archiveDays: 365 },
+    });
+    const perStoredTb = 1_024 * 0.1 * 12;
+
+    expect(result.retention?.extendedHotDays).toBe(90);
+    expect(result.retention?.baselineAnnual).toBeCloseTo(10 * 90 * perStoredTb);
+    expect(result.retentionAnnual).toBeCloseTo(3 * 90 * perStoredTb);
+    expect(result.standardAnnual).toBeCloseTo(5_000_000 + 10 * 90 * perStoredTb);
+    expect(result.annualSavings).toBeCloseTo(result.standardAnnual - 700_000 - result.retentionAnnual);
+  });
+
+  test('uses archive retention days for storage-only archive pricing', () => {
+    const result = calculate({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+      archive: { destination: findDestination('aws-s3-logs'), mode: 'full-fidelity' },
+      retention: { hotDays: 90, archiveDays: 365 },
+    });
+
+    expect(result.retention?.extendedHotDays).toBe(0);
+    expect(result.archiveAnnual).toBeCloseTo(10 * 1_024 * 365 * 0.023 * 12);
+  });
+
+  test('prices Splunk ES by the license band the raw volume falls into', () => {
+    const splunk = findDestination('splunk-es');
+    expect(priceDestination(splunk, 0.5).annualCost).toBe(300_000);
+    expect(priceDestination(splunk, 4).effectiveAnnualCostPerTb).toBe(550_000);
+    expect(priceDestination(splunk, 12).tierLabel).toBe('license band above 10 TB/day');
+    // Crossing a band edge never lowers the bill: just past each cap the cost holds at the cap price.
+    for (const [cap, capCost] of [
+      [1, 600_000],
+      [5, 2_750_000],
+      [10, 5_000_000],
+    ]) {
+      expect(priceDestination(splunk, cap).annualCost).toBe(capCost);
+      expect(priceDestination(splunk, cap + 0.01).annualCost).toBe(capCost);
+    }
+    expect(priceDestination(splunk, 10.5).tierLabel).toBe(
+      'license band above 10 TB/day, held at the 10 TB/day band price',
+    );
+    expect(priceDestination(splunk, 1.2).annualCost).toBe(1.2 * 550_000);
+  });
+
+  test('picks the cheapest Sentinel commitment tier', () => {
+    const quote = priceDestination(findDestination('microsoft-sentinel'), 1);
+    expect(quote.tierLabel).toBe('1,000 GB/day commitment tier');
+    expect(quote.annualCost).toBeCloseTo((2_470 + 24 * 2.47) * 365);
+  });
+
+  test('prices object storage destinations on retained capacity', () => {
+    const quote = priceDestination(findDestination('aws-s3-logs'), 1);
+    expect(quote.annualCost).toBeCloseTo(1_024 * 90 * 0.023 * 12);
+    expect(quote.tierLabel).toBe('90-day retention');
+  });
+
+  test('deducts a destination free tier before pricing', () => {
+    const splunk = findDestination('splunk-es');
+    const quote = priceDestination({ ...splunk, freeTier: { includedGigabytesPerDay: 512, notes: 'Fixture' } }, 1);
+    expect(quote.freeTerabytes).toBeCloseTo(0.5);
+    expect(quote.annualCost).toBeCloseTo(0.5 * 600_000);
+
+    // CrowdStrike's bundled third-party allowance comes off the catalog destination's bill.
+    const crowdstrike = findDestination('crowdstrike-next-gen-siem');
+    const input = { sources: [findSource('fortinet-fortigate')], destination: crowdstrike, dailyTerabytes: 1 };
+    const withoutFreeTier = calculate({ ...input, destination: { ...crowdstrike, freeTier: undefined } });
+    expect(calculate(input).standardAnnual).toBeCloseTo(withoutFreeTier.standardAnnual - (10 / 1_024) * 500_000);
+    expect(findDestination('snowflake-security-data-lake').realmReduction.basis).toBe('empirical');
+  });
+
+  test('prices Chronicle per employee with fair-use overage', () => {
+    const chronicle = findDestination('google-chronicle');
+    expect(priceDestination(chronicle, 1, 2_048).annualCost).toBe(102_400);
+    expect(priceDestination(chronicle, 3, 1_024).annualCost).toBeCloseTo(51_200 + 2 * 250_000);
+  });
+
+  test('prices each competitor in front of the destination', () => {
+    const comparisons = compareCompetitors({
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    });
+    const cribl = comparisons.find((comparison) => comparison.competitor.id === 'cribl-stream');
+    const native = comparisons.find((comparison) => comparison.competitor.id === 'native-siem-filtering');
+
+    expect(comparisons.map((comparison) => comparison.competitor.id)).toEqual([
+      'cribl-stream',
+      'edge-delta',
+      'native-siem-filtering',
+      'diy-logstash-vector',
+    ]);
+    expect(cribl?.destinationTerabytes).toBeCloseTo(8.2);
+    expect(cribl?.licenseAnnual).toBeCloseTo(10 * 82_600);
+    expect(cribl?.destinationAnnual).toBeCloseTo(8.2 * 500_000);
+    expect(cribl?.totalAnnual).toBeCloseTo(826_000 + 120_000 + 90_000 + 4_100_000);
+    expect(cribl?.realmAdvantage).toBeCloseTo(5_136_000 - 700_000);
+    expect(native?.licenseAnnual).toBe(0);
+  });
+
+  test('sizes collectors and egress for the baseline and Realm scenarios', () => {
+    const input = {
+      sources: [findSource('fortinet-fortigate'), findSource('aws-cloudtrail')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    };
+    const withoutInfrastructure = calculate(input);
+    const result = calculate({ ...input, infrastructure: { averageEventSizeKb: 1, peakToAverageRatio: 3 } });
+    const gigabytesPerSource = 5 * 1_024;
+    const syslogStorage = gigabytesPerSource * 0.08 * 12;
+
+    // 5 TB/day of 1 KB events peaks at ~186k EPS: 13 syslog collectors or 8 S3 pullers.
+    const [syslog, s3] = result.infrastructure?.baseline.collectors ?? [];
+    expect(syslog.nodes).toBe(13);
+    expect(s3.nodes).toBe(8);
+    expect(result.infrastructure?.baseline.annualCost).toBeCloseTo(
+      13 * 3_000 + syslogStorage + 8 * 3_000 + gigabytesPerSource * 0.09 * 365,
+    );
+    // Realm runs the S3 puller and only the optimized CloudTrail volume leaves AWS.
+    expect(result.infrastructure?.realm.collectors[1].nodes).toBe(0);
+    const cloudTrailOptimized = result.sourceBreakdown[1].optimizedTerabytes;
+    expect(result.infrastructureAnnual).toBeCloseTo(
+      13 * 3_000 + syslogStorage + cloudTrailOptimized * 1_024 * 0.09 * 365,
+    );
+    expect(result.standardAnnual - withoutInfrastructure.standardAnnual).toBeCloseTo(
+      result.infrastructure?.baseline.annualCost ?? 0,
+    );
+    expect(result.annualSavings).toBeCloseTo(
+      result.standardAnnual - result.realmAnnual - result.infrastructureAnnual,
+    );
+  });
+
+  test('prices the renewal upgrade a committed license avoids with Realm', () => {
+    const destination = findDestination('splunk-es');
+    const input = { sources: [findSource('fortinet-fortigate')], destination, dailyTerabytes: 10 };
+    const annualContractPrice = priceDestination(destination, 12).annualCost * 0.8;
+    const analysis = analyzeCommitment(
+      input,
+      { committedDailyTerabytes: 12, annualContractPrice, renewalDate: '2027-10-19', annualGrowthRate: 0.3 },
+      '2026-10-19',
+    );
+
+    expect(analysis.monthsToRenewal).toBeCloseTo(12);
+    expect(analysis.contractDiscount).toBeCloseTo(0.8);
+    // Raw volume grows to 13 TB/day and outgrows the 12 TB/day commitment; Realm's 3.9 TB/day fits.
+    expect(analysis.baseline.renewalTerabytes).toBeCloseTo(13);
+    expect(analysis.baseline.upgradeRequired).toBe(true);
+    expect(analysis.baseline.renewalAnnual).toBeCloseTo(priceDestination(destination, 13).annualCost * 0.8);
+    expect(analysis.baseline.monthsOfHeadroom).toBeCloseTo((Math.log(1.2) / Math.log(1.3)) * 12);
+    expect(analysis.realm.upgradeRequired).toBe(false);
+    expect(analysis.realm.renewalAnnual).toBe(annualContractPrice);
+    expect(analysis.avoidedUpgradeAnnual).toBeCloseTo(analysis.baseline.renewalAnnual - annualContractPrice);
+    expect(analysis.headroomRegainedTerabytes).toBeCloseTo(7);
+  });
+
+  test('prices custom sources and destinations with rep-supplied assumptions', () => {
+    const firewallDefault = createCustomSource({ label: 'Sophos XG Firewall', trafficCategory: 'network-security' });
+    expect(firewallDefault).toMatchObject({ id: 'custom-source-sophos-xg-firewall', custom: true });
+    expect(firewallDefault.realmReduction).toMatchObject({ factor: 0.7, basis: 'assumption' });
+
+    const sophos = createCustomSource(
+      { label: 'Sophos XG Firewall', trafficCategory: 'network-security', reductionFactor: 0.4 },
+      [firewallDefault.id],
+    );
+    expect(sophos.id).toBe('custom-source-sophos-xg-firewall-2');
+    const legacySiem = createCustomDestination({
+      label: 'McAfee ESM',
+      pricing: { kind: 'flat-per-tb', annualCostPerTb: 400_000, reference: 'Rep-supplied' },
+    });
+
+    const result = calculate({ sources: [sophos], destination: legacySiem, dailyTerabytes: 2 });
+    expect(result.averageOptimization).toBeCloseTo(0.4);
+    expect(result.standardAnnual).toBeCloseTo(800_000);
+    expect(result.sourceBreakdown[0].source.custom).toBe(true);
+
+    expect(() => createCustomSource({ label: ' ', trafficCategory: 'identity' })).toThrow('needs a name');
+    expect(() =>
+      createCustomDestination({ label: 'Bad', pricing: { kind: 'flat-per-tb', annualCostPerTb: 0, reference: '' } }),
+    ).toThrow('positive rate');
+  });
+
+  test('rejects scenarios without sources', () => {
+    expect(() =>
+      calculate({ sources: [], destination: findDestination('splunk-es'), dailyTerabytes: 1 }),
+    ).toThrow(/at least one source/i);
+  });
+
+  test('converts daily volume between units', () => {
+    const volume = convertDailyVolume(1, 'terabytes', 1);
+    expect(volume.dailyGigabytes).toBeCloseTo(1_024);
+    expect(volume.dailyEvents).toBeCloseTo(1_024 * 1_024 * 1_024);
+    expect(convertDailyVolume(10, 'eps', 1).dailyEvents).toBe(864_000);
+  });
+
+  test('models peak EPS and license overage days before and after Realm', () => {
+    const input = {
+      sources: [findSource('fortinet-fortigate')],
+      destination: findDestination('splunk-es'),
+      dailyTerabytes: 10,
+    };
+    const burst = analyzeBurstRisk(input, { averageEventSizeKb: 1 });
+
+    // Network traffic peaks at 12/190 of the day in one hour, with a 2x burst inside it.
+    expect(burst.shape.peakToAverageRatio).toBeCloseTo((12 / 190) * 24 * 2);
+    expect(burst.baseline.peakEventsPerSecond).toBeCloseTo(
+      burst.averageEventsPerSecond * burst.shape.peakToAverageRatio,
+    );
+    expect(burst.licensedDailyTerabytes).toBeCloseTo(11);
+    // 10% headroom is two-thirds of a standard deviation at 15% daily variation.
+    expect(burst.baseline.overageProbability).toBeCloseTo(getExceedanceProbability(10, 0.15, 11));
+    expect(burst.baseline.overageDaysPerYear).toBeGreaterThan(90);
+    expect(burst.realm.overageProbability).toBeLessThan(1e-6);
+    expect(getExceedanceProbability(10, 0.1, 10)).toBeCloseTo(0.5);
+  });
+
+  test('converts USD list prices with the dated FX table or a manual rate', () => {
+    const euro = getCurrencyConversion('EUR');
+    expect(euro.tableVersion).toBe(FX_RATE_TABLE.version);
+    expect(euro.rateDate).toBe(FX_RATE_TABLE.rateDate);
+    expect(euro.overridden).toBe(false);
+    expect(convertFromUsd(700_000, euro)).toBeCloseTo(700_000 * FX_RATE_TABLE.unitsPerUsd.EUR);
+
+    const manualYen = getCurrencyConversion('JPY', 140);
+    expect(manualYen.overridden).toBe(true);
+    expect(convertToUsd(convertFromUsd(4_300_000, manualYen), manualYen)).toBeCloseTo(4_300_000);
+  });
+
+  test('builds the source catalog from the priority sheet rows', () => {
+    expect(sources).toHaveLength(44);
+    expect(new Set(sources.map((source) => source.id)).size).toBe(sources.length);
+    expect(findSource('symantec-proxysg').label).toBe('Symantec - ProxySG');
+    expect(findSource('forcepoint-web-security').label).toBe('Forcepoint - Web Security');
+
+    const cloudTrail = findSource('aws-cloudtrail');
+    expect(cloudTrail.ingestionMethod).toBe('object-storage');
+    expect(cloudTrail.priority).toMatchObject({ productType: 'CSP Logs', rank: 5, outputFormats: ['json'] });
+    expect(cloudTrail.priority?.status).toEqual({ dataScience: 'blocked', engineering: 'done' });
+    // "Managed the same as Cisco Secure Firewall" inherits that row's method.
+    expect(findSource('cisco-firepower-ips').ingestionMethod).toBe('syslog-collector');
+  });
+
+  test('reports catalog integrity problems with precise paths', () => {
+    expect(validateCatalog().filter((issue) => issue.severity === 'error')).toEqual([]);
+
+    const shipped = getShippedCatalog();
+    const okta = findSource('okta');
+    const { identity: _identity, ...baselinesWithoutIdentity } = shipped.categoryBaselines;
+    const issues = validateCatalog({
+      ...shipped,
+      sources: [...shipped.sources, { ...okta, trafficCategory: undefined, realmReduction: { ...okta.realmReduction, factor: 35 } }],
+      destinationAllowlist: [...shipped.destinationAllowlist, 'qradar-typo'],
+      categoryBaselines: baselinesWithoutIdentity,
+    });
+    const messages = issues.map((issue) => `${issue.path}: ${issue.message}`);
+
+    expect(messages).toContain('sources[44] (okta).id: Duplicate id "okta"; first defined at sources[10].');
+    expect(messages.some((message) => message.startsWith('sources[44] (okta).realmReduction.factor: Reduction factor 35'))).toBe(true);
+    expect(messages.some((message) => message.startsWith('sources[44] (okta).trafficCategory:'))).toBe(true);
+    expect(messages).toContain('DESTINATION_ALLOWLIST: "qradar-typo" does not exist in allDestinations.');
+    expect(messages).toContain('categoryBaselines.identity: No traffic baseline for category "identity".');
+  });
+
+  test('resolves visible destinations per deployment and directive', () => {
+    const ids = (visibility: Parameters<typeof resolveVisibleDestinations>[0]) =>
+      resolveVisibleDestinations(visibility).destinations.map((destination) => destination.id);
+    const marketing = deploymentProfiles['marketing-site'].destinations;
+
+    expect(ids(marketing)).toEqual(destinations.map((destination) => destination.id));
+    expect(ids(marketing)).not.toContain('ibm-qradar');
+    expect(ids(deploymentProfiles['partner-embed'].destinations)).toContain('arcsight-esm');
+    expect(isDeploymentId('partner-embed')).toBe(true);
+    expect(isDeploymentId('constructor')).toBe(false);
+    expect(isDeploymentId('toString')).toBe(false);
+
+    const migration = applyDestinationDirective(marketing, '+ibm-qradar, -hydrolix, +not-a-siem');
+    const resolved = resolveVisibleDestinations(migration);
+    expect(resolved.destinations.map((destination) => destination.id)).toContain('ibm-qradar');
+    expect(resolved.destinations.map((destination) => destination.id)).not.toContain('hydrolix');
+    expect(resolved.unknownIds).toEqual(['not-a-siem']);
+    // Hiding everything falls back to the curated list rather than an empty picker.
+    expect(ids(applyDestinationDirective(marketing, destinations.map((destination) => `-${destination.id}`).join(',')))).toEqual(
+      ids(marketing),
+    );
+  });
+
+  test('gives email, DNS, WAF, proxy, and Windows sources their own categories', () => {
+    expect(findSource('mimecast-email').trafficCategory).toBe('email-security');
+    expect(findSource('infoblox-bloxone-ddi').trafficCategory).toBe('dns-ddi');
+    expect(findSource('cloudflare-waf').trafficCategory).toBe('waf-cdn');
+    expect(findSource('zscaler-internet-access').trafficCategory).toBe('proxy-swg');
+    expect(findSource('windows-event-logs').trafficCategory).toBe('windows-events');
+
+    // Sources that moved keep the reductions they had before the split.
+    expect(getFixedReduction(findSource('infoblox-bloxone-ddi'))).toBeCloseTo(0.6, 6);
+    expect(getFixedReduction(findSource('aws-waf'))).toBeCloseTo(0.7, 6);
+    expect(getFixedReduction(findSource('akamai-security-events'))).toBeCloseTo(0.6, 6);
+    expect(getFixedReduction(findSource('symantec-proxysg'))).toBeCloseTo(0.6, 6);
+    expect(getFixedReduction(findSource('windows-event-logs'))).toBeCloseTo(0.5, 6);
+    expect(getFixedReduction(findSource('abnormal-email'))).toBeCloseTo(0.5, 6);
+    // Firewalls and identity keep their existing heuristics.
+    expect(getFixedReduction(findSource('fortinet-fortigate'))).toBeCloseTo(0.7, 6);
+    expect(getFixedReduction(findSource('okta'))).toBeCloseTo(0.5, 6);
+
+    const dns = getTrafficRecommendation([findSource('cisco-umbrella')], 3_000);
+    const email = getTrafficRecommendation([findSource('abnormal-email')], 3_000);
+    expect(dns.averageEventSizeKb).toBeLessThan(0.5);
+    expect(email.averageEventSizeKb).toBeGreaterThan(2);
+    expect(dns.dailyEvents).toBeGreaterThan(email.dailyEvents * 5);
+  });
+
+  test('estimates daily traffic from an exact employee count and per-employee rates', () => {
+    const okta = getTrafficRecommendation([findSource('okta')], 2_400);
+    expect(okta.organizationSize.id).toBe('1000-5000-gb');
+    expect(okta.dailyEvents).toBe(2_400 * 52);
+    expect(okta.dailyGigabytes).toBeCloseTo((2_400 * 52 * 1.3) / (1_024 * 1_024), 9);
+
+    // Band edges pick the rates: 999 is small, 5,000 is mid-size, 5,001 is large.
+    expect(getTrafficRecommendation([findSource('okta')], 999).dailyEvents).toBe(999 * 45);
+    expect(getTrafficRecommendation([findSource('okta')], 5_000).dailyEvents).toBe(5_000 * 52);
+    expect(getTrafficRecommendation([findSource('okta')], 5_001).dailyEvents).toBe(5_001 * 60);
+
+    // Categories add up; a second firewall in the same category is not double counted.
+    const mixed = getTrafficRecommendation(
+      [findSource('okta'), findSource('fortinet-fortigate'), findSource('palo-alto-networks-ngfw')],
+      2_400,
+    );
+    expect(mixed.categories.map((estimate) => estimate.category)).toEqual(['identity', 'network-security']);
+    expect(mixed.dailyEvents).toBe(2_400 * (52 + 1_100));
+    expect(mixed.averageEventSizeKb).toBeCloseTo((52 * 1.3 + 1_100 * 0.13) / (52 + 1_100), 9);
+  });
+
+  test('sizes firewalls, endpoints, and AWS sources from asset inventory counts', () => {
+    const selected = [
+      findSource('fortinet-fortigate'),
+      findSource('crowdstrike-falcon'),
+      findSource('aws-vpc-flow-logs'),
+      findSource('okta'),
+    ];
+    const recommendation = getInventoryRecommendation(
+      selected,
+      {
+        'fortinet-fortigate': { units: 10, throughputClass: 'branch' },
+        'crowdstrike-falcon': { units: 4_000 },
+        'aws-vpc-flow-logs': { units: 3 },
+      },
+      2_400,
+    );
+
+    expect(recommendation.inventory.map((row) => [row.sourceId, row.dailyGigabytes])).toEqual([
+      ['fortinet-fortigate', 10 * 20 * 0.1],
+      ['crowdstrike-falcon', 4_000 * 0.05],
+      ['aws-vpc-flow-logs', 3 * 10],
+    ]);
+    // Okta has no inventory driver, so it keeps the per-employee identity estimate.
+    expect(recommendation.categories.map((estimate) => estimate.category)).toEqual(['identity']);
+    const identityGigabytes = (2_400 * 52 * 1.3) / (1_024 * 1_024);
+    expect(recommendation.dailyGigabytes).toBeCloseTo(20 + 200 + 30 + identityGigabytes, 9);
+
+    const volumes = getRecommendedSourceVolumes(recommendation, selected);
+    expect(volumes['crowdstrike-falcon']).toBeCloseTo(200, 9);
+    expect(volumes.okta).toBeCloseTo(identityGigabytes, 9);
+
+    // Zero or missing counts fall back to headcount for every source.
+    const empty = getInventoryRecommendation(selected, { 'fortinet-fortigate': { units: 0 } }, 2_400);
+    expect(empty.inventory).toEqual([]);
+    expect(empty.categories.map((estimate) => estimate.category)).toEqual([
+      'network-security',
+      'endpoint-edr',
+      'identity',
+    ]);
+  });
+
+  test('measures event size, field cardinality, and reduction from a sample log', () => {
+    const okta = analyzeSampleLog(readFileSync('research/samples/okta-system-log-sample.json', 'utf8'));
+    expect(okta.format).toBe('json');
+    expect(okta.eventCount).toBe(1);
+    expect(okta.averageEventSizeKb).toBeGreaterThan(1.5);
+    // One event shows empty fields but cannot prove a field is constant or duplicated.
+    expect(okta.fields.some((field) => field.status === 'empty')).toBe(true);
+    expect(okta.fields.some((field) => field.status === 'constant')).toBe(false);
+    expect(okta.warnings).toHaveLength(1);
+
+    const lines = Array.from(
+      { length: 20 },
+      (_, index) =>
+        `<189>devname="FG-100F" type="traffic" srcip=10.0.0.${index % 2} dstip=8.8.8.8 action="accept" ` +
+        `user="" eventtime=${1_700_000_000_000 + index}`,
+    );
+    const firewall = analyzeSampleLog(lines.join('\n'));
+    const status = (name: string) => firewall.fields.find((field) => field.name === name)?.status;
+    expect(firewall.format).toBe('syslog');
+    expect(status('devname')).toBe('constant');
+    expect(status('user')).toBe('empty');
+    expect(status('eventtime')).toBe('unique');
+    expect(status('srcip')).toBe('variable');
+    // srcip is the only varying field, so all but two events repeat an earlier one.
+    expect(firewall.duplicateEvents).toBe(18);
+    expect(firewall.pruningReduction).toBeGreaterThan(0.3);
+    expect(firewall.estimatedReduction).toBeCloseTo(
+      Math.min(0.75, firewall.pruningReduction + firewall.dedupeReduction),
+      9,
+    );
+
+    expect(detectSampleFormat('CEF:0|Vendor|Product|1.0|100|Blocked|5|src=10.0.0.1 msg=a b')).toBe('cef');
+    expect(detectSampleFormat('LEEF:2.0|Vendor|Product|1.0|41|^|src=10.0.0.1^dst=10.0.0.2')).toBe('leef');
+    expect(detectSampleFormat('{"a":1}\n{"a":2}')).toBe('json-lines');
+    const csv = analyzeSampleLog('time,user,note\n1,"doe, jane",\n2,smith,');
+    expect(csv.format).toBe('csv');
+    expect(csv.fields.find((field) => field.name === 'note')?.emptyCount).toBe(2);
+    expect(() => analyzeSampleLog('[]')).toThrow('No JSON events');
+
+    const measured = applySampleAnalysis(findSource('fortinet-fortigate'), firewall, 'fortigate.log');
+    expect(getFixedReduction(measured)).toBeCloseTo(firewall.estimatedReduction, 9);
+    expect(measured.realmReduction.reference).toContain('fortigate.log (20 syslog events)');
+  });
+});
@@ -103,6 +103,9 @@ test.describe('Realm Cost Calculator experience', () => {
     await expect(annualSavings).toContainText('$4,300,000');
     await expect(pricingNote).toContainText('$70k annually per 1 TB/day of raw volume');
     await expect(pricingNote).toContainText('$500k annually per 1 TB/day of raw SIEM ingest');
+    await expect(page.locator('#annualSavingsRange')).toHaveText('Range: $3,800,000 - $4,550,000');
+    await expect(page.locator('#roiRange')).toHaveText('Range: 5.4x - 6.5x');
+    await expect(roiTooltip).toContainText('Low to high: 5.4x - 6.5x');
 
     // Multi-source scenario (Fortinet + Okta)
     await sourceOkta.click();
@@ -118,4 +121,58 @@ test.describe('Realm Cost Calculator experience', () => {
     await expect(reductionTooltip).toContainText('10 TB/day in raw telemetry reduced by 60.0% to 4');
     await expect(annualSavings).toContainText('$4,300,000');
   });
+
+  test('weights savings by per-source daily volume', async ({ page }) => {
+    const destinationSelect = page.locator('#destinationSelect');
+    const trafficUnit = page.locator('#trafficUnit');
+    const trafficInput = page.locator('#trafficInput');
+    const fortinetVolume = page.locator('[data-source-volume-id="fortinet-fortigate"]');
+    const oktaVolume = page.locator('[data-source-volume-id="okta"]');
+    const reduction = page.locator('#dataReduction');
+    const breakdown = page.locator('#sourceBreakdown');
+
+    await page.waitForSelector('#destinationSelect option[value="splunk-es"]', { state: 'attached' });
+    await destinationSelect.selectOption('splunk-es');
+    await page.locator('[data-source-id="fortinet-fortigate"]').click();
+    await page.locator('[data-source-id="okta"]').click();
+    await trafficUnit.selectOption('terabytes');
+    await trafficInput.fill('10');
+
+    await expect(fortinetVolume).toHaveValue('5');
+    await expect(oktaVolume).toHaveValue('5');
+
+    await fortinetVolume.fill('8');
+    await oktaVolume.fill('2');
+
+    await expect(trafficInput).toHaveValue('10');
+    await expect(reduction).toHaveText(/6\.6\s*TB \(66\.0% less\)/);
+    await expect(breakdown).toContainText('Fortinet - Fortigate: 8 TB/day (80.0% of volume)');
+  });
+
+  test('reports payback and break-even with implementation costs', async ({ page }) => {
+    await page.waitForSelector('#destinationSelect option[value="splunk-es"]', { state: 'attached' });
+    await page.locator('#destinationSelect').selectOption('splunk-es');
+    await page.locator('[data-source-id="fortinet-fortigate"]').click();
+    await page.locator('#trafficUnit').selectOption('terabytes');
+    await page.locator('#trafficInput').fill('10');
+    await page.locator('#projectionYears').selectOption('1');
+    await page.locator('#onboardingCostInput').fill('430000');
+
+    await expect(page.locator('#paybackPeriod')).toHaveText('1.2 months');
+    await expect(page.locator('#breakEvenVolume')).toHaveText(/^0\.11\d TB\/day$/);
+    await expect(page.locator('#investmentSummary')).toContainText('1 TB/day Realm minimum');
+  });
+
+  test('compares Realm with alternative pipelines', async ({ page }) => {
+    await page.waitForSelector('#destinationSelect option[value="splunk-es"]', { state: 'attached' });
+    await page.locator('#destinationSelect').selectOption('splunk-es');
+    await page.locator('[data-source-id="fortinet-fortigate"]').click();
+    await page.locator('#trafficUnit').selectOption('terabytes');
+    await page.locator('#trafficInput').fill('10');
+
+    await expect(page.locator('#competitorTableBody tr')).toHaveCount(6);
+    const criblRow = page.locator('[data-competitor-row="cribl-stream"]');
+    await expect(criblRow).toContainText('$5,136,000');
+    await expect(criblRow).toContainText('+$4,436,000');
+  });
 });
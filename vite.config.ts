@@ -1,6 +1,27 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+// Prints catalog integrity problems to the dev server terminal as soon as it starts.
+const catalogValidation = (): Plugin => ({
+  name: 'realm-catalog-validation',
+  apply: 'serve',
+  configureServer(server) {
+    const { logger } = server.config;
+    server
+      .ssrLoadModule('/src/data/catalog-validation.ts')
+      .then(({ validateCatalog, formatCatalogIssues }) => {
+        const issues = validateCatalog();
+        if (issues.length > 0) {
+          logger.warn(`Catalog validation found ${issues.length} issue(s):\n${formatCatalogIssues(issues)}`);
+        }
+      })
+      .catch((error: unknown) => {
+        logger.error(`Catalog validation could not run: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  },
+});
 
 export default defineConfig({
+  plugins: [catalogValidation()],
   optimizeDeps: {
     entries: ['index.html'],
   },